@@ -0,0 +1,47 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createWorkflowDocument } from '@/lib/workflow/document';
+import { createWorkflow, getWorkflow } from '@/lib/server/workflowStore';
+import type { StoredWorkflow } from '@/lib/workflow/types';
+import { DELETE } from './route';
+
+let dir: string;
+let stored: StoredWorkflow;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'workflow-route-'));
+  vi.stubEnv('WORKFLOW_STORE_DIR', dir);
+  stored = await createWorkflow(createWorkflowDocument({ nodes: [], connections: [] }, { name: 'Kept' }));
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+const remove = (query: string) => DELETE(
+  new Request(`http://localhost/api/workflows/${stored.id}${query}`, { method: 'DELETE' }),
+  { params: Promise.resolve({ id: stored.id }) }
+);
+
+describe('DELETE /api/workflows/[id]', () => {
+  it.each(['', 'abc', '-1', '1.5', '1e0', ' 1', '0x1'])('rejects ?revision=%j without deleting', async (revision) => {
+    const response = await remove(`?revision=${encodeURIComponent(revision)}`);
+    expect(response.status).toBe(400);
+    await expect(getWorkflow(stored.id)).resolves.toMatchObject({ id: stored.id });
+  });
+
+  it('deletes at the current revision', async () => {
+    expect((await remove(`?revision=${stored.revision}`)).status).toBe(204);
+  });
+
+  it('refuses a revision that is no longer current', async () => {
+    expect((await remove(`?revision=${stored.revision + 1}`)).status).toBe(409);
+  });
+
+  it('deletes without a revision', async () => {
+    expect((await remove('')).status).toBe(204);
+  });
+});
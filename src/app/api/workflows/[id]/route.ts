@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import { errorResponse, readDocument, readJsonBody, storeErrorResponse } from '@/lib/server/http';
+import { deleteWorkflow, getWorkflow, updateWorkflow } from '@/lib/server/workflowStore';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    return NextResponse.json(await getWorkflow(id));
+  } catch (error) {
+    return storeErrorResponse(error);
+  }
+}
+
+// Body: { document, revision }. `revision` is the one the client loaded; a
+// mismatch means someone else saved first and yields 409 with their record.
+export async function PUT(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+
+  const parsed = await readJsonBody(request);
+  if (!parsed.ok) return parsed.response;
+
+  const { revision } = parsed.body;
+  if (typeof revision !== 'number' || !Number.isInteger(revision)) {
+    return errorResponse(400, { error: 'Missing or invalid "revision"' });
+  }
+
+  const document = readDocument(parsed.body);
+  if (!document.ok) return document.response;
+
+  try {
+    return NextResponse.json(await updateWorkflow(id, document.document, revision));
+  } catch (error) {
+    return storeErrorResponse(error);
+  }
+}
+
+// Revisions count up from 0; `Number` would also take "", " 1", "1e3" or "0x1"
+const REVISION_PATTERN = /^\d+$/;
+
+// Optional ?revision=N guards against deleting a workflow that changed since it was loaded.
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+
+  const rawRevision = new URL(request.url).searchParams.get('revision');
+  if (rawRevision !== null && !REVISION_PATTERN.test(rawRevision)) {
+    return errorResponse(400, { error: 'Invalid "revision"' });
+  }
+  const revision = rawRevision === null ? undefined : Number(rawRevision);
+
+  try {
+    await deleteWorkflow(id, revision);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return storeErrorResponse(error);
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { readDocument, readJsonBody } from '@/lib/server/http';
+import { createWorkflow, listWorkflows } from '@/lib/server/workflowStore';
+
+export async function GET() {
+  return NextResponse.json(await listWorkflows());
+}
+
+export async function POST(request: Request) {
+  const parsed = await readJsonBody(request);
+  if (!parsed.ok) return parsed.response;
+
+  const document = readDocument(parsed.body);
+  if (!document.ok) return document.response;
+
+  const record = await createWorkflow(document.document);
+  return NextResponse.json(record, {
+    status: 201,
+    headers: { Location: `/api/workflows/${record.id}` }
+  });
+}
@@ -0,0 +1,25 @@
+import FrameRateMeter from '@/components/FrameRateMeter';
+import WorkflowEditor from '@/components/WorkflowEditor';
+import { createBenchmarkWorkflow } from '@/lib/workflow/benchmark';
+
+const readCount = (value: string | undefined, fallback: number) => {
+  const count = Number(value);
+  return Number.isInteger(count) && count > 0 ? count : fallback;
+};
+
+// A generated 1,000 node / 2,000 wire graph with a frame rate readout.
+// `?nodes=` and `?wires=` change the size.
+export default async function BenchmarkPage({
+  searchParams
+}: {
+  searchParams: Promise<{ nodes?: string; wires?: string }>;
+}) {
+  const { nodes, wires } = await searchParams;
+
+  return (
+    <div className="h-screen w-full">
+      <WorkflowEditor initialWorkflow={createBenchmarkWorkflow(readCount(nodes, 1000), readCount(wires, 2000))} />
+      <FrameRateMeter />
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import { notFound } from 'next/navigation';
+import WorkflowEditor from '@/components/WorkflowEditor';
+import { getWorkflow, WorkflowNotFoundError } from '@/lib/server/workflowStore';
+
+interface WorkflowPageProps {
+  params: Promise<{ id: string }>;
+}
+
+const loadWorkflow = async (id: string) => {
+  try {
+    return await getWorkflow(id);
+  } catch (error) {
+    if (error instanceof WorkflowNotFoundError) notFound();
+    throw error;
+  }
+};
+
+export default async function WorkflowPage({ params }: WorkflowPageProps) {
+  const { id } = await params;
+  const record = await loadWorkflow(id);
+
+  return (
+    <div className="h-screen w-full">
+      <WorkflowEditor
+        initialWorkflow={record.document}
+        stored={{ id: record.id, revision: record.revision }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import Link from 'next/link';
+import { listWorkflows } from '@/lib/server/workflowStore';
+
+// Reads the store on every request rather than at build time
+export const dynamic = 'force-dynamic';
+
+export default async function WorkflowsPage() {
+  const { workflows, corrupt } = await listWorkflows();
+
+  return (
+    <div className="min-h-screen w-full bg-gray-50">
+      <div className="bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">Workflows</h1>
+          <p className="text-sm text-gray-600 mt-1">Saved on this server</p>
+        </div>
+        <Link href="/" className="text-sm font-medium text-gray-900 hover:underline">
+          New workflow
+        </Link>
+      </div>
+
+      {corrupt.length > 0 && (
+        <div role="alert" className="max-w-3xl mx-auto mt-6 px-4 py-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-900">
+          {corrupt.length === 1 ? 'A saved workflow' : `${corrupt.length} saved workflows`} could not be read and
+          {corrupt.length === 1 ? ' is' : ' are'} left out: {corrupt.join(', ')}
+        </div>
+      )}
+
+      <ul className="max-w-3xl mx-auto my-6 bg-white border border-gray-200 rounded-lg divide-y divide-gray-200">
+        {workflows.length === 0 && (
+          <li className="px-4 py-6 text-sm text-gray-600 text-center">
+            Nothing saved yet. Open a new workflow and press Save.
+          </li>
+        )}
+        {workflows.map(workflow => (
+          <li key={workflow.id}>
+            <Link
+              href={`/workflows/${workflow.id}`}
+              className="flex items-center justify-between px-4 py-3 hover:bg-gray-50"
+            >
+              <span className="text-sm font-medium text-gray-900">{workflow.name}</span>
+              <span className="text-xs text-muted-foreground">
+                revision {workflow.revision} · {new Date(workflow.updatedAt).toLocaleString()}
+              </span>
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
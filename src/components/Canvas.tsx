@@ -1,29 +1,121 @@
 'use client';
 
-import React, { useState, useCallback, useRef } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo, useId } from 'react';
+import {
+  AlignCenterHorizontal,
+  AlignCenterVertical,
+  AlignEndHorizontal,
+  AlignEndVertical,
+  AlignHorizontalDistributeCenter,
+  AlignStartHorizontal,
+  AlignStartVertical,
+  AlignVerticalDistributeCenter,
+  ChevronRight,
+  CloudOff,
+  Frame,
+  Grid3x3,
+  Group,
+  Maximize,
+  Network,
+  Play,
+  Square,
+  TriangleAlert,
+  ZoomIn,
+  ZoomOut
+} from 'lucide-react';
 import WorkflowNode from './WorkflowNode';
-import Connection from './Connection';
-
-interface NodeInput {
-  id: string;
-  connected: boolean;
-}
-
-interface NodeData {
-  id: string;
-  x: number;
-  y: number;
-  title: string;
-  description: string;
-  inputs: NodeInput[];
-}
-
-interface ConnectionData {
-  id: string;
-  fromNodeId: string;
-  toNodeId: string;
-  toInputId: string;
-}
+import Connection, { ConnectionMarkers } from './Connection';
+import ConnectionPicker from './ConnectionPicker';
+import CollaboratorLayer from './CollaboratorLayer';
+import ContextMenu, { type ContextMenuItem } from './ContextMenu';
+import NodeInspector from './NodeInspector';
+import RunDetailsPanel from './RunDetailsPanel';
+import { useLongPress, type ContextRequest } from '@/hooks/useLongPress';
+import { usePinchZoom } from '@/hooks/usePinchZoom';
+import { useSharedGraph, type SharedGraphOptions } from '@/hooks/useSharedGraph';
+import { useWorkflowRun } from '@/hooks/useWorkflowRun';
+import { useSpatialIndex } from '@/hooks/useSpatialIndex';
+import { useViewport } from '@/hooks/useViewport';
+import { useWireRoutes } from '@/hooks/useWireRoutes';
+import { alignBoxes, distributeBoxes, getAlignmentBox, snapToGuides, type AlignEdge, type Guide } from '@/lib/alignment';
+import { formatDuration } from '@/lib/format';
+import {
+  containsPoint,
+  DEFAULT_NODE_THEME,
+  getAddInputGrowth,
+  getInputAnchor,
+  getInputDropZone,
+  getLabelTop,
+  getNodeBounds,
+  getNodeDropZone,
+  getNodeFootprint,
+  getNodeHeight,
+  getOutputAnchor,
+  getRestingShape,
+  type Bounds,
+  type NodeShape
+} from '@/lib/geometry';
+import { createId } from '@/lib/ids';
+import { layoutGraph } from '@/lib/layout';
+import { intersects } from '@/lib/spatialIndex';
+import { routeWire, type WireRequest } from '@/lib/wires';
+import {
+  createNodeFromType,
+  getNodeDisplayName,
+  getNodeInputType,
+  getNodeLabel,
+  getNodeOutputs,
+  getNodeOutputType,
+  getNodeType,
+  isPortTypeCompatible,
+  listNodeTypes,
+  NODE_TYPE_DRAG_MIME,
+  type NodeTypeDefinition
+} from '@/lib/nodeTypes';
+import { extractSubgraph, instantiateSubgraph, parseClipboard, serializeClipboard } from '@/lib/workflow/clipboard';
+import {
+  addNodeCommand,
+  addSubgraphCommand,
+  composeCommands,
+  connectCommand,
+  connectToNewInputCommand,
+  disconnectCommand,
+  labelConnectionCommand,
+  moveNodeCommand,
+  moveNodesCommand,
+  placeNodes,
+  removeInputCommand,
+  removeNodesCommand,
+  setFramesCommand,
+  setSubflowsCommand,
+  updateNodeCommand,
+  type GraphCommand,
+  type NodeEdit
+} from '@/lib/workflow/commands';
+import { FRAME_COLORS } from '@/lib/workflow/schema';
+import {
+  addToSubflow,
+  collapseIntoSubflow,
+  expandSubflow,
+  expandSubflowIds,
+  getRepresentatives,
+  getSubflowPath,
+  getSubflowView,
+  resolveOutput,
+  SUBFLOW_NODE_TYPE,
+  type OutputRef
+} from '@/lib/workflow/subflows';
+import type {
+  ConnectionData,
+  FrameColor,
+  FrameData,
+  NodeData,
+  Viewport,
+  WireStyle,
+  WorkflowDocument,
+  WorkflowGraph
+} from '@/lib/workflow/types';
+import { canConnect, validateWorkflow, type ConnectionCheck } from '@/lib/workflow/validation';
 
 interface InputConnectionState {
   hasIncomingConnection: boolean;
@@ -33,293 +125,937 @@ interface InputConnectionState {
   inputIndex: number;
   isAddInput?: boolean;
   isDragging?: boolean;
+  // The wire being dragged carries a type this input doesn't take
+  isIncompatible?: boolean;
 }
 
-const Canvas: React.FC = () => {
-  const [nodes, setNodes] = useState<NodeData[]>([
-    { 
-      id: '1', 
-      x: 150, 
-      y: 100,
-      title: 'Code',
-      description: 'Change flight sheet',
-      inputs: [{ id: 'input-1', connected: false }]
-    },
-    { 
-      id: '2', 
-      x: 400, 
-      y: 300,
-      title: 'Code', 
-      description: 'LTC',
-      inputs: [{ id: 'input-1', connected: true }]
-    },
-    { 
-      id: '3', 
-      x: 700, 
-      y: 200,
-      title: 'Code', 
-      description: 'BTC',
-      inputs: [
-        { id: 'input-1', connected: false },
-        { id: 'input-2', connected: false },
-        { id: 'input-3', connected: false },
-        { id: 'input-4', connected: false }
-      ]
-    },
-  ]);
-
-  const [connections, setConnections] = useState<ConnectionData[]>([
-    { id: 'conn1', fromNodeId: '1', toNodeId: '2', toInputId: 'input-1' }
-  ]);
-
-  const [dragState, setDragState] = useState<{
-    isDragging: boolean;
-    fromNodeId: string | null;
-    currentX: number;
-    currentY: number;
-    hoveredNodeId: string | null;
-    hoveredInputId: string | null;
-    isInTapZone: boolean;
-    isDisconnecting: boolean;
-    disconnectedConnectionId: string | null;
-    canCreateNewInput: boolean;
-  }>({
-    isDragging: false,
-    fromNodeId: null,
-    currentX: 0,
-    currentY: 0,
-    hoveredNodeId: null,
-    hoveredInputId: null,
-    isInTapZone: false,
-    isDisconnecting: false,
-    disconnectedConnectionId: null,
-    canCreateNewInput: false
-  });
+interface DragState {
+  isDragging: boolean;
+  fromNodeId: string | null;
+  fromOutputId: string | null;
+  currentX: number;
+  currentY: number;
+  hoveredNodeId: string | null;
+  hoveredInputId: string | null;
+  isInTapZone: boolean;
+  isDisconnecting: boolean;
+  disconnectedConnectionId: string | null;
+  canCreateNewInput: boolean;
+  // Result of checking the wire against the node under the cursor
+  connectionCheck: ConnectionCheck | null;
+}
 
-  const canvasRef = useRef<HTMLDivElement>(null);
+const IDLE_DRAG_STATE: DragState = {
+  isDragging: false,
+  fromNodeId: null,
+  fromOutputId: null,
+  currentX: 0,
+  currentY: 0,
+  hoveredNodeId: null,
+  hoveredInputId: null,
+  isInTapZone: false,
+  isDisconnecting: false,
+  disconnectedConnectionId: null,
+  canCreateNewInput: false,
+  connectionCheck: null
+};
+
+// Where a new wire ends; `toInputId: null` adds an input for it
+interface ConnectionTarget {
+  toNodeId: string;
+  toInputId: string | null;
+  inputIndex: number;
+  check: ConnectionCheck;
+}
+
+// What a context menu was opened on
+type ContextTarget =
+  | { kind: 'canvas' }
+  | { kind: 'node'; nodeId: string }
+  | { kind: 'input'; nodeId: string; inputId: string }
+  | { kind: 'output'; nodeId: string; outputId: string }
+  | { kind: 'connection'; connectionId: string }
+  | { kind: 'frame'; frameId: string };
+
+interface ContextMenuState {
+  // Canvas coordinates
+  left: number;
+  top: number;
+  target: ContextTarget;
+}
+
+// A wire lifted off an input that has not been put down yet. `connection` is
+// the wire as drawn, which may end on a collapsed subflow; `command` disconnects
+// it in the graph.
+interface PendingDisconnect {
+  connection: ConnectionData;
+  command: GraphCommand;
+}
+
+interface CanvasProps {
+  workflow: WorkflowDocument;
+  onChange?: (graph: WorkflowGraph) => void;
+  onViewportChange?: (viewport: Viewport) => void;
+  onWireStyleChange?: (wireStyle: WireStyle) => void;
+  // Edit the graph together with everyone else in the same room
+  collaboration?: SharedGraphOptions;
+  // Last revision saved to the store from here; shared with the room
+  revision?: number;
+  // Someone in the room saved a newer revision
+  onRevisionChange?: (revision: number) => void;
+}
+
+const GRID_SIZE = 40;
+// How far duplicates (and pastes without a known cursor position) are shifted
+const PASTE_OFFSET = 32;
+// Arrow-key nudge; with shift a node moves a whole grid cell
+const NUDGE_STEP = 8;
+// How close (in screen pixels) a dragged node has to come to lining up with
+// another before it snaps into line
+const GUIDE_THRESHOLD = 6;
+// How long nodes take to glide to their arranged positions
+const ARRANGE_DURATION_MS = 300;
+// Room between a frame's edge and the nodes in it, and the height of its title bar
+const FRAME_PADDING = 16;
+const FRAME_HEADER_HEIGHT = 28;
+// Graphs smaller than this render every node; bigger ones skip what is off
+// screen. Small graphs keep every node in the tab order that way.
+const CULLING_MIN_NODES = 200;
+// Extra room around the view, in world units, so titles, labels and ports of
+// nodes just outside it still show
+const CULLING_MARGIN = 160;
+
+const WIRE_STYLE_OPTIONS: { value: WireStyle; label: string }[] = [
+  { value: 'orthogonal', label: 'Orthogonal' },
+  { value: 'bezier', label: 'Curved' },
+  { value: 'straight', label: 'Straight' }
+];
 
-  const updateNodePosition = (id: string, x: number, y: number) => {
-    setNodes(prev => prev.map(node => 
-      node.id === id ? { ...node, x, y } : node
+const FRAME_STYLES: Record<FrameColor, { frame: string; title: string }> = {
+  gray: { frame: 'border-gray-300 bg-gray-100/60', title: 'text-gray-700' },
+  blue: { frame: 'border-blue-300 bg-blue-50/60', title: 'text-blue-800' },
+  green: { frame: 'border-green-300 bg-green-50/60', title: 'text-green-800' },
+  yellow: { frame: 'border-yellow-300 bg-yellow-50/60', title: 'text-yellow-800' },
+  red: { frame: 'border-red-300 bg-red-50/60', title: 'text-red-800' },
+  purple: { frame: 'border-purple-300 bg-purple-50/60', title: 'text-purple-800' }
+};
+
+const ALIGN_ACTIONS: { edge: AlignEdge; label: string; icon: React.ComponentType<{ className?: string }> }[] = [
+  { edge: 'left', label: 'Align left edges', icon: AlignStartVertical },
+  { edge: 'center', label: 'Align horizontal centres', icon: AlignCenterVertical },
+  { edge: 'right', label: 'Align right edges', icon: AlignEndVertical },
+  { edge: 'top', label: 'Align top edges', icon: AlignStartHorizontal },
+  { edge: 'middle', label: 'Align vertical centres', icon: AlignCenterHorizontal },
+  { edge: 'bottom', label: 'Align bottom edges', icon: AlignEndHorizontal }
+];
+
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && target.closest('input, textarea, select, [contenteditable="true"]') !== null;
+
+// The box around all of `boxes`
+const unionBounds = (boxes: Bounds[]): Bounds => boxes.reduce((acc, box) => ({
+  minX: Math.min(acc.minX, box.minX),
+  minY: Math.min(acc.minY, box.minY),
+  maxX: Math.max(acc.maxX, box.maxX),
+  maxY: Math.max(acc.maxY, box.maxY)
+}), { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity });
+
+// "Code (LTC)", naming the output too when the node has several
+const describeOutput = (node: NodeData, outputId: string) => {
+  const outputs = getNodeOutputs(node);
+  const output = outputs.find(candidate => candidate.id === outputId);
+  return outputs.length > 1 && output ? `${getNodeDisplayName(node)} ${output.label} output` : getNodeDisplayName(node);
+};
+
+const describeInput = (node: NodeData, inputIndex: number) => `input ${inputIndex + 1} of ${getNodeDisplayName(node)}`;
+
+// Ports a new node of this type starts out with
+const getTypeShape = (definition: NodeTypeDefinition): NodeShape => ({
+  inputCount: definition.defaultInputs,
+  outputCount: definition.outputs?.length ?? 1
+});
+
+// Every input of `candidates` a wire from `source` could be dropped on, by the
+// same rules as dragging: free inputs first, or a new input once all are taken
+const findConnectionTargets = (graph: WorkflowGraph, candidates: NodeData[], source: OutputRef): ConnectionTarget[] => {
+  const fromNode = graph.nodes.find(node => node.id === source.nodeId);
+  if (!fromNode) return [];
+  const outputType = getNodeOutputType(fromNode, source.outputId);
+
+  return candidates.flatMap((node): ConnectionTarget[] => {
+    if (node.id === source.nodeId || !isPortTypeCompatible(outputType, getNodeInputType(node))) return [];
+    const check = canConnect(graph, source.nodeId, source.outputId, node.id);
+    if (!check.ok) return [];
+
+    const free = node.inputs.flatMap((input, index): ConnectionTarget[] => (
+      input.connected ? [] : [{ toNodeId: node.id, toInputId: input.id, inputIndex: index, check }]
     ));
-  };
+    return free.length > 0 ? free : [{ toNodeId: node.id, toInputId: null, inputIndex: node.inputs.length, check }];
+  });
+};
 
-  const calculateNodeHeight = (inputCount: number) => {
-    const baseHeight = 48; // 48px base button height
-    if (inputCount <= 1) return baseHeight;
-    
-    // For multiple inputs: 8pt top margin + inputs with 8pt spacing + 8pt bottom margin
-    const inputHeight = 12; // Each input connector is 12px
-    const spacing = 8; // 8pt spacing between inputs
-    const margins = 16; // 8pt top + 8pt bottom
-    
-    return Math.max(baseHeight, (inputCount * inputHeight) + ((inputCount - 1) * spacing) + margins);
+const Canvas: React.FC<CanvasProps> = ({
+  workflow,
+  onChange,
+  onViewportChange,
+  onWireStyleChange,
+  collaboration,
+  revision,
+  onRevisionChange
+}) => {
+  const {
+    graph, committed, execute, record, preview, discard, undo, redo,
+    status: sharingStatus, peers, updatePresence, meta: sharedMeta, updateMeta: updateSharedMeta
+  } = useSharedGraph(workflow, collaboration);
+
+  useEffect(() => {
+    if (revision !== undefined) updateSharedMeta({ revision });
+  }, [revision, updateSharedMeta]);
+
+  useEffect(() => {
+    if (sharedMeta.revision !== undefined) onRevisionChange?.(sharedMeta.revision);
+  }, [sharedMeta.revision, onRevisionChange]);
+
+  // Subflow being looked into, or null for the top level. Undoing the collapse
+  // that made it takes the canvas back out.
+  const [openSubflowId, setOpenSubflowId] = useState<string | null>(null);
+  const level = graph.subflows?.some(subflow => subflow.id === openSubflowId) ? openSubflowId : null;
+  // What the canvas draws: the nodes at this level, with the subflows in it collapsed
+  const view = useMemo(() => getSubflowView(graph, level), [graph, level]);
+  const { nodes, connections } = view;
+  // The graph's own record of each wire; a drawn wire may end on a collapsed subflow instead
+  const storedConnections = useMemo(() => new Map(graph.connections.map(conn => [conn.id, conn])), [graph.connections]);
+  const getStoredConnection = useCallback((connection: ConnectionData) =>
+    storedConnections.get(connection.id) ?? connection, [storedConnections]);
+
+  // Nodes added while looking into a subflow go into it
+  const addToLevel = useCallback((command: GraphCommand, nodeIds: string[]) => {
+    if (level === null) return command;
+    const join = setSubflowsCommand(command.label, graph.subflows ?? [], addToSubflow(graph, level, nodeIds));
+    return composeCommands(command.label, [command, join]);
+  }, [graph, level]);
+
+  useEffect(() => {
+    onChange?.(graph);
+  }, [graph, onChange]);
+
+  const { viewport, setViewport, screenToWorld, panBy, zoomAt, fitBounds } = useViewport(workflow.viewport);
+
+  useEffect(() => {
+    onViewportChange?.(viewport);
+  }, [viewport, onViewportChange]);
+
+  const [wireStyle, setWireStyle] = useState<WireStyle>(workflow.wireStyle);
+
+  useEffect(() => {
+    onWireStyleChange?.(wireStyle);
+  }, [wireStyle, onWireStyleChange]);
+
+  // Wire style is part of the workflow, so everyone in the room sees the same
+  useEffect(() => {
+    if (sharedMeta.wireStyle) setWireStyle(sharedMeta.wireStyle);
+  }, [sharedMeta.wireStyle]);
+
+  const changeWireStyle = (style: WireStyle) => {
+    setWireStyle(style);
+    updateSharedMeta({ wireStyle: style });
   };
 
-  // Centralized function to get the effective height for a node given current drag state
-  const getNodeHeight = (node: NodeData) => {
-    const allInputsConnected = node.inputs.every(input => input.connected);
-    const shouldShowAdd = dragState.isDragging && 
-                         dragState.hoveredNodeId === node.id && 
-                         dragState.canCreateNewInput && 
-                         allInputsConnected;
-    
-    let baseHeight;
-    if (shouldShowAdd) {
-      // When showing ADD input
-      if (node.inputs.length === 1) {
-        // Adding SECOND input: add 12px to original height for preview
-        baseHeight = calculateNodeHeight(node.inputs.length) + 12;
-      } else {
-        // Adding beyond second input: use standard calculation
-        const effectiveInputCount = node.inputs.length + 1;
-        baseHeight = calculateNodeHeight(effectiveInputCount);
-      }
-    } else {
-      // Normal state: use actual input count
-      baseHeight = calculateNodeHeight(node.inputs.length);
+  const [isSpacePressed, setIsSpacePressed] = useState(false);
+  const [isPanning, setIsPanning] = useState(false);
+
+  // Checked as committed, so drags and other previews don't re-run it every frame
+  const report = useMemo(() => validateWorkflow(committed), [committed]);
+  // Wires that no longer type-check, e.g. after a node type changed its ports
+  const typeMismatchIds = useMemo(() => new Set(
+    report.issues.filter(issue => issue.code === 'type-mismatch').flatMap(issue => issue.connectionIds)
+  ), [report]);
+  const { run, start: startRun, cancel: cancelRun } = useWorkflowRun();
+  // Finished node whose inputs, output and logs are open in the side panel
+  const [runDetailsNodeId, setRunDetailsNodeId] = useState<string | null>(null);
+
+  const handleRun = useCallback(() => {
+    setRunDetailsNodeId(null);
+    startRun(graph);
+  }, [graph, startRun]);
+
+  const [selectedNodeIds, setSelectedNodeIds] = useState<Set<string>>(() => new Set());
+  // A wire is selected on its own; selecting any node deselects it
+  const [selectedConnectionId, setSelectedConnectionId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (selectedNodeIds.size > 0) setSelectedConnectionId(null);
+  }, [selectedNodeIds]);
+  // Read out by screen readers through the live region
+  const [announcement, setAnnouncement] = useState('');
+  const instructionsId = useId();
+
+  // Title and config before the inspector edit in progress, so a run of
+  // keystrokes in one field becomes a single undo step when the field is left
+  const editOriginRef = useRef<{ nodeId: string; before: NodeEdit } | null>(null);
+
+  const handleNodeEdit = useCallback((nodeId: string, edit: NodeEdit, commit: boolean) => {
+    const node = nodes.find(n => n.id === nodeId);
+    if (!node) return;
+    const pending = editOriginRef.current?.nodeId === nodeId ? editOriginRef.current.before : null;
+    const before = pending ?? { title: node.title, config: node.config };
+
+    if (!commit) {
+      editOriginRef.current = { nodeId, before };
+      preview(updateNodeCommand(nodeId, before, edit).apply);
+      return;
     }
-    
-    return baseHeight;
+
+    editOriginRef.current = null;
+    if (before.title === edit.title && before.config === edit.config) return;
+    const command = updateNodeCommand(nodeId, before, edit);
+    preview(command.apply);
+    record(command);
+  }, [nodes, preview, record]);
+  // Rubber-band selection rectangle, in world coordinates
+  const [marquee, setMarquee] = useState<{ startX: number; startY: number; currentX: number; currentY: number } | null>(null);
+
+  const deleteConnection = useCallback((connection: ConnectionData) => {
+    execute(disconnectCommand(getStoredConnection(connection)));
+    setSelectedConnectionId(null);
+    const fromNode = nodes.find(n => n.id === connection.fromNodeId);
+    const toNode = nodes.find(n => n.id === connection.toNodeId);
+    if (fromNode && toNode) {
+      const index = toNode.inputs.findIndex(input => input.id === connection.toInputId);
+      setAnnouncement(`Disconnected ${describeOutput(fromNode, connection.fromOutputId)} from ${describeInput(toNode, index)}`);
+    }
+  }, [nodes, execute, getStoredConnection]);
+
+  const deleteSelection = useCallback(() => {
+    const selectedConnection = connections.find(conn => conn.id === selectedConnectionId);
+    if (selectedConnection) {
+      deleteConnection(selectedConnection);
+      return;
+    }
+
+    // Deleting a collapsed subflow deletes everything in it
+    const ids = expandSubflowIds(graph, nodes.filter(node => selectedNodeIds.has(node.id)).map(node => node.id));
+    if (ids.length === 0) return;
+    execute(removeNodesCommand(graph, ids));
+    setSelectedNodeIds(new Set());
+    setAnnouncement(ids.length === 1 ? 'Deleted 1 node' : `Deleted ${ids.length} nodes`);
+  }, [graph, nodes, connections, selectedNodeIds, selectedConnectionId, execute, deleteConnection]);
+
+  // Nodes gliding to the positions arranging or aligning gave them. The whole
+  // glide is one undo step, recorded when it ends; `finish` jumps straight to the end.
+  const arrangeAnimationRef = useRef<{ frame: number; finish: () => void } | null>(null);
+
+  useEffect(() => () => {
+    const animation = arrangeAnimationRef.current;
+    if (animation) cancelAnimationFrame(animation.frame);
+  }, []);
+
+  // Glides nodes to `targets` as one undo step and returns how many moved
+  const moveNodesAnimated = useCallback((label: string, targets: Map<string, { x: number; y: number }>) => {
+    arrangeAnimationRef.current?.finish();
+    const origins = new Map<string, { x: number; y: number }>();
+    nodes.forEach(node => {
+      const target = targets.get(node.id);
+      if (!target) return;
+      if (target.x === node.x && target.y === node.y) targets.delete(node.id);
+      else origins.set(node.id, { x: node.x, y: node.y });
+    });
+    if (origins.size === 0) return 0;
+
+    const command = moveNodesCommand(label, origins, targets);
+    if (window.matchMedia('(prefers-reduced-motion: reduce)').matches) {
+      execute(command);
+      return origins.size;
+    }
+
+    const startTime = performance.now();
+    const finish = () => {
+      cancelAnimationFrame(animation.frame);
+      arrangeAnimationRef.current = null;
+      preview(command.apply);
+      record(command);
+    };
+    const step = (time: number) => {
+      const progress = Math.min(1, (time - startTime) / ARRANGE_DURATION_MS);
+      if (progress === 1) {
+        finish();
+        return;
+      }
+      const eased = 1 - (1 - progress) ** 3;
+      const positions = new Map<string, { x: number; y: number }>();
+      origins.forEach((from, id) => {
+        const to = targets.get(id);
+        if (to) positions.set(id, { x: from.x + (to.x - from.x) * eased, y: from.y + (to.y - from.y) * eased });
+      });
+      preview(current => placeNodes(current, positions));
+      animation.frame = requestAnimationFrame(step);
+    };
+    const animation = { frame: requestAnimationFrame(step), finish };
+    arrangeAnimationRef.current = animation;
+    return origins.size;
+  }, [nodes, execute, preview, record]);
+
+  const countNodes = (count: number) => (count === 1 ? '1 node' : `${count} nodes`);
+
+  // Lays out the given nodes (all of them by default) with `layoutGraph`
+  const arrangeNodes = (nodeIds?: ReadonlySet<string>) => {
+    const moved = moveNodesAnimated(nodeIds ? 'Arrange selection' : 'Auto-arrange', layoutGraph(view, nodeIds));
+    setAnnouncement(moved === 0 ? 'Already arranged' : `Arranged ${countNodes(moved)}`);
   };
 
-  const getInputPosition = (node: NodeData, inputIndex: number) => {
-    const inputHeight = 12;
-    const spacing = 8;
-    
-    // Keep existing inputs in their original positions when ADD appears
-    const originalInputCount = node.inputs.length;
-    
-    let relativeTop;
-    if (inputIndex >= originalInputCount) {
-      // This is the ADD input - position it after existing inputs
-      if (originalInputCount === 0) {
-        // First input (becoming ADD): center it in expanded node
-        const expandedHeight = getNodeHeight(node);
-        relativeTop = expandedHeight / 2 - inputHeight / 2;
-      } else {
-        // Position ADD input after existing inputs based on their original positions
-        const originalHeight = calculateNodeHeight(originalInputCount);
-        const originalGroupHeight = (originalInputCount * inputHeight) + ((originalInputCount - 1) * spacing);
-        const originalGroupStartY = originalInputCount === 1 
-          ? originalHeight / 2 - inputHeight / 2  // Single input was centered in original height
-          : (originalHeight - originalGroupHeight) / 2;  // Multiple inputs were centered in original height
-        
-        relativeTop = originalGroupStartY + originalInputCount * (inputHeight + spacing);
+  const getSelectedBoxes = () => nodes
+    .filter(node => selectedNodeIds.has(node.id))
+    .map(node => ({ id: node.id, bounds: getNodeBounds(node, getRestingShape(node)) }));
+
+  const alignSelection = (edge: AlignEdge, label: string) => {
+    const moved = moveNodesAnimated(label, alignBoxes(getSelectedBoxes(), edge));
+    setAnnouncement(moved === 0 ? 'Already aligned' : `Aligned ${countNodes(moved)}`);
+  };
+
+  const distributeSelection = (axis: 'horizontal' | 'vertical', label: string) => {
+    const moved = moveNodesAnimated(label, distributeBoxes(getSelectedBoxes(), axis));
+    setAnnouncement(moved === 0 ? 'Already evenly spaced' : `Spaced out ${countNodes(moved)}`);
+  };
+
+  // Last known mouse position over the canvas (world coordinates), used as the paste target
+  const lastPointerRef = useRef<{ x: number; y: number } | null>(null);
+
+  const insertSubgraph = useCallback((subgraph: WorkflowGraph, topLeft: { x: number; y: number }) => {
+    const instance = instantiateSubgraph(subgraph, topLeft);
+    const ids = instance.nodes.map(node => node.id);
+    execute(addToLevel(addSubgraphCommand(instance), ids));
+    setSelectedNodeIds(new Set(ids));
+  }, [execute, addToLevel]);
+
+  // Copies of collapsed subflows come out flattened, as the nodes inside them
+  const duplicateSelection = useCallback(() => {
+    const subgraph = extractSubgraph(graph, expandSubflowIds(graph, selectedNodeIds));
+    if (subgraph.nodes.length === 0) return;
+    insertSubgraph(subgraph, {
+      x: Math.min(...subgraph.nodes.map(node => node.x)) + PASTE_OFFSET,
+      y: Math.min(...subgraph.nodes.map(node => node.y)) + PASTE_OFFSET
+    });
+  }, [graph, selectedNodeIds, insertSubgraph]);
+
+  // Copy/cut/paste go through the native clipboard events, which give direct
+  // access to the system clipboard without a permission prompt.
+  useEffect(() => {
+    const handleCopy = (event: ClipboardEvent, isCut: boolean) => {
+      if (isEditableTarget(event.target) || !event.clipboardData) return;
+      const subgraph = extractSubgraph(graph, expandSubflowIds(graph, selectedNodeIds));
+      if (subgraph.nodes.length === 0) return;
+
+      event.preventDefault();
+      event.clipboardData.setData('text/plain', serializeClipboard(subgraph));
+      if (isCut) deleteSelection();
+    };
+
+    const handlePaste = (event: ClipboardEvent) => {
+      if (isEditableTarget(event.target)) return;
+      const subgraph = parseClipboard(event.clipboardData?.getData('text/plain') ?? '');
+      if (!subgraph) return;
+
+      event.preventDefault();
+      insertSubgraph(subgraph, lastPointerRef.current ?? {
+        x: Math.min(...subgraph.nodes.map(node => node.x)) + PASTE_OFFSET,
+        y: Math.min(...subgraph.nodes.map(node => node.y)) + PASTE_OFFSET
+      });
+    };
+
+    const onCopy = (event: ClipboardEvent) => handleCopy(event, false);
+    const onCut = (event: ClipboardEvent) => handleCopy(event, true);
+    document.addEventListener('copy', onCopy);
+    document.addEventListener('cut', onCut);
+    document.addEventListener('paste', handlePaste);
+    return () => {
+      document.removeEventListener('copy', onCopy);
+      document.removeEventListener('cut', onCut);
+      document.removeEventListener('paste', handlePaste);
+    };
+  }, [graph, selectedNodeIds, deleteSelection, insertSubgraph]);
+
+  // Where each dragged node was when the drag started, so the whole drag is one
+  // undo step. Holds every node of the selection being moved together.
+  const nodeDragOriginRef = useRef(new Map<string, { x: number; y: number }>());
+  // Set when a long-press opens the context menu on a node mid-press, so the
+  // drag that press started doesn't also end as a click
+  const suppressNodeClickRef = useRef(false);
+  // The disconnect applied when a wire is picked up from an input; it is folded
+  // into the same undo step as whatever happens on drop
+  const pendingDisconnectRef = useRef<PendingDisconnect | null>(null);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isEditableTarget(event.target)) return;
+
+      if (event.code === 'Space') {
+        // Hold space to pan; keep the page from scrolling
+        event.preventDefault();
+        setIsSpacePressed(true);
+        return;
       }
-    } else {
-      // This is an existing input - keep it in original position based on original height
-      const originalHeight = calculateNodeHeight(originalInputCount);
-      
-      if (originalInputCount === 1) {
-        // Single input: center vertically in the original node height
-        relativeTop = originalHeight / 2 - inputHeight / 2;
-      } else {
-        // Multiple inputs: center the original group vertically in the original node height
-        const originalGroupHeight = (originalInputCount * inputHeight) + ((originalInputCount - 1) * spacing);
-        const originalGroupStartY = (originalHeight - originalGroupHeight) / 2;
-        
-        relativeTop = originalGroupStartY + inputIndex * (inputHeight + spacing);
+      if (event.key === 'Delete' || event.key === 'Backspace') {
+        event.preventDefault();
+        deleteSelection();
+        return;
+      }
+      if (event.key === 'Escape') {
+        setSelectedNodeIds(new Set());
+        setSelectedConnectionId(null);
+        return;
+      }
+      if (!(event.ctrlKey || event.metaKey)) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'a') {
+        event.preventDefault();
+        setSelectedNodeIds(new Set(nodes.map(node => node.id)));
+      } else if (key === 'd') {
+        event.preventDefault();
+        duplicateSelection();
+      } else if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redo();
+      }
+    };
+
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (event.code === 'Space') setIsSpacePressed(false);
+    };
+    const handleBlur = () => setIsSpacePressed(false);
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, [undo, redo, deleteSelection, duplicateSelection, nodes]);
+
+  const [dragState, setDragState] = useState<DragState>(IDLE_DRAG_STATE);
+
+  // Keyboard connecting: the picker lists the possible targets and the active
+  // one is shown through the same drag state a pointer drag uses
+  const [picker, setPicker] = useState<{
+    fromNodeId: string;
+    fromOutputId: string;
+    targets: ConnectionTarget[];
+    activeIndex: number;
+  } | null>(null);
+  // The port that opened the picker, which gets focus back when it closes
+  const pickerOriginRef = useRef<HTMLElement | null>(null);
+
+  const canvasRef = useRef<HTMLDivElement>(null);
+  const [canvasSize, setCanvasSize] = useState<{ width: number; height: number } | null>(null);
+
+  useEffect(() => {
+    const element = canvasRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setCanvasSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  // Node boxes at rest (no ADD preview), for finding nodes near a point or in view
+  const nodeIndex = useSpatialIndex(nodes, node => getNodeBounds(node, getRestingShape(node)));
+  // Position of each node in the list, so index lookups keep the list's order
+  const nodeOrder = useMemo(() => new Map(nodes.map((node, index) => [node.id, index])), [nodes]);
+
+  // Part of the world in view (plus a margin), or null when everything is drawn
+  const shouldCull = nodes.length >= CULLING_MIN_NODES;
+  const visibleArea = useMemo((): Bounds | null => canvasSize && shouldCull
+    ? {
+        minX: -viewport.x / viewport.zoom - CULLING_MARGIN,
+        minY: -viewport.y / viewport.zoom - CULLING_MARGIN,
+        maxX: (canvasSize.width - viewport.x) / viewport.zoom + CULLING_MARGIN,
+        maxY: (canvasSize.height - viewport.y) / viewport.zoom + CULLING_MARGIN
       }
+    : null, [canvasSize, shouldCull, viewport]);
+
+  // Mouse position in world coordinates (what node.x/node.y and dragState use)
+  const getCanvasPoint = useCallback((event: { clientX: number; clientY: number }) => {
+    const rect = canvasRef.current?.getBoundingClientRect();
+    if (!rect) return null;
+    return screenToWorld({ x: event.clientX - rect.left, y: event.clientY - rect.top });
+  }, [screenToWorld]);
+
+  // Wheel and trackpad pinch (reported as ctrl+wheel) zoom around the cursor.
+  // Registered natively because React's wheel listener is passive.
+  useEffect(() => {
+    const element = canvasRef.current;
+    if (!element) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = element.getBoundingClientRect();
+      const sensitivity = event.ctrlKey ? 0.01 : 0.0015;
+      zoomAt(
+        { x: event.clientX - rect.left, y: event.clientY - rect.top },
+        Math.exp(-event.deltaY * sensitivity)
+      );
+    };
+
+    element.addEventListener('wheel', handleWheel, { passive: false });
+    return () => element.removeEventListener('wheel', handleWheel);
+  }, [zoomAt]);
+
+  // Middle mouse, or left mouse while space is held, pans. Runs in the capture
+  // phase so nodes underneath don't start a drag; preventing the default also
+  // keeps the mousedown react-draggable listens for from firing.
+  const handlePanPointerDown = useCallback((event: React.PointerEvent) => {
+    if (!(event.button === 1 || (event.button === 0 && isSpacePressed))) return;
+    event.preventDefault();
+    event.stopPropagation();
+    setIsPanning(true);
+
+    const { pointerId } = event;
+    let lastX = event.clientX;
+    let lastY = event.clientY;
+    const handleMove = (moveEvent: PointerEvent) => {
+      if (moveEvent.pointerId !== pointerId) return;
+      panBy(moveEvent.clientX - lastX, moveEvent.clientY - lastY);
+      lastX = moveEvent.clientX;
+      lastY = moveEvent.clientY;
+    };
+    const handleUp = (upEvent: PointerEvent) => {
+      if (upEvent.pointerId !== pointerId) return;
+      setIsPanning(false);
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+      window.removeEventListener('pointercancel', handleUp);
+    };
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    window.addEventListener('pointercancel', handleUp);
+  }, [isSpacePressed, panBy]);
+
+  const zoomAroundCenter = (factor: number) => {
+    const rect = canvasRef.current?.getBoundingClientRect();
+    if (rect) zoomAt({ x: rect.width / 2, y: rect.height / 2 }, factor);
+  };
+
+  // Pressing on a node selects it (shift toggles it in the selection) and
+  // starts moving it together with the rest of the selection
+  const handleNodeDragStart = useCallback((id: string, additive: boolean) => {
+    let selection = selectedNodeIds;
+    if (additive) {
+      selection = new Set(selectedNodeIds);
+      if (selection.has(id)) selection.delete(id);
+      else selection.add(id);
+    } else if (!selectedNodeIds.has(id)) {
+      selection = new Set([id]);
     }
-    
-    // Convert to absolute coordinates (matching WorkflowNode's triangle positioning)
-    return {
-      x: node.x - 8,
-      y: node.y + relativeTop + inputHeight / 2  // Add inputHeight/2 to get center of triangle
+    setSelectedNodeIds(selection);
+    suppressNodeClickRef.current = false;
+
+    const group = selection.has(id) ? selection : new Set([id]);
+    nodeDragOriginRef.current = new Map(
+      nodes.filter(node => group.has(node.id)).map(node => [node.id, { x: node.x, y: node.y }])
+    );
+  }, [nodes, selectedNodeIds]);
+
+  // Snap node drags to the grid; lining up with other nodes works either way
+  const [snapToGrid, setSnapToGrid] = useState(false);
+  // Alignment guides shown during a node drag
+  const [guides, setGuides] = useState<Guide[]>([]);
+
+  // How far the dragged selection moves when the pointer has taken the node
+  // `id` to (x, y): into line with a node in view when close enough, otherwise
+  // onto the grid when snapping is on, otherwise to the nearest whole pixel
+  const getDragOffset = useCallback((id: string, x: number, y: number) => {
+    const origins = nodeDragOriginRef.current;
+    const leader = origins.get(id);
+    const node = nodes[nodeOrder.get(id) ?? -1];
+    if (!leader || !node) return null;
+
+    const candidates = visibleArea ? nodeIndex.search(visibleArea) : nodes.map(other => other.id);
+    const others = candidates.flatMap(otherId => {
+      const other = origins.has(otherId) ? undefined : nodes[nodeOrder.get(otherId) ?? -1];
+      return other ? [getAlignmentBox(other, getRestingShape(other))] : [];
+    });
+    const snap = snapToGuides(getAlignmentBox({ x, y }, getRestingShape(node)), others, GUIDE_THRESHOLD / viewport.zoom);
+    const place = (value: number, shift: number | null) => {
+      if (shift !== null) return value + shift;
+      return snapToGrid ? Math.round(value / GRID_SIZE) * GRID_SIZE : Math.round(value);
     };
+    return { dx: place(x, snap.dx) - leader.x, dy: place(y, snap.dy) - leader.y, guides: snap.guides };
+  }, [nodes, nodeOrder, nodeIndex, visibleArea, viewport.zoom, snapToGrid]);
+
+  const updateNodePosition = useCallback((id: string, x: number, y: number) => {
+    const origins = nodeDragOriginRef.current;
+    const offset = getDragOffset(id, x, y);
+    if (!offset) return;
+
+    const { dx, dy } = offset;
+    setGuides(offset.guides);
+    preview(current => placeNodes(current, new Map(
+      Array.from(origins, ([nodeId, origin]) => [nodeId, { x: origin.x + dx, y: origin.y + dy }])
+    )));
+  }, [preview, getDragOffset]);
+
+  const handleNodeDragStop = useCallback((id: string, x: number, y: number) => {
+    const origins = nodeDragOriginRef.current;
+    const offset = getDragOffset(id, x, y);
+    nodeDragOriginRef.current = new Map();
+    setGuides([]);
+
+    const leader = origins.get(id);
+    if (!leader || !offset) return;
+    if (leader.x === x && leader.y === y) {
+      if (suppressNodeClickRef.current) return;
+      // A click rather than a drag: show what the node did in the last run
+      const status = run.nodes[id]?.status;
+      if (status === 'succeeded' || status === 'failed' || status === 'cancelled' || status === 'skipped') setRunDetailsNodeId(id);
+      return;
+    }
+
+    const { dx, dy } = offset;
+    if (dx === 0 && dy === 0) return;
+    const moves = Array.from(origins.entries()).map(([nodeId, origin]) =>
+      moveNodeCommand(nodeId, origin, { x: origin.x + dx, y: origin.y + dy })
+    );
+    const command = moves.length === 1 ? moves[0] : composeCommands('Move nodes', moves);
+    // The last drag tick normally left the nodes here already
+    preview(command.apply);
+    record(command);
+  }, [preview, record, run.nodes, getDragOffset]);
+
+  // Ends the marquee in progress, if any, e.g. when a second finger turns the
+  // gesture into a pinch
+  const stopMarqueeRef = useRef<(() => void) | null>(null);
+
+  // Pressing on empty canvas starts a marquee; nodes it touches become selected
+  // (added to the selection with shift). A plain click clears the selection.
+  const handleCanvasPointerDown = useCallback((event: React.PointerEvent) => {
+    if (event.button !== 0 || !event.isPrimary || (event.target as HTMLElement).closest('[data-node-id]')) return;
+    const start = getCanvasPoint(event);
+    if (!start) return;
+
+    const baseSelection = event.shiftKey ? selectedNodeIds : new Set<string>();
+    const boxes = nodes.map(node => ({ id: node.id, ...getNodeBounds(node, getRestingShape(node)) }));
+
+    setSelectedNodeIds(baseSelection);
+    if (!event.shiftKey) setSelectedConnectionId(null);
+    setMarquee({ startX: start.x, startY: start.y, currentX: start.x, currentY: start.y });
+
+    const { pointerId } = event;
+    const handleMove = (moveEvent: PointerEvent) => {
+      if (moveEvent.pointerId !== pointerId) return;
+      const current = getCanvasPoint(moveEvent);
+      if (!current) return;
+      setMarquee({ startX: start.x, startY: start.y, currentX: current.x, currentY: current.y });
+
+      const minX = Math.min(start.x, current.x);
+      const maxX = Math.max(start.x, current.x);
+      const minY = Math.min(start.y, current.y);
+      const maxY = Math.max(start.y, current.y);
+      const selection = new Set(baseSelection);
+      boxes.forEach(box => {
+        if (box.maxX >= minX && box.minX <= maxX && box.maxY >= minY && box.minY <= maxY) {
+          selection.add(box.id);
+        }
+      });
+      setSelectedNodeIds(selection);
+    };
+    const stop = () => {
+      stopMarqueeRef.current = null;
+      setMarquee(null);
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+      window.removeEventListener('pointercancel', handleUp);
+    };
+    const handleUp = (upEvent: PointerEvent) => {
+      if (upEvent.pointerId === pointerId) stop();
+    };
+    stopMarqueeRef.current = stop;
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    window.addEventListener('pointercancel', handleUp);
+  }, [nodes, selectedNodeIds, getCanvasPoint]);
+
+  // A node's ports as currently shown, including the ADD input previewed while
+  // a wire hovers a node whose inputs are all taken
+  const getNodeShape = useCallback((node: NodeData): NodeShape => ({
+    ...getRestingShape(node),
+    addInputPreview: dragState.isDragging &&
+      dragState.hoveredNodeId === node.id &&
+      dragState.canCreateNewInput &&
+      node.inputs.every(input => input.connected)
+  }), [dragState.isDragging, dragState.hoveredNodeId, dragState.canCreateNewInput]);
+
+  const getInputPosition = (node: NodeData, inputIndex: number) =>
+    getInputAnchor(node, getNodeShape(node), inputIndex);
+
+  // Unknown output ids fall back to the first output
+  const getOutputPosition = (node: NodeData, outputId: string) => {
+    const outputIndex = Math.max(0, getNodeOutputs(node).findIndex(output => output.id === outputId));
+    return getOutputAnchor(node, getNodeShape(node), outputIndex);
   };
 
-  const handleStartConnection = useCallback((nodeId: string, event: React.MouseEvent) => {
+  // Pointer type of the wire being dragged, which sets how big the drop zones are
+  const dragPointerTypeRef = useRef('mouse');
+
+  // Keeps the rest of a wire drag coming to the canvas, wherever the pointer
+  // goes and even if the port it started on re-renders away
+  const captureWireDrag = useCallback((event: React.PointerEvent) => {
+    dragPointerTypeRef.current = event.pointerType;
+    canvasRef.current?.setPointerCapture(event.pointerId);
+  }, []);
+
+  const handleStartConnection = useCallback((nodeId: string, outputId: string, event: React.PointerEvent) => {
     event.stopPropagation();
-    const rect = canvasRef.current?.getBoundingClientRect();
-    if (rect) {
+    const point = getCanvasPoint(event);
+    if (point) {
+      captureWireDrag(event);
       setDragState({
         isDragging: true,
         fromNodeId: nodeId,
-        currentX: event.clientX - rect.left,
-        currentY: event.clientY - rect.top,
+        fromOutputId: outputId,
+        currentX: point.x,
+        currentY: point.y,
         hoveredNodeId: null,
         hoveredInputId: null,
         isInTapZone: false,
         isDisconnecting: false,
         disconnectedConnectionId: null,
-        canCreateNewInput: false
+        canCreateNewInput: false,
+        connectionCheck: null
       });
     }
-  }, []);
+  }, [getCanvasPoint, captureWireDrag]);
 
-  const handleStartDisconnection = useCallback((nodeId: string, inputId: string, event: React.MouseEvent) => {
+  const handleStartDisconnection = useCallback((nodeId: string, inputId: string, event: React.PointerEvent) => {
     event.stopPropagation();
-    const rect = canvasRef.current?.getBoundingClientRect();
-    if (rect) {
+    const point = getCanvasPoint(event);
+    if (point) {
       // Find the connection that ends at this specific input
       const connectionToRemove = connections.find(conn => conn.toNodeId === nodeId && conn.toInputId === inputId);
       
       if (connectionToRemove) {
-        // Mark the input as disconnected
-        setNodes(prev => prev.map(node => 
-          node.id === nodeId 
-            ? {
-                ...node,
-                inputs: node.inputs.map(input => 
-                  input.id === inputId ? { ...input, connected: false } : input
-                )
-              }
-            : node
-        ));
-        
-        // Remove the connection immediately
-        setConnections(prev => prev.filter(conn => conn.id !== connectionToRemove.id));
+        captureWireDrag(event);
+        // Remove the connection immediately; it becomes an undo step when the drag ends
+        const disconnect = disconnectCommand(getStoredConnection(connectionToRemove));
+        pendingDisconnectRef.current = { connection: connectionToRemove, command: disconnect };
+        preview(disconnect.apply);
         
         // Start dragging from the original source node
         setDragState({
           isDragging: true,
           fromNodeId: connectionToRemove.fromNodeId,
-          currentX: event.clientX - rect.left,
-          currentY: event.clientY - rect.top,
+          fromOutputId: connectionToRemove.fromOutputId,
+          currentX: point.x,
+          currentY: point.y,
           hoveredNodeId: null,
           hoveredInputId: null,
           isInTapZone: false,
           isDisconnecting: true,
           disconnectedConnectionId: connectionToRemove.id,
-          canCreateNewInput: false
+          canCreateNewInput: false,
+          connectionCheck: null
         });
       }
     }
-  }, [connections]);
+  }, [connections, preview, getCanvasPoint, captureWireDrag, getStoredConnection]);
 
   const handleRemoveInput = useCallback((nodeId: string, inputId: string) => {
-    setNodes(prev => prev.map(node => 
-      node.id === nodeId 
-        ? {
-            ...node,
-            inputs: node.inputs.filter(input => input.id !== inputId)
-          }
-        : node
-    ));
-    
-    // Remove any connections to this input
-    setConnections(prev => prev.filter(conn => !(conn.toNodeId === nodeId && conn.toInputId === inputId)));
+    const node = nodes.find(n => n.id === nodeId);
+    const index = node ? node.inputs.findIndex(input => input.id === inputId) : -1;
+    if (!node || index === -1) return;
+
+    // Also removes any connection to this input
+    const connection = connections.find(conn => conn.toNodeId === nodeId && conn.toInputId === inputId);
+    execute(removeInputCommand(nodeId, node.inputs[index], index, connection && getStoredConnection(connection)));
+  }, [nodes, connections, execute, getStoredConnection]);
+
+  // Node types dragged in from the palette
+  const handleDragOver = useCallback((event: React.DragEvent) => {
+    if (!event.dataTransfer.types.includes(NODE_TYPE_DRAG_MIME)) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'copy';
   }, []);
 
+  const handleDrop = useCallback((event: React.DragEvent) => {
+    const definition = getNodeType(event.dataTransfer.getData(NODE_TYPE_DRAG_MIME));
+    const point = getCanvasPoint(event);
+    if (!definition || !point) return;
+    event.preventDefault();
 
+    // Centre the node's button on the drop point
+    const node = createNodeFromType(definition, createId('node'), {
+      x: point.x - DEFAULT_NODE_THEME.nodeWidth / 2,
+      y: point.y - getNodeHeight(getTypeShape(definition)) / 2
+    });
+    execute(addToLevel(addNodeCommand(node), [node.id]));
+  }, [execute, addToLevel, getCanvasPoint]);
 
-  const isPointInNodeTapZone = useCallback((mouseX: number, mouseY: number, node: NodeData) => {
-    // Use centralized height calculation
-    const nodeHeight = getNodeHeight(node);
-    
-    const horizontalZoneWidth = 120; // Extended horizontal zone
-    const verticalZoneHeight = 16; // Thin vertical zone
-    
-    return (
-      mouseX >= node.x - horizontalZoneWidth &&
-      mouseX <= node.x + 48 + horizontalZoneWidth &&
-      mouseY >= node.y - verticalZoneHeight / 2 &&
-      mouseY <= node.y + nodeHeight + verticalZoneHeight / 2
-    );
-  }, [dragState]);
 
-  const isPointInInputZone = useCallback((mouseX: number, mouseY: number, node: NodeData, inputIndex: number) => {
-    const inputPos = getInputPosition(node, inputIndex);
-    const horizontalZoneWidth = 120; // Extended horizontal zone for easier targeting
-    const verticalZoneHeight = 16; // Thin vertical zone around input
-    
-    return (
-      mouseX >= node.x - horizontalZoneWidth &&
-      mouseX <= node.x + 48 + horizontalZoneWidth &&
-      mouseY >= inputPos.y - verticalZoneHeight / 2 &&
-      mouseY <= inputPos.y + verticalZoneHeight / 2
-    );
-  }, [dragState]);
+
+  const isCoarseDrag = () => dragPointerTypeRef.current !== 'mouse';
+
+  const isPointInNodeTapZone = useCallback((mouseX: number, mouseY: number, node: NodeData) =>
+    containsPoint(getNodeDropZone(node, getNodeShape(node), isCoarseDrag()), { x: mouseX, y: mouseY }), [getNodeShape]);
+
+  // Vertical distance from the input's centre when the point is in its drop
+  // zone, otherwise null. Coarse zones overlap, so the nearest input wins.
+  const getInputZoneDistance = useCallback((mouseX: number, mouseY: number, node: NodeData, inputIndex: number) => {
+    const shape = getNodeShape(node);
+    const zone = getInputDropZone(node, shape, inputIndex, isCoarseDrag());
+    if (!containsPoint(zone, { x: mouseX, y: mouseY })) return null;
+    return Math.abs(mouseY - getInputAnchor(node, shape, inputIndex).y);
+  }, [getNodeShape]);
 
 
 
-  const handleMouseMove = useCallback((event: React.MouseEvent) => {
-    if (dragState.isDragging) {
-      const rect = canvasRef.current?.getBoundingClientRect();
-      if (rect) {
-        const mouseX = event.clientX - rect.left;
-        const mouseY = event.clientY - rect.top;
+  const handlePointerMove = useCallback((event: React.PointerEvent) => {
+    lastPointerRef.current = getCanvasPoint(event);
+    updatePresence({ cursor: lastPointerRef.current });
+
+    // While the picker is open the keyboard decides where the wire goes
+    if (dragState.isDragging && !picker) {
+      const point = getCanvasPoint(event);
+      if (point) {
+        const { x: mouseX, y: mouseY } = point;
         
         // Check which input is being hovered
-        let hoveredNodeId = null;
-        let hoveredInputId = null;
+        let hoveredNodeId: string | null = null;
+        let hoveredInputId: string | null = null;
         let isInTapZone = false;
         let canCreateNewInput = false;
+
+        const fromNode = nodes.find(n => n.id === dragState.fromNodeId);
+        const outputType = fromNode && dragState.fromOutputId ? getNodeOutputType(fromNode, dragState.fromOutputId) : null;
+
+        // Only nodes whose drop zones can reach the pointer, in list order
+        const reachX = DEFAULT_NODE_THEME.dropZoneWidth;
+        const reachY = DEFAULT_NODE_THEME.coarseDropZoneHeight / 2 + getAddInputGrowth();
+        const candidates = nodeIndex
+          .search({ minX: mouseX - reachX, minY: mouseY - reachY, maxX: mouseX + reachX, maxY: mouseY + reachY })
+          .sort((a, b) => (nodeOrder.get(a) ?? 0) - (nodeOrder.get(b) ?? 0))
+          .flatMap(id => nodes[nodeOrder.get(id) ?? -1] ?? []);
         
-        for (const node of nodes) {
+        for (const node of candidates) {
+          // Inputs that can't take the dragged type are not drop targets at all
+          if (outputType && !isPortTypeCompatible(outputType, getNodeInputType(node))) continue;
+
           if (node.id !== dragState.fromNodeId) {
             // First check for available inputs
-            for (let i = 0; i < node.inputs.length; i++) {
-              const input = node.inputs[i];
-              if (!input.connected && isPointInInputZone(mouseX, mouseY, node, i)) {
+            let nearestDistance = Infinity;
+            node.inputs.forEach((input, i) => {
+              const distance = input.connected ? null : getInputZoneDistance(mouseX, mouseY, node, i);
+              if (distance !== null && distance < nearestDistance) {
+                nearestDistance = distance;
                 hoveredNodeId = node.id;
                 hoveredInputId = input.id;
                 isInTapZone = true;
-                break;
               }
-            }
+            });
             
             // If no available input found, check if we can create a new one
             if (!isInTapZone && isPointInNodeTapZone(mouseX, mouseY, node)) {
@@ -334,6 +1070,20 @@ const Canvas: React.FC = () => {
             if (isInTapZone) break;
           }
         }
+
+        const source = dragState.fromNodeId && dragState.fromOutputId
+          ? resolveOutput(view, dragState.fromNodeId, dragState.fromOutputId)
+          : null;
+        const connectionCheck = hoveredNodeId && source
+          ? canConnect(graph, source.nodeId, source.outputId, hoveredNodeId)
+          : null;
+        if (connectionCheck && !connectionCheck.ok) {
+          // Not a drop target: no highlight, and releasing here connects nothing
+          hoveredNodeId = null;
+          hoveredInputId = null;
+          isInTapZone = false;
+          canCreateNewInput = false;
+        }
         
         setDragState(prev => ({
           ...prev,
@@ -342,125 +1092,705 @@ const Canvas: React.FC = () => {
           hoveredNodeId,
           hoveredInputId,
           isInTapZone,
-          canCreateNewInput
+          canCreateNewInput,
+          connectionCheck
         }));
       }
     }
-  }, [dragState.isDragging, dragState.fromNodeId, nodes, isPointInInputZone, isPointInNodeTapZone]);
+  }, [dragState.isDragging, dragState.fromNodeId, dragState.fromOutputId, picker, nodes, nodeIndex, nodeOrder, graph, view, getInputZoneDistance, isPointInNodeTapZone, getCanvasPoint, updatePresence]);
+
+  // Puts down the wire being dragged (or picked with the keyboard) on
+  // `target`, or nowhere, and announces what changed
+  const finishConnection = useCallback((
+    fromNodeId: string | null,
+    fromOutputId: string | null,
+    target: Omit<ConnectionTarget, 'check'> | null
+  ) => {
+    let connect: GraphCommand | null = null;
+    let message = '';
+
+    const fromNode = fromNodeId ? nodes.find(n => n.id === fromNodeId) : undefined;
+    const toNode = target ? nodes.find(n => n.id === target.toNodeId) : undefined;
+    const disconnect = pendingDisconnectRef.current;
+    pendingDisconnectRef.current = null;
+
+    if (fromNode && fromOutputId && target && toNode) {
+      // A wire that is moved keeps its label
+      const label = disconnect?.connection.label;
+      // Wires from a collapsed subflow start at the node inside it
+      const source = resolveOutput(view, fromNode.id, fromOutputId);
+      const connection: ConnectionData = {
+        id: createId('conn'),
+        fromNodeId: source.nodeId,
+        fromOutputId: source.outputId,
+        toNodeId: toNode.id,
+        toInputId: target.toInputId ?? createId('input'),
+        ...(label !== undefined && { label })
+      };
+      // A new input slides the existing one into its new slot when it becomes the second
+      connect = target.toInputId ? connectCommand(connection) : connectToNewInputCommand(connection);
+      message = `Connected ${describeOutput(fromNode, fromOutputId)} to ${describeInput(toNode, target.inputIndex)}`;
+    }
+
+    if (disconnect && connect) {
+      // Picking a wire up and dropping it elsewhere is a single undo step
+      preview(connect.apply);
+      record(composeCommands('Reconnect', [disconnect.command, connect]));
+    } else if (disconnect) {
+      record(disconnect.command);
+      const { fromNodeId: sourceId, fromOutputId: sourceOutputId, toNodeId, toInputId } = disconnect.connection;
+      const source = nodes.find(n => n.id === sourceId);
+      const previousTarget = nodes.find(n => n.id === toNodeId);
+      if (source && previousTarget) {
+        const index = previousTarget.inputs.findIndex(input => input.id === toInputId);
+        message = `Disconnected ${describeOutput(source, sourceOutputId)} from ${describeInput(previousTarget, index)}`;
+      }
+    } else if (connect) {
+      execute(connect);
+    }
+
+    if (message) setAnnouncement(message);
+    setDragState(IDLE_DRAG_STATE);
+  }, [nodes, view, execute, preview, record]);
 
   const handleEndConnection = useCallback(() => {
-    if (dragState.isDragging && dragState.fromNodeId && dragState.hoveredNodeId && dragState.isInTapZone) {
-      if (dragState.canCreateNewInput) {
-        // Create new input and connect to it
-        const newInputId = `input-${Date.now()}`;
-        const targetNode = nodes.find(n => n.id === dragState.hoveredNodeId);
-        
-        // Special handling for when this will be the second input (transition from 1 to 2)
-        if (targetNode && targetNode.inputs.length === 1) {
-          // First, update the node to have 2 inputs to trigger repositioning animation
-          setNodes(prev => prev.map(node => 
-            node.id === dragState.hoveredNodeId 
-              ? {
-                  ...node,
-                  inputs: [...node.inputs, { id: newInputId, connected: true }]
-                }
-              : node
-          ));
-          
-          // Create connection to new input
-          const newConnection: ConnectionData = {
-            id: `conn_${Date.now()}`,
-            fromNodeId: dragState.fromNodeId,
-            toNodeId: dragState.hoveredNodeId,
-            toInputId: newInputId
-          };
-          
-          setConnections(prev => [...prev, newConnection]);
-        } else {
-          // Standard behavior for nodes with multiple inputs already
-          setNodes(prev => prev.map(node => 
-            node.id === dragState.hoveredNodeId 
-              ? {
-                  ...node,
-                  inputs: [...node.inputs, { id: newInputId, connected: true }]
-                }
-              : node
-          ));
-          
-          // Create connection to new input
-          const newConnection: ConnectionData = {
-            id: `conn_${Date.now()}`,
-            fromNodeId: dragState.fromNodeId,
-            toNodeId: dragState.hoveredNodeId,
-            toInputId: newInputId
-          };
-          
-          setConnections(prev => [...prev, newConnection]);
-        }
-      } else if (dragState.hoveredInputId) {
-        // Connect to existing input
-        const newConnection: ConnectionData = {
-          id: `conn_${Date.now()}`,
-          fromNodeId: dragState.fromNodeId,
-          toNodeId: dragState.hoveredNodeId,
-          toInputId: dragState.hoveredInputId
-        };
-        
-        setConnections(prev => [...prev, newConnection]);
-        
-        // Mark the input as connected
-        setNodes(prev => prev.map(node => 
-          node.id === dragState.hoveredNodeId 
-            ? {
-                ...node,
-                inputs: node.inputs.map(input => 
-                  input.id === dragState.hoveredInputId ? { ...input, connected: true } : input
-                )
-              }
-            : node
-        ));
+    const { isDragging, fromNodeId, fromOutputId, hoveredNodeId, hoveredInputId, isInTapZone, canCreateNewInput } = dragState;
+    const hoveredNode = hoveredNodeId ? nodes.find(n => n.id === hoveredNodeId) : undefined;
+    let target: Omit<ConnectionTarget, 'check'> | null = null;
+
+    if (isDragging && hoveredNode && isInTapZone) {
+      if (canCreateNewInput) {
+        target = { toNodeId: hoveredNode.id, toInputId: null, inputIndex: hoveredNode.inputs.length };
+      } else if (hoveredInputId) {
+        const inputIndex = hoveredNode.inputs.findIndex(input => input.id === hoveredInputId);
+        target = { toNodeId: hoveredNode.id, toInputId: hoveredInputId, inputIndex };
       }
     }
-    
+
+    finishConnection(fromNodeId, fromOutputId, target);
+  }, [dragState, nodes, finishConnection]);
+
+  const showPickerTarget = (
+    graphForTargets: WorkflowGraph,
+    fromNodeId: string,
+    fromOutputId: string,
+    target: ConnectionTarget,
+    disconnectedConnectionId: string | null
+  ) => {
+    const toNode = graphForTargets.nodes.find(n => n.id === target.toNodeId);
+    if (!toNode) return;
+    const end = getInputPosition(toNode, target.inputIndex);
     setDragState({
-      isDragging: false,
-      fromNodeId: null,
-      currentX: 0,
-      currentY: 0,
-      hoveredNodeId: null,
-      hoveredInputId: null,
-      isInTapZone: false,
-      isDisconnecting: false,
-      disconnectedConnectionId: null,
-      canCreateNewInput: false
+      isDragging: true,
+      fromNodeId,
+      fromOutputId,
+      currentX: end.x,
+      currentY: end.y,
+      hoveredNodeId: target.toNodeId,
+      hoveredInputId: target.toInputId,
+      isInTapZone: true,
+      isDisconnecting: disconnectedConnectionId !== null,
+      disconnectedConnectionId,
+      canCreateNewInput: target.toInputId === null,
+      connectionCheck: target.check
     });
-  }, [dragState, nodes]);
+  };
+
+  const openPicker = (fromNodeId: string, fromOutputId: string, pending: PendingDisconnect | null) => {
+    const base = pending ? pending.command.apply(graph) : graph;
+    const fromNode = getNodeById(fromNodeId);
+    if (!fromNode) return;
+    // The nodes in view, as they are once a lifted wire is gone
+    const candidates = base.nodes.filter(node => nodesById.has(node.id));
+    const targets = findConnectionTargets(base, candidates, resolveOutput(view, fromNodeId, fromOutputId));
+    if (targets.length === 0) {
+      setAnnouncement(`Nothing can be connected to ${describeOutput(fromNode, fromOutputId)}`);
+      return;
+    }
 
-  const handleCanvasMouseUp = useCallback((event: React.MouseEvent) => {
+    if (pending) {
+      pendingDisconnectRef.current = pending;
+      preview(pending.command.apply);
+    }
+    pickerOriginRef.current = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    // A lifted wire starts out pointing back where it came from
+    const activeIndex = pending
+      ? Math.max(0, targets.findIndex(target => target.toInputId === pending.connection.toInputId))
+      : 0;
+    setPicker({ fromNodeId, fromOutputId, targets, activeIndex });
+    showPickerTarget(base, fromNodeId, fromOutputId, targets[activeIndex], pending?.connection.id ?? null);
+  };
+
+  const closePicker = useCallback(() => {
+    setPicker(null);
+    pickerOriginRef.current?.focus();
+    pickerOriginRef.current = null;
+  }, []);
+
+  const handlePickerActiveChange = (index: number) => {
+    if (!picker) return;
+    setPicker({ ...picker, activeIndex: index });
+    showPickerTarget(graph, picker.fromNodeId, picker.fromOutputId, picker.targets[index], dragState.disconnectedConnectionId);
+  };
+
+  const handlePickerPick = (index: number) => {
+    if (!picker) return;
+    finishConnection(picker.fromNodeId, picker.fromOutputId, picker.targets[index]);
+    closePicker();
+  };
+
+  // Unlike dropping a wire on empty canvas, cancelling puts a lifted wire back
+  const cancelConnection = useCallback(() => {
+    const pending = pendingDisconnectRef.current;
+    pendingDisconnectRef.current = null;
+    if (pending) discard();
+    setDragState(IDLE_DRAG_STATE);
+  }, [discard]);
+
+  const cancelPicker = useCallback(() => {
+    cancelConnection();
+    closePicker();
+  }, [cancelConnection, closePicker]);
+
+  // Picks up the wire plugged into an input and lets the picker place it
+  const handleReconnectInput = (nodeId: string, inputId: string) => {
+    const connection = connections.find(conn => conn.toNodeId === nodeId && conn.toInputId === inputId);
+    if (!connection) return;
+    openPicker(connection.fromNodeId, connection.fromOutputId, {
+      connection,
+      command: disconnectCommand(getStoredConnection(connection))
+    });
+  };
+
+  const handleDisconnectInput = useCallback((nodeId: string, inputId: string) => {
+    const connection = connections.find(conn => conn.toNodeId === nodeId && conn.toInputId === inputId);
+    if (!connection) return;
+    // Same as lifting the wire and dropping it on empty canvas
+    pendingDisconnectRef.current = { connection, command: disconnectCommand(getStoredConnection(connection)) };
+    preview(pendingDisconnectRef.current.command.apply);
+    finishConnection(null, null, null);
+  }, [connections, preview, finishConnection, getStoredConnection]);
+
+  // Tabbing onto a node selects it, so the node shortcuts and inspector follow focus
+  const handleFocusNode = useCallback((id: string) => {
+    if (!selectedNodeIds.has(id)) setSelectedNodeIds(new Set([id]));
+  }, [selectedNodeIds]);
+
+  // Moves the node, along with the rest of the selection if it is part of it
+  const handleNudge = useCallback((id: string, dx: number, dy: number, large: boolean) => {
+    const step = large ? GRID_SIZE : NUDGE_STEP;
+    const group = selectedNodeIds.has(id) ? selectedNodeIds : new Set([id]);
+    const moves = nodes
+      .filter(node => group.has(node.id))
+      .map(node => moveNodeCommand(node.id, { x: node.x, y: node.y }, { x: node.x + dx * step, y: node.y + dy * step }));
+    if (moves.length === 0) return;
+    execute(moves.length === 1 ? moves[0] : composeCommands('Move nodes', moves));
+  }, [nodes, selectedNodeIds, execute]);
+
+  const handleCanvasPointerUp = useCallback((event: React.PointerEvent) => {
     event.preventDefault();
-    handleEndConnection();
-  }, [handleEndConnection]);
+    // A click outside a picker dismisses it
+    setInsertPicker(null);
+    if (picker) cancelPicker();
+    else handleEndConnection();
+  }, [picker, cancelPicker, handleEndConnection]);
 
-  const getNodeById = (id: string) => nodes.find(n => n.id === id);
+  // The browser took the pointer over, e.g. for a system gesture
+  const handleCanvasPointerCancel = useCallback(() => {
+    if (dragState.isDragging && !picker) cancelConnection();
+  }, [dragState.isDragging, picker, cancelConnection]);
 
-  const getConnectorPosition = (node: NodeData, type: 'output' | 'input', inputIndex?: number) => {
-    if (type === 'output') {
-      // Circle center calculation - use centralized height calculation
-      const nodeHeight = getNodeHeight(node);
-      
-      return {
-        x: node.x + 42 + 6, // Center of the 12px circle
-        y: node.y + nodeHeight / 2  // Centered vertically in the node
-      };
+  // Long-press (or right click) menu, in canvas coordinates. Items are built
+  // when rendering, so they act on the selection as it is by then.
+  const [contextMenu, setContextMenu] = useState<ContextMenuState | null>(null);
+  const closeContextMenu = useCallback(() => setContextMenu(null), []);
+  const handleContextRequest = ({ clientX, clientY, target }: ContextRequest) => {
+    const rect = canvasRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    // A long-press on a port has already started a wire drag
+    if (dragState.isDragging && !picker) cancelConnection();
+
+    const connectionId = target.closest<SVGElement>('[data-connection-id]')?.dataset.connectionId;
+    const nodeId = target.closest<HTMLElement>('[data-node-id]')?.dataset.nodeId;
+    const port = target.closest<HTMLElement>('[data-port]')?.dataset;
+    const frameId = target.closest<HTMLElement>('[data-frame-id]')?.dataset.frameId;
+    let menuTarget: ContextTarget = { kind: 'canvas' };
+    if (connectionId) {
+      menuTarget = { kind: 'connection', connectionId };
+      setSelectedNodeIds(new Set());
+      setSelectedConnectionId(connectionId);
+    } else if (nodeId && port?.port === 'input' && port.inputId) {
+      menuTarget = { kind: 'input', nodeId, inputId: port.inputId };
+    } else if (nodeId && port?.port === 'output' && port.outputId) {
+      menuTarget = { kind: 'output', nodeId, outputId: port.outputId };
+    } else if (nodeId) {
+      menuTarget = { kind: 'node', nodeId };
+      suppressNodeClickRef.current = true;
+      if (!selectedNodeIds.has(nodeId)) setSelectedNodeIds(new Set([nodeId]));
+    } else if (frameId) {
+      menuTarget = { kind: 'frame', frameId };
+    }
+
+    setContextMenu({ left: clientX - rect.left, top: clientY - rect.top, target: menuTarget });
+  };
+
+  const getContextMenuItems = ({ target, left, top }: ContextMenuState): ContextMenuItem[] => {
+    if (target.kind === 'connection') {
+      const connection = connections.find(conn => conn.id === target.connectionId);
+      if (!connection) return [];
+      const types = getInsertableNodeTypes(connection);
+      return [
+        ...(types.length > 0
+          ? [{ label: 'Insert node…', onSelect: () => setInsertPicker({ connectionId: connection.id, types, activeIndex: 0, left, top }) }]
+          : []),
+        { label: connection.label ? 'Edit label…' : 'Add label…', onSelect: () => openLabelEditor(connection.id) },
+        { label: 'Delete', onSelect: () => deleteConnection(connection), destructive: true }
+      ];
+    }
+    if (target.kind === 'canvas') {
+      return [
+        { label: 'Select all', onSelect: () => setSelectedNodeIds(new Set(nodes.map(n => n.id))) },
+        { label: 'Auto-arrange', onSelect: () => arrangeNodes() },
+        { label: 'Zoom to fit', onSelect: handleZoomToFit }
+      ];
+    }
+    if (target.kind === 'frame') {
+      const frame = graph.frames?.find(candidate => candidate.id === target.frameId);
+      if (!frame) return [];
+      return [
+        { label: 'Rename frame…', onSelect: () => setTitleEditor({ target: 'frame', id: frame.id, value: frame.title }) },
+        ...FRAME_COLORS
+          .filter(color => color !== frame.color)
+          .map(color => ({ label: `Make ${color}`, onSelect: () => recolorFrame(frame.id, color) })),
+        { label: 'Remove frame', onSelect: () => removeFrame(frame.id), destructive: true }
+      ];
+    }
+
+    const node = getNodeById(target.nodeId);
+    if (!node) return [];
+    if (target.kind === 'input') {
+      const { inputId } = target;
+      const connected = node.inputs.find(input => input.id === inputId)?.connected ?? false;
+      const connection = connections.find(conn => conn.toNodeId === node.id && conn.toInputId === inputId);
+      return connected
+        ? [
+            { label: 'Move wire…', onSelect: () => handleReconnectInput(node.id, inputId) },
+            ...(connection
+              ? [{ label: connection.label ? 'Edit wire label…' : 'Label wire…', onSelect: () => openLabelEditor(connection.id) }]
+              : []),
+            { label: 'Disconnect', onSelect: () => handleDisconnectInput(node.id, inputId), destructive: true }
+          ]
+        : [{ label: 'Remove input', onSelect: () => handleRemoveInput(node.id, inputId), destructive: true }];
+    }
+    if (target.kind === 'output') {
+      return [{ label: 'Connect to…', onSelect: () => openPicker(node.id, target.outputId, null) }];
+    }
+
+    const count = selectedNodeIds.size > 1 ? ` ${selectedNodeIds.size} nodes` : '';
+    const status = run.nodes[node.id]?.status;
+    return [
+      ...(node.type === SUBFLOW_NODE_TYPE && selectedNodeIds.size === 1
+        ? [
+            { label: 'Open subflow', onSelect: () => openSubflow(node.id) },
+            { label: 'Rename subflow…', onSelect: () => setTitleEditor({ target: 'subflow', id: node.id, value: node.title }) },
+            { label: 'Expand subflow', onSelect: () => expandSubflowNode(node.id) }
+          ]
+        : []),
+      ...(status === 'succeeded' || status === 'failed' || status === 'cancelled' || status === 'skipped'
+        ? [{ label: 'Show run result', onSelect: () => setRunDetailsNodeId(node.id) }]
+        : []),
+      ...(selectedNodeIds.size > 1
+        ? [{ label: `Arrange${count}`, onSelect: () => arrangeNodes(selectedNodeIds) }]
+        : []),
+      { label: `Frame${count}`, onSelect: frameSelection },
+      { label: `Collapse${count} into subflow`, onSelect: collapseSelection },
+      { label: `Duplicate${count}`, onSelect: duplicateSelection },
+      { label: `Delete${count}`, onSelect: deleteSelection, destructive: true }
+    ];
+  };
+
+  // Pressing a wire selects it on its own
+  const handleConnectionPointerDown = useCallback((connectionId: string, event: React.PointerEvent) => {
+    if (event.button !== 0 || !event.isPrimary) return;
+    // Keep the canvas from starting a marquee, which would clear the selection again
+    event.stopPropagation();
+    setSelectedNodeIds(new Set());
+    setSelectedConnectionId(connectionId);
+  }, []);
+
+  // Inline editor for a wire's label, shown over its midpoint
+  const [labelEditor, setLabelEditor] = useState<{ connectionId: string; value: string } | null>(null);
+  // Escape closes the editor without saving; the blur that follows must not commit
+  const discardLabelRef = useRef(false);
+
+  // Read through a ref so the double-click handler every wire gets keeps its
+  // identity while nodes move, and wires that didn't move aren't redrawn
+  const connectionsRef = useRef(connections);
+  useEffect(() => {
+    connectionsRef.current = connections;
+  }, [connections]);
+
+  const openLabelEditor = useCallback((connectionId: string) => {
+    const connection = connectionsRef.current.find(conn => conn.id === connectionId);
+    if (connection) setLabelEditor({ connectionId, value: connection.label ?? '' });
+  }, []);
+
+  const commitLabelEditor = () => {
+    if (!labelEditor) return;
+    setLabelEditor(null);
+    if (discardLabelRef.current) {
+      discardLabelRef.current = false;
+      return;
+    }
+    const connection = connections.find(conn => conn.id === labelEditor.connectionId);
+    const label = labelEditor.value.trim() || undefined;
+    if (connection && label !== connection.label) {
+      execute(labelConnectionCommand(connection.id, connection.label, label));
+    }
+  };
+
+  // Node types that fit in the middle of a wire: they take its value and have
+  // an output the input at the far end accepts
+  const getInsertableNodeTypes = (connection: ConnectionData) => {
+    const fromNode = getNodeById(connection.fromNodeId);
+    const toNode = getNodeById(connection.toNodeId);
+    if (!fromNode || !toNode) return [];
+    const valueType = getNodeOutputType(fromNode, connection.fromOutputId);
+    const inputType = getNodeInputType(toNode);
+    return listNodeTypes().filter(definition => {
+      const probe = { type: definition.id };
+      return definition.defaultInputs > 0 &&
+        isPortTypeCompatible(valueType, getNodeInputType(probe)) &&
+        getNodeOutputs(probe).some(output => isPortTypeCompatible(getNodeOutputType(probe, output.id), inputType));
+    });
+  };
+
+  // Listbox of node types for "Insert node…", at the spot the menu was opened
+  const [insertPicker, setInsertPicker] = useState<{
+    connectionId: string;
+    types: NodeTypeDefinition[];
+    activeIndex: number;
+    left: number;
+    top: number;
+  } | null>(null);
+
+  // Splits a wire in two with a new node of the given type halfway along it
+  const insertNodeOnConnection = (connectionId: string, definition: NodeTypeDefinition) => {
+    setInsertPicker(null);
+    const connection = connections.find(conn => conn.id === connectionId);
+    const fromNode = connection && getNodeById(connection.fromNodeId);
+    const toNode = connection && getNodeById(connection.toNodeId);
+    if (!connection || !fromNode || !toNode) return;
+    const stored = getStoredConnection(connection);
+
+    const start = getOutputPosition(fromNode, connection.fromOutputId);
+    const toInputIndex = toNode.inputs.findIndex(input => input.id === connection.toInputId);
+    const end = getInputPosition(toNode, Math.max(0, toInputIndex));
+    const node = createNodeFromType(definition, createId('node'), {
+      x: (start.x + end.x) / 2 - DEFAULT_NODE_THEME.nodeWidth / 2,
+      y: (start.y + end.y) / 2 - getNodeHeight(getTypeShape(definition)) / 2
+    });
+    const inputType = getNodeInputType(toNode);
+    const output = getNodeOutputs(node).find(candidate => isPortTypeCompatible(getNodeOutputType(node, candidate.id), inputType));
+    if (!output) return;
+
+    const { label } = connection;
+    execute(composeCommands('Insert node', [
+      disconnectCommand(stored),
+      addToLevel(addNodeCommand(node), [node.id]),
+      connectCommand({
+        id: createId('conn'),
+        fromNodeId: stored.fromNodeId,
+        fromOutputId: stored.fromOutputId,
+        toNodeId: node.id,
+        toInputId: node.inputs[0].id,
+        ...(label !== undefined && { label })
+      }),
+      connectCommand({
+        id: createId('conn'),
+        fromNodeId: node.id,
+        fromOutputId: output.id,
+        toNodeId: stored.toNodeId,
+        toInputId: stored.toInputId
+      })
+    ]));
+    setSelectedNodeIds(new Set([node.id]));
+    setAnnouncement(`Inserted ${definition.title} between ${describeOutput(fromNode, connection.fromOutputId)} and ${describeInput(toNode, toInputIndex)}`);
+  };
+
+  useLongPress(canvasRef, handleContextRequest);
+
+  usePinchZoom(canvasRef, {
+    panBy,
+    zoomAt,
+    onPinchStart: () => {
+      stopMarqueeRef.current?.();
+      if (dragState.isDragging && !picker) cancelConnection();
+    }
+  });
+
+  // Lookups happen per wire and per node on every render, which adds up on big graphs
+  const nodesById = useMemo(() => new Map(nodes.map(node => [node.id, node])), [nodes]);
+  const getNodeById = (id: string) => nodesById.get(id);
+
+  // What the others in the room see of this canvas; drags of nodes are shared by useSharedGraph
+  useEffect(() => {
+    updatePresence({ level, selection: Array.from(selectedNodeIds) });
+  }, [level, selectedNodeIds, updatePresence]);
+
+  useEffect(() => {
+    const fromNode = dragState.isDragging && dragState.fromNodeId ? nodesById.get(dragState.fromNodeId) : undefined;
+    if (!fromNode || !dragState.fromOutputId) {
+      updatePresence({ wire: null });
+      return;
+    }
+    const outputIndex = Math.max(0, getNodeOutputs(fromNode).findIndex(output => output.id === dragState.fromOutputId));
+    updatePresence({
+      wire: {
+        from: getOutputAnchor(fromNode, getRestingShape(fromNode), outputIndex),
+        to: { x: dragState.currentX, y: dragState.currentY }
+      }
+    });
+  }, [dragState, nodesById, updatePresence]);
+
+  const levelPeers = peers.filter(peer => peer.level === level);
+
+  const fitNodes = (fitted: NodeData[]) => {
+    const rect = canvasRef.current?.getBoundingClientRect();
+    if (!rect || fitted.length === 0) return;
+    const bounds = unionBounds(fitted.map(node => getNodeFootprint(node, getNodeShape(node))));
+    fitBounds(bounds, { width: rect.width, height: rect.height });
+  };
+
+  const handleZoomToFit = () => fitNodes(nodes);
+
+  // Node boxes wires are routed around, including the title and label underneath
+  const getNodeBox = (node: NodeData): Bounds => {
+    const bounds = getNodeBounds(node, getNodeShape(node));
+    return { ...bounds, maxY: bounds.maxY + DEFAULT_NODE_THEME.labelHeight };
+  };
+
+  // Viewport to go back to when leaving a level, saved on the way into a subflow
+  const levelViewportsRef = useRef(new Map<string | null, Viewport>());
+
+  const openSubflow = (subflowId: string) => {
+    const subflow = graph.subflows?.find(candidate => candidate.id === subflowId);
+    if (!subflow) return;
+    levelViewportsRef.current.set(level, viewport);
+    setOpenSubflowId(subflowId);
+    setSelectedNodeIds(new Set());
+    setSelectedConnectionId(null);
+    fitNodes(getSubflowView(graph, subflowId).nodes);
+    setAnnouncement(`Opened ${subflow.title}`);
+  };
+
+  // Goes back out to `target`, a subflow on the breadcrumb or null for the top level
+  const leaveSubflow = (target: string | null) => {
+    const saved = levelViewportsRef.current.get(target);
+    setOpenSubflowId(target);
+    setSelectedNodeIds(new Set());
+    setSelectedConnectionId(null);
+    if (saved) setViewport(saved);
+  };
+
+  const collapseSelection = () => {
+    const selected = nodes.filter(node => selectedNodeIds.has(node.id));
+    if (selected.length === 0) return;
+    // The collapsed node takes the place of the top middle of the selection
+    const bounds = unionBounds(selected.map(node => getNodeBounds(node, getRestingShape(node))));
+    const subflow = {
+      id: createId('subflow'),
+      title: 'Subflow',
+      x: Math.round((bounds.minX + bounds.maxX - DEFAULT_NODE_THEME.nodeWidth) / 2),
+      y: Math.round(bounds.minY)
+    };
+    const subflows = collapseIntoSubflow(graph, level, new Set(selected.map(node => node.id)), subflow);
+    execute(setSubflowsCommand('Collapse into subflow', graph.subflows ?? [], subflows));
+    setSelectedNodeIds(new Set([subflow.id]));
+    setAnnouncement(`Collapsed ${countNodes(selected.length)} into a subflow`);
+  };
+
+  // Puts what a collapsed subflow holds back in its place, lined up with where
+  // the collapsed node is now, by the same rule collapsing used
+  const expandSubflowNode = (subflowId: string) => {
+    const subflow = graph.subflows?.find(candidate => candidate.id === subflowId);
+    const inside = getSubflowView(graph, subflowId).nodes;
+    if (!subflow || inside.length === 0) return;
+
+    const bounds = unionBounds(inside.map(node => getNodeBounds(node, getRestingShape(node))));
+    const dx = Math.round(subflow.x - (bounds.minX + bounds.maxX - DEFAULT_NODE_THEME.nodeWidth) / 2);
+    const dy = Math.round(subflow.y - bounds.minY);
+    const from = new Map(inside.map(node => [node.id, { x: node.x, y: node.y }]));
+    const to = new Map(inside.map(node => [node.id, { x: node.x + dx, y: node.y + dy }]));
+    execute(composeCommands('Expand subflow', [
+      moveNodesCommand('Expand subflow', from, to),
+      setSubflowsCommand('Expand subflow', graph.subflows ?? [], expandSubflow(graph, subflowId))
+    ]));
+    setSelectedNodeIds(new Set(inside.map(node => node.id)));
+    setAnnouncement(`Expanded ${subflow.title}`);
+  };
+
+  // Frames at this level, around whatever stands for their nodes here. Bigger
+  // frames come first so smaller ones inside them stay visible.
+  const representatives = useMemo(() => getRepresentatives(graph, level), [graph, level]);
+  const frameBoxes = (graph.frames ?? []).flatMap(frame => {
+    const memberIds = Array.from(new Set(frame.nodeIds.flatMap(id => representatives.get(id) ?? [])));
+    const members = memberIds.flatMap(id => getNodeById(id) ?? []);
+    if (members.length === 0) return [];
+    const bounds = unionBounds(members.map(node => getNodeFootprint(node, getRestingShape(node))));
+    return [{
+      frame,
+      memberIds,
+      bounds: {
+        minX: bounds.minX - FRAME_PADDING,
+        minY: bounds.minY - FRAME_PADDING - FRAME_HEADER_HEIGHT,
+        maxX: bounds.maxX + FRAME_PADDING,
+        maxY: bounds.maxY + FRAME_PADDING
+      }
+    }];
+  }).sort((a, b) =>
+    (b.bounds.maxX - b.bounds.minX) * (b.bounds.maxY - b.bounds.minY) -
+    (a.bounds.maxX - a.bounds.minX) * (a.bounds.maxY - a.bounds.minY));
+
+  const frameSelection = () => {
+    const nodeIds = expandSubflowIds(graph, nodes.filter(node => selectedNodeIds.has(node.id)).map(node => node.id));
+    if (nodeIds.length === 0) return;
+    const frames = graph.frames ?? [];
+    const frame: FrameData = { id: createId('frame'), title: 'Frame', color: 'blue', nodeIds };
+    execute(setFramesCommand('Add frame', frames, [...frames, frame]));
+    setTitleEditor({ target: 'frame', id: frame.id, value: frame.title });
+  };
+
+  const recolorFrame = (frameId: string, color: FrameColor) => {
+    const frames = graph.frames ?? [];
+    execute(setFramesCommand('Recolour frame', frames, frames.map(frame => (frame.id === frameId ? { ...frame, color } : frame))));
+  };
+
+  // Removes the frame but leaves its nodes where they are
+  const removeFrame = (frameId: string) => {
+    const frames = graph.frames ?? [];
+    execute(setFramesCommand('Remove frame', frames, frames.filter(frame => frame.id !== frameId)));
+  };
+
+  // Dragging a frame by its title bar moves everything in it as one undo step
+  const handleFramePointerDown = (frameId: string, memberIds: string[], event: React.PointerEvent) => {
+    if (event.button !== 0 || !event.isPrimary) return;
+    const start = getCanvasPoint(event);
+    if (!start) return;
+    // Keep the canvas from starting a marquee
+    event.stopPropagation();
+    const origins = new Map(memberIds.flatMap(id => {
+      const node = getNodeById(id);
+      return node ? [[id, { x: node.x, y: node.y }] as const] : [];
+    }));
+    setSelectedNodeIds(new Set(origins.keys()));
+
+    const { pointerId } = event;
+    let offset = { dx: 0, dy: 0 };
+    const targetsFor = ({ dx, dy }: typeof offset) =>
+      new Map(Array.from(origins, ([id, origin]) => [id, { x: origin.x + dx, y: origin.y + dy }]));
+    const handleMove = (moveEvent: PointerEvent) => {
+      const point = moveEvent.pointerId === pointerId ? getCanvasPoint(moveEvent) : null;
+      if (!point) return;
+      offset = { dx: Math.round(point.x - start.x), dy: Math.round(point.y - start.y) };
+      const targets = targetsFor(offset);
+      preview(current => placeNodes(current, targets));
+    };
+    const handleUp = (upEvent: PointerEvent) => {
+      if (upEvent.pointerId !== pointerId) return;
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+      window.removeEventListener('pointercancel', handleUp);
+      if (offset.dx === 0 && offset.dy === 0) return;
+      const command = moveNodesCommand('Move frame', origins, targetsFor(offset));
+      preview(command.apply);
+      record(command);
+    };
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    window.addEventListener('pointercancel', handleUp);
+  };
+
+  // Inline editor for a frame's or subflow's title
+  const [titleEditor, setTitleEditor] = useState<{ target: 'frame' | 'subflow'; id: string; value: string } | null>(null);
+  const discardTitleRef = useRef(false);
+
+  const commitTitleEditor = () => {
+    if (!titleEditor) return;
+    setTitleEditor(null);
+    if (discardTitleRef.current) {
+      discardTitleRef.current = false;
+      return;
+    }
+    const title = titleEditor.value.trim();
+    if (!title) return;
+    if (titleEditor.target === 'frame') {
+      const frames = graph.frames ?? [];
+      if (frames.some(frame => frame.id === titleEditor.id && frame.title !== title)) {
+        execute(setFramesCommand('Rename frame', frames, frames.map(frame => (frame.id === titleEditor.id ? { ...frame, title } : frame))));
+      }
     } else {
-      // Input position calculation
-      return getInputPosition(node, inputIndex || 0);
+      const subflows = graph.subflows ?? [];
+      if (subflows.some(subflow => subflow.id === titleEditor.id && subflow.title !== title)) {
+        execute(setSubflowsCommand('Rename subflow', subflows, subflows.map(subflow => (
+          subflow.id === titleEditor.id ? { ...subflow, title } : subflow
+        ))));
+      }
+    }
+  };
+
+  // Screen position the title editor is centred on: the frame's title bar or
+  // the collapsed subflow's title
+  const getTitleEditorAnchor = (editor: { target: 'frame' | 'subflow'; id: string }) => {
+    if (editor.target === 'frame') {
+      const box = frameBoxes.find(candidate => candidate.frame.id === editor.id);
+      return box ? { x: (box.bounds.minX + box.bounds.maxX) / 2, y: box.bounds.minY + FRAME_HEADER_HEIGHT / 2 } : null;
     }
+    const node = getNodeById(editor.id);
+    return node
+      ? { x: node.x + DEFAULT_NODE_THEME.nodeWidth / 2, y: node.y + getLabelTop(getRestingShape(node)) + 8 }
+      : null;
+  };
+
+  // Node handlers read through a ref keep their identity, so memoized nodes re-render only when they change
+  const nodeHandlers = {
+    handleNodeDragStart,
+    updateNodePosition,
+    handleNodeDragStop,
+    handleStartConnection,
+    handleStartDisconnection,
+    handleRemoveInput,
+    handleFocusNode,
+    handleNudge,
+    openPicker,
+    handleReconnectInput,
+    handleDisconnectInput,
+    openSubflow
   };
+  const nodeHandlersRef = useRef(nodeHandlers);
+  useEffect(() => {
+    nodeHandlersRef.current = nodeHandlers;
+  });
+  const nodeCallbacks = useMemo(() => ({
+    onDragStart: (id: string, additive: boolean) => nodeHandlersRef.current.handleNodeDragStart(id, additive),
+    onDrag: (id: string, x: number, y: number) => nodeHandlersRef.current.updateNodePosition(id, x, y),
+    onDragStop: (id: string, x: number, y: number) => nodeHandlersRef.current.handleNodeDragStop(id, x, y),
+    onStartConnection: (nodeId: string, outputId: string, event: React.PointerEvent) =>
+      nodeHandlersRef.current.handleStartConnection(nodeId, outputId, event),
+    onStartDisconnection: (nodeId: string, inputId: string, event: React.PointerEvent) =>
+      nodeHandlersRef.current.handleStartDisconnection(nodeId, inputId, event),
+    onRemoveInput: (nodeId: string, inputId: string) => nodeHandlersRef.current.handleRemoveInput(nodeId, inputId),
+    onFocusNode: (id: string) => nodeHandlersRef.current.handleFocusNode(id),
+    onNudge: (id: string, dx: number, dy: number, large: boolean) => nodeHandlersRef.current.handleNudge(id, dx, dy, large),
+    onKeyboardConnect: (nodeId: string, outputId: string) => nodeHandlersRef.current.openPicker(nodeId, outputId, null),
+    onKeyboardReconnect: (nodeId: string, inputId: string) => nodeHandlersRef.current.handleReconnectInput(nodeId, inputId),
+    onDisconnect: (nodeId: string, inputId: string) => nodeHandlersRef.current.handleDisconnectInput(nodeId, inputId),
+    onOpen: (id: string) => nodeHandlersRef.current.openSubflow(id)
+  }), []);
 
   // Get connection state for inputs
   const getInputConnectionStates = (nodeId: string): InputConnectionState[] => {
-    const node = nodes.find(n => n.id === nodeId);
+    const node = getNodeById(nodeId);
     if (!node) return [];
     
     // Check if all inputs are connected and we should show ADD
@@ -469,6 +1799,11 @@ const Canvas: React.FC = () => {
                          dragState.hoveredNodeId === nodeId && 
                          dragState.canCreateNewInput && 
                          allInputsConnected;
+
+    const fromNode = dragState.isDragging && dragState.fromNodeId ? getNodeById(dragState.fromNodeId) : undefined;
+    const isIncompatible = !!fromNode && !!dragState.fromOutputId &&
+      fromNode.id !== nodeId &&
+      !isPortTypeCompatible(getNodeOutputType(fromNode, dragState.fromOutputId), getNodeInputType(node));
     
     const states: InputConnectionState[] = node.inputs.map((input, index) => ({
       hasIncomingConnection: input.connected,
@@ -476,7 +1811,8 @@ const Canvas: React.FC = () => {
       isInTapZone: dragState.isDragging && dragState.hoveredNodeId === nodeId && dragState.hoveredInputId === input.id && dragState.isInTapZone,
       inputId: input.id,
       inputIndex: index,
-      isDragging: dragState.isDragging
+      isDragging: dragState.isDragging,
+      isIncompatible
     }));
     
     // Add virtual ADD input if needed
@@ -497,14 +1833,60 @@ const Canvas: React.FC = () => {
 
 
 
+  const nodeBoxes = nodes.map(getNodeBox);
+  const wireRoutes = useWireRoutes(
+    connections.flatMap((conn): WireRequest[] => {
+      const fromNode = getNodeById(conn.fromNodeId);
+      const toNode = getNodeById(conn.toNodeId);
+      if (!fromNode || !toNode) return [];
+      const toInputIndex = toNode.inputs.findIndex(input => input.id === conn.toInputId);
+      return [{
+        id: conn.id,
+        start: getOutputPosition(fromNode, conn.fromOutputId),
+        end: getInputPosition(toNode, Math.max(0, toInputIndex))
+      }];
+    }),
+    wireStyle,
+    nodeBoxes
+  );
+
+  let renderedNodes = nodes;
+  if (visibleArea) {
+    const visibleIds = new Set(nodeIndex.search(visibleArea));
+    // Nodes being worked on stay mounted even when scrolled away, so a drag,
+    // a keyboard nudge or a picker target doesn't lose its element
+    selectedNodeIds.forEach(id => visibleIds.add(id));
+    [dragState.fromNodeId, dragState.hoveredNodeId].forEach(id => id && visibleIds.add(id));
+    renderedNodes = nodes.filter(node => visibleIds.has(node.id));
+  }
+
   return (
     <div 
       ref={canvasRef}
-      className="relative w-full h-screen bg-gray-50 overflow-hidden select-none"
-      onMouseMove={handleMouseMove}
-      onMouseUp={handleCanvasMouseUp}
+      className={`relative w-full h-screen bg-gray-50 overflow-hidden select-none touch-none ${
+        isPanning ? 'cursor-grabbing' : isSpacePressed ? 'cursor-grab' : ''
+      }`}
+      role="application"
+      aria-label="Workflow canvas"
+      aria-describedby={instructionsId}
+      onPointerDownCapture={handlePanPointerDown}
+      onPointerDown={handleCanvasPointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handleCanvasPointerUp}
+      onPointerCancel={handleCanvasPointerCancel}
+      onPointerLeave={() => updatePresence({ cursor: null })}
+      onDragOver={handleDragOver}
+      onDrop={handleDrop}
     >
-      {/* Canvas Grid Background */}
+      <p id={instructionsId} className="sr-only">
+        Tab moves between nodes and their inputs and outputs. Arrow keys move the focused node, further with Shift;
+        Alt with Left or Right jumps to its inputs or outputs. On a port, Up and Down step through the ports on that side.
+        Enter on an output starts a connection, Enter on a connected input moves its wire, and Delete disconnects or
+        removes an input. Enter on a subflow opens it.
+      </p>
+      <div aria-live="polite" className="sr-only">{announcement}</div>
+
+      {/* Canvas Grid Background - scales and scrolls with the viewport */}
       <div 
         className="absolute inset-0 opacity-20"
         style={{
@@ -512,89 +1894,557 @@ const Canvas: React.FC = () => {
             linear-gradient(to right, #e5e7eb 1px, transparent 1px),
             linear-gradient(to bottom, #e5e7eb 1px, transparent 1px)
           `,
-          backgroundSize: '40px 40px'
+          backgroundSize: `${GRID_SIZE * viewport.zoom}px ${GRID_SIZE * viewport.zoom}px`,
+          backgroundPosition: `${viewport.x}px ${viewport.y}px`
         }}
       />
       
-      {/* Canvas Content */}
-      <div className="relative z-10">
-        {/* Render established connections */}
-        {connections.map(conn => {
-          const fromNode = getNodeById(conn.fromNodeId);
-          const toNode = getNodeById(conn.toNodeId);
+      {/* Canvas Content - everything inside is in world coordinates */}
+      <div
+        className="relative z-10"
+        style={{
+          transform: `translate(${viewport.x}px, ${viewport.y}px) scale(${viewport.zoom})`,
+          transformOrigin: '0 0'
+        }}
+      >
+        {/* Frames, behind the wires and nodes they group; only the title bar takes the pointer */}
+        {frameBoxes.map(({ frame, memberIds, bounds }) => (
+          <div
+            key={frame.id}
+            data-frame-id={frame.id}
+            className={`absolute rounded-lg border pointer-events-none ${FRAME_STYLES[frame.color].frame}`}
+            style={{
+              left: bounds.minX,
+              top: bounds.minY,
+              width: bounds.maxX - bounds.minX,
+              height: bounds.maxY - bounds.minY
+            }}
+          >
+            <div
+              className={`flex items-center px-3 text-xs font-medium font-['Geist'] whitespace-nowrap overflow-hidden cursor-move select-none pointer-events-auto ${FRAME_STYLES[frame.color].title}`}
+              style={{ height: FRAME_HEADER_HEIGHT }}
+              onPointerDown={(e) => handleFramePointerDown(frame.id, memberIds, e)}
+              onDoubleClick={() => setTitleEditor({ target: 'frame', id: frame.id, value: frame.title })}
+            >
+              {frame.title}
+            </div>
+          </div>
+        ))}
+
+        {/* All wires share one SVG layer and one set of arrowheads */}
+        <svg
+          className="absolute top-0 left-0 w-full h-full pointer-events-none"
+          style={{ overflow: 'visible', zIndex: 0 }}
+          role="group"
+          aria-label="Connections"
+        >
+          <ConnectionMarkers />
+
+          {/* Render established connections */}
+          {connections.map(conn => {
+            const hasTypeMismatch = typeMismatchIds.has(conn.id);
+            const fromNode = getNodeById(conn.fromNodeId);
+            const toNode = getNodeById(conn.toNodeId);
           
-          if (!fromNode || !toNode) return null;
+            const route = wireRoutes.get(conn.id);
+            if (!fromNode || !toNode || !route) return null;
+            if (visibleArea && !intersects(route.bounds, visibleArea) && selectedConnectionId !== conn.id) return null;
           
-          // Recalculate positions on every render when drag state changes
-          const startPos = getConnectorPosition(fromNode, 'output');
-          const toInputIndex = toNode.inputs.findIndex(input => input.id === conn.toInputId);
-          const endPos = getConnectorPosition(toNode, 'input', toInputIndex);
+            const toInputIndex = toNode.inputs.findIndex(input => input.id === conn.toInputId);
           
-          // Hide arrow if connecting to a triangle (connected input)
-          const targetInput = toNode.inputs.find(input => input.id === conn.toInputId);
-          const showArrow = !targetInput?.connected;
+            // Hide arrow if connecting to a triangle (connected input)
+            const targetInput = toNode.inputs.find(input => input.id === conn.toInputId);
+            const showArrow = !targetInput?.connected;
           
-          return (
-            <Connection
-              key={`${conn.id}-${dragState.hoveredNodeId}-${dragState.canCreateNewInput}`}
-              startX={startPos.x}
-              startY={startPos.y}
-              endX={endPos.x}
-              endY={endPos.y}
-              isDragging={false}
-              showArrow={showArrow}
-            />
-          );
-        })}
-
-        {/* Render dragging connection preview */}
-        {dragState.isDragging && dragState.fromNodeId && (
-          (() => {
-            const fromNode = getNodeById(dragState.fromNodeId);
-            if (!fromNode) return null;
-            
-            const startPos = getConnectorPosition(fromNode, 'output');
-            
-
-            
             return (
               <Connection
-                startX={startPos.x}
-                startY={startPos.y}
-                endX={dragState.currentX}
-                endY={dragState.currentY}
-                isDragging={true}
-                showArrow={true}
+                key={conn.id}
+                id={conn.id}
+                path={route.path}
+                caption={conn.label}
+                midpoint={route.midpoint}
+                isDragging={false}
+                isInvalid={hasTypeMismatch}
+                isSelected={
+                  selectedConnectionId === conn.id ||
+                  (selectedNodeIds.has(conn.fromNodeId) && selectedNodeIds.has(conn.toNodeId))
+                }
+                isActive={
+                  run.status === 'running' &&
+                  run.nodes[conn.fromNodeId]?.status === 'succeeded' &&
+                  (run.nodes[conn.toNodeId]?.status === 'queued' || run.nodes[conn.toNodeId]?.status === 'running')
+                }
+                showArrow={showArrow}
+                label={`${describeOutput(fromNode, conn.fromOutputId)} to ${describeInput(toNode, Math.max(0, toInputIndex))}${
+                  conn.label ? `, labelled ${conn.label}` : ''
+                }`}
+                onPointerDown={handleConnectionPointerDown}
+                onDoubleClick={openLabelEditor}
               />
             );
-          })()
-        )}
+          })}
+
+          {/* Render dragging connection preview */}
+          {dragState.isDragging && dragState.fromNodeId && dragState.fromOutputId && (
+            (() => {
+              const fromNode = getNodeById(dragState.fromNodeId);
+              if (!fromNode || !dragState.fromOutputId) return null;
+            
+              const startPos = getOutputPosition(fromNode, dragState.fromOutputId);
+              const endPos = { x: dragState.currentX, y: dragState.currentY };
+            
+              return (
+                <Connection
+                  path={routeWire(startPos, endPos, wireStyle, nodeBoxes).path}
+                  isDragging={true}
+                  isInvalid={dragState.connectionCheck?.ok === false}
+                  showArrow={true}
+                />
+              );
+            })()
+          )}
+        </svg>
 
         {/* Render nodes */}
-        {nodes.map(node => {
+        {renderedNodes.map(node => {
           const inputConnectionStates = getInputConnectionStates(node.id);
-          
-          // Use centralized height calculation
-          const nodeHeight = getNodeHeight(node);
-          
+
           return (
             <WorkflowNode
               key={node.id}
               id={node.id}
+              type={node.type}
               title={node.title}
-              description={node.description}
+              description={getNodeLabel(node)}
               x={node.x}
               y={node.y}
-              height={nodeHeight}
+              scale={viewport.zoom}
+              isSelected={selectedNodeIds.has(node.id)}
+              runResult={run.nodes[node.id]}
               inputs={node.inputs}
-              onDrag={updateNodePosition}
-              onStartConnection={handleStartConnection}
-              onStartDisconnection={handleStartDisconnection}
-              onRemoveInput={handleRemoveInput}
+              outputs={node.type === SUBFLOW_NODE_TYPE ? getNodeOutputs(node) : undefined}
+              onDragStart={nodeCallbacks.onDragStart}
+              onDrag={nodeCallbacks.onDrag}
+              onDragStop={nodeCallbacks.onDragStop}
+              onStartConnection={nodeCallbacks.onStartConnection}
+              onStartDisconnection={nodeCallbacks.onStartDisconnection}
+              onRemoveInput={nodeCallbacks.onRemoveInput}
+              onFocusNode={nodeCallbacks.onFocusNode}
+              onNudge={nodeCallbacks.onNudge}
+              onKeyboardConnect={nodeCallbacks.onKeyboardConnect}
+              onKeyboardReconnect={nodeCallbacks.onKeyboardReconnect}
+              onDisconnect={nodeCallbacks.onDisconnect}
+              onOpen={node.type === SUBFLOW_NODE_TYPE ? nodeCallbacks.onOpen : undefined}
               inputConnectionStates={inputConnectionStates}
             />
           );
         })}
+
+        {/* Alignment guides, over the nodes they line up */}
+        {guides.length > 0 && (
+          <svg
+            className="absolute top-0 left-0 w-full h-full pointer-events-none"
+            style={{ overflow: 'visible', zIndex: 10 }}
+            aria-hidden
+          >
+            {guides.map(guide => (
+              <line
+                key={`${guide.orientation}:${guide.position}`}
+                x1={guide.orientation === 'vertical' ? guide.position : guide.start}
+                y1={guide.orientation === 'vertical' ? guide.start : guide.position}
+                x2={guide.orientation === 'vertical' ? guide.position : guide.end}
+                y2={guide.orientation === 'vertical' ? guide.end : guide.position}
+                stroke="#ec4899"
+                strokeWidth="1"
+                vectorEffect="non-scaling-stroke"
+              />
+            ))}
+          </svg>
+        )}
+
+        {/* Everyone else in the room, over everything */}
+        <CollaboratorLayer peers={levelPeers} nodesById={nodesById} scale={viewport.zoom} />
+      </div>
+
+      {/* Why the wire under the cursor can't (or maybe shouldn't) connect */}
+      {dragState.isDragging && dragState.connectionCheck && (() => {
+        const check = dragState.connectionCheck;
+        const message = check.ok ? check.warning : check.reason;
+        if (!message) return null;
+        return (
+          <div
+            role="tooltip"
+            className={`absolute z-30 max-w-64 rounded px-2 py-1 text-xs shadow pointer-events-none ${
+              check.ok ? 'bg-amber-50 text-amber-800 border border-amber-200' : 'bg-red-50 text-red-700 border border-red-200'
+            }`}
+            style={{
+              left: dragState.currentX * viewport.zoom + viewport.x + 16,
+              top: dragState.currentY * viewport.zoom + viewport.y + 16
+            }}
+          >
+            {message}
+          </div>
+        );
+      })()}
+
+      {/* Keyboard Connection Picker - next to the output the wire starts from */}
+      {picker && (() => {
+        const fromNode = getNodeById(picker.fromNodeId);
+        if (!fromNode) return null;
+        const start = getOutputPosition(fromNode, picker.fromOutputId);
+        return (
+          <ConnectionPicker
+            title={`Connect ${describeOutput(fromNode, picker.fromOutputId)} to`}
+            options={picker.targets.map(target => {
+              const toNode = getNodeById(target.toNodeId);
+              const input = toNode ? describeInput(toNode, target.inputIndex) : target.toNodeId;
+              return {
+                id: `${target.toNodeId}/${target.toInputId ?? 'new'}`,
+                label: target.toInputId ? `${input[0].toUpperCase()}${input.slice(1)}` : `New ${input}`,
+                hint: target.check.ok ? target.check.warning : undefined
+              };
+            })}
+            activeIndex={picker.activeIndex}
+            left={start.x * viewport.zoom + viewport.x + 16}
+            top={start.y * viewport.zoom + viewport.y + 16}
+            onActiveChange={handlePickerActiveChange}
+            onPick={handlePickerPick}
+            onCancel={cancelPicker}
+          />
+        );
+      })()}
+
+      {/* Node type picker for inserting a node into a wire */}
+      {insertPicker && (
+        <ConnectionPicker
+          title="Insert node"
+          options={insertPicker.types.map(definition => ({ id: definition.id, label: definition.title }))}
+          activeIndex={insertPicker.activeIndex}
+          left={insertPicker.left}
+          top={insertPicker.top}
+          onActiveChange={(index) => setInsertPicker({ ...insertPicker, activeIndex: index })}
+          onPick={(index) => insertNodeOnConnection(insertPicker.connectionId, insertPicker.types[index])}
+          onCancel={() => setInsertPicker(null)}
+        />
+      )}
+
+      {/* Wire label editor, over the middle of the wire */}
+      {labelEditor && (() => {
+        const route = wireRoutes.get(labelEditor.connectionId);
+        if (!route) return null;
+        return (
+          <input
+            autoFocus
+            aria-label="Wire label"
+            placeholder="Label"
+            className="absolute z-40 w-40 -translate-x-1/2 -translate-y-1/2 rounded border border-gray-300 bg-white px-2 py-1 text-xs font-['IBM_Plex_Mono'] text-gray-900 shadow-[0px_2px_4px_0px_rgba(0,0,0,0.05)] focus:outline-none focus:ring-2 focus:ring-blue-500"
+            style={{
+              left: route.midpoint.x * viewport.zoom + viewport.x,
+              top: route.midpoint.y * viewport.zoom + viewport.y
+            }}
+            value={labelEditor.value}
+            onChange={(e) => setLabelEditor({ ...labelEditor, value: e.target.value })}
+            onBlur={commitLabelEditor}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.currentTarget.blur();
+              } else if (e.key === 'Escape') {
+                discardLabelRef.current = true;
+                e.currentTarget.blur();
+              }
+            }}
+            onPointerDown={(e) => e.stopPropagation()}
+            onPointerUp={(e) => e.stopPropagation()}
+          />
+        );
+      })()}
+
+      {/* Run Controls */}
+      <div
+        className="absolute top-4 left-4 z-20 flex items-center gap-2 rounded-lg border border-gray-200 bg-white p-1 pr-3 shadow-[0px_2px_4px_0px_rgba(0,0,0,0.05)]"
+        onPointerDown={(e) => e.stopPropagation()}
+      >
+        {run.status === 'running' ? (
+          <button
+            className="inline-flex items-center gap-1.5 rounded px-2 py-1 text-sm font-medium text-red-600 hover:bg-red-50"
+            onClick={cancelRun}
+          >
+            <Square className="size-3.5" />
+            Stop
+          </button>
+        ) : (
+          <button
+            className="inline-flex items-center gap-1.5 rounded px-2 py-1 text-sm font-medium text-gray-900 hover:bg-gray-100 disabled:opacity-50"
+            onClick={handleRun}
+            disabled={nodes.length === 0 || !report.valid}
+          >
+            <Play className="size-3.5" />
+            Run
+          </button>
+        )}
+        <span className="text-xs text-muted-foreground">
+          {run.status === 'idle' && 'Not run yet'}
+          {run.status === 'running' && 'Running…'}
+          {run.status === 'succeeded' && `Succeeded in ${formatDuration(run.durationMs ?? 0)}`}
+          {run.status === 'failed' && (run.error ?? `Failed after ${formatDuration(run.durationMs ?? 0)}`)}
+          {run.status === 'cancelled' && 'Cancelled'}
+        </span>
+        {report.issues.length > 0 && (
+          <span
+            className={`inline-flex items-center gap-1 text-xs ${report.valid ? 'text-amber-700' : 'text-red-700'}`}
+            title={report.issues.map(issue => issue.message).join('\n')}
+          >
+            <TriangleAlert className="size-3.5" />
+            {report.issues.length}
+          </span>
+        )}
+      </div>
+
+      {/* Frame or subflow title editor */}
+      {titleEditor && (() => {
+        const anchor = getTitleEditorAnchor(titleEditor);
+        if (!anchor) return null;
+        return (
+          <input
+            autoFocus
+            aria-label={titleEditor.target === 'frame' ? 'Frame title' : 'Subflow title'}
+            className="absolute z-40 w-40 -translate-x-1/2 -translate-y-1/2 rounded border border-gray-300 bg-white px-2 py-1 text-xs text-gray-900 shadow-[0px_2px_4px_0px_rgba(0,0,0,0.05)] focus:outline-none focus:ring-2 focus:ring-blue-500"
+            style={{
+              left: anchor.x * viewport.zoom + viewport.x,
+              top: anchor.y * viewport.zoom + viewport.y
+            }}
+            value={titleEditor.value}
+            onChange={(e) => setTitleEditor({ ...titleEditor, value: e.target.value })}
+            onFocus={(e) => e.currentTarget.select()}
+            onBlur={commitTitleEditor}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.currentTarget.blur();
+              } else if (e.key === 'Escape') {
+                discardTitleRef.current = true;
+                e.currentTarget.blur();
+              }
+            }}
+            onPointerDown={(e) => e.stopPropagation()}
+            onPointerUp={(e) => e.stopPropagation()}
+          />
+        );
+      })()}
+
+      {/* Where in the subflows the canvas is, with the way back out */}
+      {level !== null && (
+        <nav
+          aria-label="Subflows"
+          className="absolute top-16 left-4 z-20 flex items-center gap-1 rounded-lg border border-gray-200 bg-white p-1 text-xs shadow-[0px_2px_4px_0px_rgba(0,0,0,0.05)]"
+          onPointerDown={(e) => e.stopPropagation()}
+        >
+          <button className="rounded px-2 py-1 text-gray-700 hover:bg-gray-100" onClick={() => leaveSubflow(null)}>
+            Workflow
+          </button>
+          {getSubflowPath(graph, level).map((subflow, index, path) => (
+            <React.Fragment key={subflow.id}>
+              <ChevronRight className="size-3 text-muted-foreground" />
+              {index === path.length - 1 ? (
+                <span className="px-2 py-1 font-medium text-gray-900" aria-current="location">{subflow.title}</span>
+              ) : (
+                <button className="rounded px-2 py-1 text-gray-700 hover:bg-gray-100" onClick={() => leaveSubflow(subflow.id)}>
+                  {subflow.title}
+                </button>
+              )}
+            </React.Fragment>
+          ))}
+        </nav>
+      )}
+
+      {/* Run Details, or otherwise the Inspector for a single selected node */}
+      {runDetailsNodeId && run.nodes[runDetailsNodeId] ? (() => {
+        const node = getNodeById(runDetailsNodeId);
+        return (
+          <RunDetailsPanel
+            title={node?.title ?? runDetailsNodeId}
+            description={node ? getNodeLabel(node) : undefined}
+            result={run.nodes[runDetailsNodeId]}
+            onClose={() => setRunDetailsNodeId(null)}
+          />
+        );
+      })() : selectedNodeIds.size === 1 && (() => {
+        const node = getNodeById(Array.from(selectedNodeIds)[0]);
+        if (!node || node.type === SUBFLOW_NODE_TYPE) return null;
+        return (
+          <NodeInspector
+            key={node.id}
+            node={node}
+            definition={getNodeType(node.type)}
+            onChange={(edit, commit) => handleNodeEdit(node.id, edit, commit)}
+            onClose={() => setSelectedNodeIds(new Set())}
+          />
+        );
+      })()}
+
+      {/* Context Menu */}
+      {contextMenu && (
+        <ContextMenu
+          left={contextMenu.left}
+          top={contextMenu.top}
+          items={getContextMenuItems(contextMenu)}
+          onClose={closeContextMenu}
+        />
+      )}
+
+      {/* Marquee Selection */}
+      {marquee && (
+        <div
+          className="absolute z-20 border border-blue-500 bg-blue-500/10 pointer-events-none"
+          style={{
+            left: Math.min(marquee.startX, marquee.currentX) * viewport.zoom + viewport.x,
+            top: Math.min(marquee.startY, marquee.currentY) * viewport.zoom + viewport.y,
+            width: Math.abs(marquee.currentX - marquee.startX) * viewport.zoom,
+            height: Math.abs(marquee.currentY - marquee.startY) * viewport.zoom
+          }}
+        />
+      )}
+
+      {/* Align and distribute the selection */}
+      {selectedNodeIds.size > 1 && (
+        <div
+          role="toolbar"
+          aria-label="Selected nodes"
+          className="absolute top-4 left-1/2 z-20 flex -translate-x-1/2 items-center gap-1 rounded-lg border border-gray-200 bg-white p-1 shadow-[0px_2px_4px_0px_rgba(0,0,0,0.05)]"
+          onPointerDown={(e) => e.stopPropagation()}
+        >
+          {ALIGN_ACTIONS.map(({ edge, label, icon: Icon }) => (
+            <button
+              key={edge}
+              className="p-1.5 rounded text-gray-700 hover:bg-gray-100"
+              onClick={() => alignSelection(edge, label)}
+              aria-label={label}
+            >
+              <Icon className="size-4" />
+            </button>
+          ))}
+          <div className="mx-1 h-5 w-px bg-gray-200" />
+          <button
+            className="p-1.5 rounded text-gray-700 hover:bg-gray-100 disabled:opacity-40 disabled:hover:bg-transparent"
+            onClick={() => distributeSelection('horizontal', 'Space out horizontally')}
+            disabled={selectedNodeIds.size < 3}
+            aria-label="Space out horizontally"
+          >
+            <AlignHorizontalDistributeCenter className="size-4" />
+          </button>
+          <button
+            className="p-1.5 rounded text-gray-700 hover:bg-gray-100 disabled:opacity-40 disabled:hover:bg-transparent"
+            onClick={() => distributeSelection('vertical', 'Space out vertically')}
+            disabled={selectedNodeIds.size < 3}
+            aria-label="Space out vertically"
+          >
+            <AlignVerticalDistributeCenter className="size-4" />
+          </button>
+          <div className="mx-1 h-5 w-px bg-gray-200" />
+          <button
+            className="p-1.5 rounded text-gray-700 hover:bg-gray-100"
+            onClick={frameSelection}
+            aria-label="Frame selection"
+          >
+            <Frame className="size-4" />
+          </button>
+          <button
+            className="p-1.5 rounded text-gray-700 hover:bg-gray-100"
+            onClick={collapseSelection}
+            aria-label="Collapse into subflow"
+          >
+            <Group className="size-4" />
+          </button>
+        </div>
+      )}
+
+      {/* Who else is editing, or why changes aren't reaching them right now */}
+      {sharingStatus !== 'local' && (
+        <div
+          role="status"
+          className="absolute bottom-4 left-4 z-20 flex items-center gap-2 rounded-lg border border-gray-200 bg-white px-3 py-1.5 text-xs text-gray-700 shadow-[0px_2px_4px_0px_rgba(0,0,0,0.05)]"
+          onPointerDown={(e) => e.stopPropagation()}
+        >
+          {sharingStatus === 'online' && (
+            <>
+              <span className="size-2 rounded-full bg-green-500" />
+              {peers.length === 0 ? 'Live' : 'Live with'}
+              {peers.map(peer => (
+                <span
+                  key={peer.clientId}
+                  className="inline-flex size-5 items-center justify-center rounded-full text-[10px] font-medium text-white"
+                  style={{ backgroundColor: peer.color }}
+                  title={peer.name}
+                  aria-label={peer.name}
+                >
+                  {peer.name.slice(0, 1).toUpperCase()}
+                </span>
+              ))}
+            </>
+          )}
+          {sharingStatus === 'connecting' && 'Connecting…'}
+          {sharingStatus === 'offline' && (
+            <>
+              <CloudOff className="size-3.5 text-muted-foreground" />
+              Offline. Your changes will be merged when you reconnect.
+            </>
+          )}
+        </div>
+      )}
+
+      {/* Zoom Controls */}
+      <div
+        className="absolute bottom-4 right-4 z-20 flex items-center gap-1 rounded-lg border border-gray-200 bg-white p-1 shadow-[0px_2px_4px_0px_rgba(0,0,0,0.05)]"
+        onPointerDown={(e) => e.stopPropagation()}
+      >
+        <button
+          className="p-1.5 rounded text-gray-700 hover:bg-gray-100"
+          onClick={() => zoomAroundCenter(1 / 1.2)}
+          aria-label="Zoom out"
+        >
+          <ZoomOut className="size-4" />
+        </button>
+        <span className="w-12 text-center text-xs text-gray-700 font-['IBM_Plex_Mono'] tabular-nums">
+          {Math.round(viewport.zoom * 100)}%
+        </span>
+        <button
+          className="p-1.5 rounded text-gray-700 hover:bg-gray-100"
+          onClick={() => zoomAroundCenter(1.2)}
+          aria-label="Zoom in"
+        >
+          <ZoomIn className="size-4" />
+        </button>
+        <button
+          className="p-1.5 rounded text-gray-700 hover:bg-gray-100"
+          onClick={handleZoomToFit}
+          aria-label="Zoom to fit"
+        >
+          <Maximize className="size-4" />
+        </button>
+        <button
+          className="p-1.5 rounded text-gray-700 hover:bg-gray-100"
+          onClick={() => arrangeNodes(selectedNodeIds.size > 1 ? selectedNodeIds : undefined)}
+          aria-label={selectedNodeIds.size > 1 ? 'Arrange selected nodes' : 'Auto-arrange'}
+        >
+          <Network className="size-4" />
+        </button>
+        <button
+          className={`p-1.5 rounded hover:bg-gray-100 ${snapToGrid ? 'bg-gray-100 text-blue-600' : 'text-gray-700'}`}
+          onClick={() => setSnapToGrid(snap => !snap)}
+          aria-label="Snap to grid"
+          aria-pressed={snapToGrid}
+        >
+          <Grid3x3 className="size-4" />
+        </button>
+        <select
+          className="ml-1 rounded border-none bg-transparent py-1 pl-1 text-xs text-gray-700 hover:bg-gray-100 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+          value={wireStyle}
+          onChange={(e) => changeWireStyle(e.target.value as WireStyle)}
+          aria-label="Wire style"
+        >
+          {WIRE_STYLE_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
       </div>
     </div>
   );
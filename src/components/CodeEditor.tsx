@@ -0,0 +1,47 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import CodeMirror, { EditorView } from '@uiw/react-codemirror';
+import { javascript } from '@codemirror/lang-javascript';
+import { json } from '@codemirror/lang-json';
+import type { CodeLanguage } from '@/lib/nodeTypes';
+
+interface CodeEditorProps {
+  value: string;
+  language: CodeLanguage;
+  invalid?: boolean;
+  onChange: (value: string) => void;
+  onBlur?: () => void;
+}
+
+const editorTheme = EditorView.theme({
+  '&': { fontSize: '12px' },
+  '.cm-content, .cm-gutters': { fontFamily: 'var(--font-ibm-plex-mono), monospace' },
+  '.cm-gutters': { backgroundColor: '#f9fafb', borderRight: '1px solid #e5e7eb' },
+  '&.cm-focused': { outline: 'none' }
+});
+
+const CodeEditor: React.FC<CodeEditorProps> = ({ value, language, invalid = false, onChange, onBlur }) => {
+  const extensions = useMemo(() => [
+    language === 'json' ? json() : javascript({ typescript: language === 'typescript' }),
+    EditorView.lineWrapping,
+    editorTheme
+  ], [language]);
+
+  return (
+    <CodeMirror
+      className={`overflow-hidden rounded-md border focus-within:ring-2 ${
+        invalid ? 'border-red-300 focus-within:ring-red-500/30' : 'border-gray-200 focus-within:ring-blue-500/30'
+      }`}
+      value={value}
+      extensions={extensions}
+      minHeight="96px"
+      maxHeight="320px"
+      basicSetup={{ foldGutter: false, highlightActiveLine: false }}
+      onChange={onChange}
+      onBlur={onBlur}
+    />
+  );
+};
+
+export default CodeEditor;
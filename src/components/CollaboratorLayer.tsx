@@ -0,0 +1,110 @@
+'use client';
+
+import React from 'react';
+import { getNodeBounds, getRestingShape } from '@/lib/geometry';
+import type { Peer } from '@/lib/collab/presence';
+import type { NodeData } from '@/lib/workflow/types';
+
+interface CollaboratorLayerProps {
+  // Everyone else looking at the same level as this canvas
+  peers: Peer[];
+  // The nodes drawn at this level, to outline what others select and drag
+  nodesById: ReadonlyMap<string, NodeData>;
+  // Cursors and names keep their size whatever the zoom
+  scale: number;
+}
+
+// Gap between a node and the outline of someone else's selection
+const SELECTION_INSET = 4;
+
+// Others' selections, drags in progress and cursors, in world coordinates.
+// Place inside the canvas' transformed content.
+const CollaboratorLayer: React.FC<CollaboratorLayerProps> = ({ peers, nodesById, scale }) => (
+  <>
+    <svg
+      className="absolute top-0 left-0 w-full h-full pointer-events-none"
+      style={{ overflow: 'visible', zIndex: 20 }}
+      aria-hidden
+    >
+      {peers.map(peer => (
+        <g key={peer.clientId} stroke={peer.color} fill="none">
+          {peer.selection.map(id => {
+            const node = nodesById.get(id);
+            if (!node) return null;
+            const bounds = getNodeBounds(node, getRestingShape(node));
+            return (
+              <rect
+                key={id}
+                x={bounds.minX - SELECTION_INSET}
+                y={bounds.minY - SELECTION_INSET}
+                width={bounds.maxX - bounds.minX + 2 * SELECTION_INSET}
+                height={bounds.maxY - bounds.minY + 2 * SELECTION_INSET}
+                rx="6"
+                strokeWidth="2"
+                vectorEffect="non-scaling-stroke"
+              />
+            );
+          })}
+          {/* Where their dragged nodes are right now, until they drop them */}
+          {peer.moving.map(({ id, x, y }) => {
+            const node = nodesById.get(id);
+            if (!node) return null;
+            const bounds = getNodeBounds({ x, y }, getRestingShape(node));
+            return (
+              <rect
+                key={id}
+                x={bounds.minX}
+                y={bounds.minY}
+                width={bounds.maxX - bounds.minX}
+                height={bounds.maxY - bounds.minY}
+                rx="4"
+                fill={peer.color}
+                fillOpacity="0.1"
+                strokeWidth="1.5"
+                strokeDasharray="4 3"
+                vectorEffect="non-scaling-stroke"
+              />
+            );
+          })}
+          {peer.wire && (
+            <line
+              x1={peer.wire.from.x}
+              y1={peer.wire.from.y}
+              x2={peer.wire.to.x}
+              y2={peer.wire.to.y}
+              strokeWidth="2"
+              strokeDasharray="6 4"
+              vectorEffect="non-scaling-stroke"
+            />
+          )}
+        </g>
+      ))}
+    </svg>
+
+    {peers.map(peer => peer.cursor && (
+      <div
+        key={peer.clientId}
+        className="absolute pointer-events-none"
+        style={{
+          left: peer.cursor.x,
+          top: peer.cursor.y,
+          zIndex: 30,
+          transform: `scale(${1 / scale})`,
+          transformOrigin: '0 0'
+        }}
+      >
+        <svg width="16" height="20" viewBox="0 0 16 20" aria-hidden>
+          <path d="M1 1 L1 17 L5.5 13 L8.5 19 L11 18 L8 12 L14 12 Z" fill={peer.color} stroke="white" strokeWidth="1.5" />
+        </svg>
+        <span
+          className="absolute left-4 top-4 whitespace-nowrap rounded px-1.5 py-0.5 text-xs font-medium text-white"
+          style={{ backgroundColor: peer.color }}
+        >
+          {peer.name}
+        </span>
+      </div>
+    ))}
+  </>
+);
+
+export default CollaboratorLayer;
@@ -1,94 +1,147 @@
 'use client';
 
-import React from 'react';
+import React, { memo, useState } from 'react';
+import type { Point } from '@/lib/geometry';
+
+type WireColor = 'gray' | 'blue' | 'red';
+
+const STROKE_COLORS: Record<WireColor, string> = {
+  gray: '#6b7280',
+  blue: '#3b82f6',
+  red: '#ef4444'
+};
+
+const markerId = (color: WireColor) => `wire-arrowhead-${color}`;
 
 interface ConnectionProps {
-  startX: number;
-  startY: number;
-  endX: number;
-  endY: number;
+  // Set on established wires so events can be traced back to them
+  id?: string;
+  // SVG path data in world coordinates, see `routeWires`
+  path: string;
+  // Text drawn at `midpoint`
+  caption?: string;
+  midpoint?: Point;
   isDragging?: boolean;
+  isSelected?: boolean;
+  // A value is flowing along this wire during a run
+  isActive?: boolean;
+  // Drag preview over a target the wire is not allowed to connect to
+  isInvalid?: boolean;
   showArrow?: boolean;
+  // Read out by screen readers; unlabelled wires (the drag preview) are hidden from them
+  label?: string;
+  // Makes the wire pressable along its whole length; without it, it ignores the pointer.
+  // Handlers get the wire's id so the parent can pass the same function to every wire.
+  onPointerDown?: (id: string, event: React.PointerEvent) => void;
+  onDoubleClick?: (id: string) => void;
 }
 
-const Connection: React.FC<ConnectionProps> = ({ 
-  startX, 
-  startY, 
-  endX, 
-  endY, 
-  isDragging = false, 
-  showArrow = true 
-}) => {
-  // Calculate the path with proper curve direction
-  const generatePath = () => {
-    const horizontalDistance = Math.abs(endX - startX);
-    const isUpward = endY < startY;
-    const cornerRadius = 8;
-    
-    // Calculate the turn point (50% of horizontal distance)
-    const turnX = startX + horizontalDistance * 0.5;
-    
-    if (isUpward) {
-      // For upward connections: go right, curve up, go up, curve right, go right
-      return `
-        M ${startX} ${startY}
-        L ${turnX - cornerRadius} ${startY}
-        Q ${turnX} ${startY} ${turnX} ${startY - cornerRadius}
-        L ${turnX} ${endY + cornerRadius}
-        Q ${turnX} ${endY} ${turnX + cornerRadius} ${endY}
-        L ${endX} ${endY}
-      `;
-    } else {
-      // For downward connections: go right, curve down, go down, curve right, go right
-      return `
-        M ${startX} ${startY}
-        L ${turnX - cornerRadius} ${startY}
-        Q ${turnX} ${startY} ${turnX} ${startY + cornerRadius}
-        L ${turnX} ${endY - cornerRadius}
-        Q ${turnX} ${endY} ${turnX + cornerRadius} ${endY}
-        L ${endX} ${endY}
-      `;
-    }
-  };
+// Width of the invisible band around a wire that catches presses
+const HIT_WIDTH = 12;
+
+// Arrowheads shared by every wire. Render once inside the SVG layer that holds
+// the wires.
+export const ConnectionMarkers: React.FC = () => (
+  <defs>
+    {(Object.keys(STROKE_COLORS) as WireColor[]).map(color => (
+      <marker
+        key={color}
+        id={markerId(color)}
+        markerWidth="6"
+        markerHeight="6"
+        refX="3"
+        refY="3"
+        orient="auto"
+        markerUnits="strokeWidth"
+      >
+        {/* Triangle shape matching node triangles - scaled to proper size */}
+        <path d="M 2 0 L 2 6 L 6 3 Z" fill={STROKE_COLORS[color]} />
+      </marker>
+    ))}
+  </defs>
+);
 
-  const strokeColor = isDragging ? "#3b82f6" : "#6b7280";
+// One wire, drawn into the canvas' shared SVG layer. Memoized: with stable
+// props a wire only redraws when its own route or state changes.
+const Connection: React.FC<ConnectionProps> = ({
+  id,
+  path,
+  caption,
+  midpoint,
+  isDragging = false,
+  isSelected = false,
+  isActive = false,
+  isInvalid = false,
+  showArrow = true,
+  label,
+  onPointerDown,
+  onDoubleClick
+}) => {
+  const [isHovered, setIsHovered] = useState(false);
+  const isHighlighted = isDragging || isSelected || isActive;
+  const color: WireColor = isInvalid ? 'red' : isHighlighted ? 'blue' : 'gray';
+  const strokeColor = STROKE_COLORS[color];
 
   return (
-    <svg 
-      className="absolute top-0 left-0 w-full h-full pointer-events-none" 
-      style={{ overflow: 'visible', zIndex: 0 }}
+    <g
+      role={label ? 'img' : undefined}
+      aria-label={label}
+      aria-hidden={label ? undefined : true}
     >
-      {showArrow && (
-        <defs>
-          <marker
-            id={`arrowhead-${isDragging ? 'blue' : 'gray'}`}
-            markerWidth="6"
-            markerHeight="6"
-                          refX="3"
-            refY="3"
-            orient="auto"
-            markerUnits="strokeWidth"
-          >
-            {/* Triangle shape matching node triangles - scaled to proper size */}
-            <path
-              d="M 2 0 L 2 6 L 6 3 Z"
-              fill={strokeColor}
-            />
-          </marker>
-        </defs>
+      {isHovered && !isHighlighted && (
+        <path d={path} stroke="#bfdbfe" strokeWidth="6" fill="none" strokeLinecap="round" />
       )}
-      
+
       <path
-        d={generatePath()}
+        d={path}
         stroke={strokeColor}
         strokeWidth="2"
         strokeOpacity="0.8"
         fill="none"
         strokeLinecap="round"
-        markerEnd={showArrow ? `url(#arrowhead-${isDragging ? 'blue' : 'gray'})` : undefined}
+        strokeDasharray={isActive ? '6 6' : undefined}
+        className={isActive ? 'animate-[wire-flow_0.5s_linear_infinite]' : undefined}
+        markerEnd={showArrow ? `url(#${markerId(color)})` : undefined}
       />
-    </svg>
+
+      {caption && midpoint && (
+        <text
+          x={midpoint.x}
+          y={midpoint.y}
+          textAnchor="middle"
+          dominantBaseline="middle"
+          fontSize="11"
+          fill={strokeColor}
+          // A halo in the canvas colour keeps the text readable over the wire
+          stroke="#f9fafb"
+          strokeWidth="4"
+          paintOrder="stroke"
+          className="font-['IBM_Plex_Mono']"
+        >
+          {caption}
+        </text>
+      )}
+
+      {id && onPointerDown && (
+        <g
+          data-connection-id={id}
+          className="cursor-pointer"
+          pointerEvents="all"
+          onPointerDown={(e) => onPointerDown(id, e)}
+          onDoubleClick={() => onDoubleClick?.(id)}
+          onPointerEnter={(e) => {
+            if (e.pointerType !== 'touch') setIsHovered(true);
+          }}
+          onPointerLeave={() => setIsHovered(false)}
+        >
+          <path d={path} stroke="transparent" strokeWidth={HIT_WIDTH} fill="none" pointerEvents="stroke" />
+          {caption && midpoint && (
+            <circle cx={midpoint.x} cy={midpoint.y} r={HIT_WIDTH} fill="transparent" />
+          )}
+        </g>
+      )}
+    </g>
   );
 };
 
-export default Connection; 
\ No newline at end of file
+export default memo(Connection);
@@ -0,0 +1,114 @@
+'use client';
+
+import React, { useEffect, useId, useRef } from 'react';
+
+export interface ConnectionPickerOption {
+  id: string;
+  label: string;
+  // Shown under the label, e.g. a duplicate-wire warning
+  hint?: string;
+}
+
+interface ConnectionPickerProps {
+  title: string;
+  options: ConnectionPickerOption[];
+  activeIndex: number;
+  // Screen position of the picker's top-left corner
+  left: number;
+  top: number;
+  onActiveChange: (index: number) => void;
+  onPick: (index: number) => void;
+  onCancel: () => void;
+}
+
+// Keyboard stand-in for dragging a wire: a listbox of the inputs the wire can
+// go to. Focus stays on the list and the active option is tracked with
+// aria-activedescendant, so the arrow keys never leave it.
+const ConnectionPicker: React.FC<ConnectionPickerProps> = ({
+  title,
+  options,
+  activeIndex,
+  left,
+  top,
+  onActiveChange,
+  onPick,
+  onCancel
+}) => {
+  const listRef = useRef<HTMLDivElement>(null);
+  const baseId = useId();
+  const optionId = (index: number) => `${baseId}-option-${index}`;
+
+  useEffect(() => {
+    listRef.current?.focus();
+  }, []);
+
+  useEffect(() => {
+    document.getElementById(optionId(activeIndex))?.scrollIntoView({ block: 'nearest' });
+  });
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    // The canvas listens on window for shortcuts; none of them apply in here
+    event.stopPropagation();
+
+    if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      onActiveChange((activeIndex + 1) % options.length);
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      onActiveChange((activeIndex - 1 + options.length) % options.length);
+    } else if (event.key === 'Home') {
+      event.preventDefault();
+      onActiveChange(0);
+    } else if (event.key === 'End') {
+      event.preventDefault();
+      onActiveChange(options.length - 1);
+    } else if (event.key === 'Enter' || event.key === ' ') {
+      event.preventDefault();
+      onPick(activeIndex);
+    } else if (event.key === 'Escape' || event.key === 'Tab') {
+      event.preventDefault();
+      onCancel();
+    }
+  };
+
+  return (
+    <div
+      className="absolute z-40 w-64 rounded-lg border border-gray-200 bg-white py-1 shadow-[0px_2px_4px_0px_rgba(0,0,0,0.05)]"
+      style={{ left, top }}
+      onPointerDown={(e) => e.stopPropagation()}
+      onPointerUp={(e) => e.stopPropagation()}
+    >
+      <div className="px-3 py-1.5 text-[10px] font-medium font-['IBM_Plex_Mono'] uppercase tracking-wide text-muted-foreground">
+        {title}
+      </div>
+      <div
+        ref={listRef}
+        role="listbox"
+        tabIndex={0}
+        aria-label={title}
+        aria-activedescendant={optionId(activeIndex)}
+        className="max-h-60 overflow-y-auto focus:outline-none"
+        onKeyDown={handleKeyDown}
+      >
+        {options.map((option, index) => (
+          <div
+            key={option.id}
+            id={optionId(index)}
+            role="option"
+            aria-selected={index === activeIndex}
+            className={`cursor-pointer px-3 py-1.5 text-sm ${index === activeIndex ? 'bg-blue-50 text-blue-900' : 'text-gray-900'}`}
+            // Keep focus on the list so keyboard use can carry on after a hover
+            onMouseDown={(e) => e.preventDefault()}
+            onMouseEnter={() => onActiveChange(index)}
+            onClick={() => onPick(index)}
+          >
+            {option.label}
+            {option.hint && <div className="text-xs text-amber-700">{option.hint}</div>}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ConnectionPicker;
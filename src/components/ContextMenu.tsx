@@ -0,0 +1,81 @@
+'use client';
+
+import React, { useEffect, useRef } from 'react';
+
+export interface ContextMenuItem {
+  label: string;
+  onSelect: () => void;
+  destructive?: boolean;
+}
+
+interface ContextMenuProps {
+  items: ContextMenuItem[];
+  // Position relative to the canvas
+  left: number;
+  top: number;
+  onClose: () => void;
+}
+
+// Actions for whatever was long-pressed or right-clicked. Closes on a press
+// anywhere else, on Escape, and once an item is chosen.
+const ContextMenu: React.FC<ContextMenuProps> = ({ items, left, top, onClose }) => {
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    menuRef.current?.querySelector<HTMLElement>('[role="menuitem"]')?.focus();
+
+    const handlePointerDown = (event: PointerEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) onClose();
+    };
+    // Capture phase, so presses the canvas stops from propagating still count
+    document.addEventListener('pointerdown', handlePointerDown, true);
+    return () => document.removeEventListener('pointerdown', handlePointerDown, true);
+  }, [onClose]);
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    event.stopPropagation();
+    const menuItems = Array.from(menuRef.current?.querySelectorAll<HTMLElement>('[role="menuitem"]') ?? []);
+    const index = menuItems.indexOf(document.activeElement as HTMLElement);
+
+    if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      menuItems[(index + 1) % menuItems.length]?.focus();
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      menuItems[(index - 1 + menuItems.length) % menuItems.length]?.focus();
+    } else if (event.key === 'Escape' || event.key === 'Tab') {
+      event.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      ref={menuRef}
+      role="menu"
+      className="absolute z-40 min-w-40 rounded-lg border border-gray-200 bg-white py-1 shadow-[0px_2px_4px_0px_rgba(0,0,0,0.05)]"
+      style={{ left, top }}
+      onPointerDown={(e) => e.stopPropagation()}
+      onPointerUp={(e) => e.stopPropagation()}
+      onKeyDown={handleKeyDown}
+    >
+      {items.map(item => (
+        <button
+          key={item.label}
+          role="menuitem"
+          className={`block w-full px-3 py-2 text-left text-sm hover:bg-gray-100 focus:bg-gray-100 focus:outline-none pointer-coarse:py-3 ${
+            item.destructive ? 'text-red-600' : 'text-gray-900'
+          }`}
+          onClick={() => {
+            onClose();
+            item.onSelect();
+          }}
+        >
+          {item.label}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default ContextMenu;
@@ -0,0 +1,44 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+
+// Frames per second and the slowest frame of the last second, for eyeballing
+// how the canvas copes with a large graph
+const FrameRateMeter: React.FC = () => {
+  const [stats, setStats] = useState<{ fps: number; worstMs: number } | null>(null);
+
+  useEffect(() => {
+    let frame = 0;
+    let frames = 0;
+    let worst = 0;
+    let windowStart = performance.now();
+    let last = windowStart;
+
+    const tick = (now: number) => {
+      frames += 1;
+      worst = Math.max(worst, now - last);
+      last = now;
+      if (now - windowStart >= 1000) {
+        setStats({ fps: Math.round((frames * 1000) / (now - windowStart)), worstMs: Math.round(worst) });
+        frames = 0;
+        worst = 0;
+        windowStart = now;
+      }
+      frame = requestAnimationFrame(tick);
+    };
+
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, []);
+
+  return (
+    <div
+      className="fixed bottom-4 left-1/2 z-50 -translate-x-1/2 rounded-lg border border-gray-200 bg-white px-3 py-1.5 text-xs text-gray-700 font-['IBM_Plex_Mono'] tabular-nums shadow-[0px_2px_4px_0px_rgba(0,0,0,0.05)]"
+      aria-live="off"
+    >
+      {stats ? `${stats.fps} fps · slowest frame ${stats.worstMs} ms` : 'Measuring…'}
+    </div>
+  );
+};
+
+export default FrameRateMeter;
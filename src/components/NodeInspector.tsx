@@ -0,0 +1,240 @@
+'use client';
+
+import React, { useState } from 'react';
+import dynamic from 'next/dynamic';
+import { Plus, Trash2, X } from 'lucide-react';
+import { validateNodeConfig, type ConfigFieldSchema, type NodeTypeDefinition } from '@/lib/nodeTypes';
+import type { NodeEdit } from '@/lib/workflow/commands';
+import type { NodeConfig, NodeData } from '@/lib/workflow/types';
+
+// CodeMirror touches the DOM as soon as it loads, and most nodes never need it
+const CodeEditor = dynamic(() => import('./CodeEditor'), {
+  ssr: false,
+  loading: () => <div className="h-24 rounded-md border border-gray-200 bg-gray-50" />
+});
+
+interface NodeInspectorProps {
+  node: NodeData;
+  // Undefined when the node's type isn't registered; only the title is editable then
+  definition?: NodeTypeDefinition;
+  // `commit: false` while typing (the change is shown but not yet an undo step),
+  // `true` once the edit is done: on blur, or straight away for selects and toggles
+  onChange: (edit: NodeEdit, commit: boolean) => void;
+  onClose: () => void;
+}
+
+interface FieldProps {
+  field: ConfigFieldSchema;
+  value: unknown;
+  // The whole config, for fields that depend on a sibling
+  config: NodeConfig;
+  invalid: boolean;
+  onChange: (value: unknown, commit: boolean) => void;
+  onCommit: () => void;
+}
+
+const inputClass = (invalid: boolean) =>
+  `w-full rounded-md border bg-white px-2 py-1 text-sm text-gray-900 focus:outline-none focus:ring-2 ${
+    invalid ? 'border-red-300 focus:ring-red-500/30' : 'border-gray-200 focus:ring-blue-500/30'
+  }`;
+
+// Name/value rows. Kept locally so a half-typed or repeated name doesn't
+// collapse rows while editing; the config gets the rows as an object.
+const KeyValueField: React.FC<FieldProps> = ({ value, invalid, onChange, onCommit }) => {
+  const [rows, setRows] = useState<[string, string][]>(() =>
+    typeof value === 'object' && value !== null ? Object.entries(value as Record<string, string>) : []
+  );
+  const names = rows.map(([name]) => name);
+  const hasDuplicates = new Set(names).size !== names.length;
+
+  const update = (next: [string, string][], commit: boolean) => {
+    setRows(next);
+    onChange(Object.fromEntries(next), commit);
+  };
+
+  return (
+    <div className="space-y-1.5">
+      {rows.map(([name, entry], index) => (
+        <div key={index} className="flex items-center gap-1.5">
+          <input
+            className={inputClass(invalid || (hasDuplicates && names.indexOf(name) !== index))}
+            placeholder="Name"
+            value={name}
+            onChange={(e) => update(rows.map((row, i) => (i === index ? [e.target.value, row[1]] : row)), false)}
+            onBlur={onCommit}
+          />
+          <input
+            className={inputClass(false)}
+            placeholder="Value"
+            value={entry}
+            onChange={(e) => update(rows.map((row, i) => (i === index ? [row[0], e.target.value] : row)), false)}
+            onBlur={onCommit}
+          />
+          <button
+            className="p-1 rounded text-gray-700 hover:bg-gray-100"
+            onClick={() => update(rows.filter((_, i) => i !== index), true)}
+            aria-label="Remove entry"
+          >
+            <Trash2 className="size-3.5" />
+          </button>
+        </div>
+      ))}
+      {hasDuplicates && <p className="text-xs text-red-600">Names must be unique; later entries win</p>}
+      <button
+        className="inline-flex items-center gap-1 rounded px-1.5 py-1 text-xs text-gray-700 hover:bg-gray-100"
+        onClick={() => update([...rows, ['', '']], false)}
+      >
+        <Plus className="size-3.5" />
+        Add entry
+      </button>
+    </div>
+  );
+};
+
+const ConfigField: React.FC<FieldProps> = (props) => {
+  const { field, value, config, invalid, onChange, onCommit } = props;
+
+  switch (field.kind) {
+    case 'text':
+      return (
+        <input
+          className={inputClass(invalid)}
+          placeholder={field.placeholder}
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => onChange(e.target.value, false)}
+          onBlur={onCommit}
+        />
+      );
+    case 'number':
+      return (
+        <input
+          type="number"
+          className={inputClass(invalid)}
+          min={field.min}
+          max={field.max}
+          step={field.step}
+          value={typeof value === 'number' ? value : ''}
+          // An emptied box clears the value rather than storing NaN
+          onChange={(e) => onChange(e.target.value === '' ? undefined : e.target.valueAsNumber, false)}
+          onBlur={onCommit}
+        />
+      );
+    case 'select':
+      return (
+        <select
+          className={inputClass(invalid)}
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => onChange(e.target.value, true)}
+        >
+          {value === undefined && <option value="">Choose…</option>}
+          {field.options.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      );
+    case 'toggle':
+      return (
+        <button
+          role="switch"
+          aria-checked={value === true}
+          className={`relative h-5 w-9 rounded-full transition-colors ${value === true ? 'bg-blue-500' : 'bg-gray-300'}`}
+          onClick={() => onChange(value !== true, true)}
+        >
+          <span
+            className={`absolute top-0.5 left-0.5 size-4 rounded-full bg-white shadow transition-transform ${
+              value === true ? 'translate-x-4' : ''
+            }`}
+          />
+        </button>
+      );
+    case 'keyValue':
+      return <KeyValueField {...props} />;
+    case 'code': {
+      const picked = field.languageKey ? config[field.languageKey] : undefined;
+      return (
+        <CodeEditor
+          value={typeof value === 'string' ? value : ''}
+          language={picked === 'javascript' || picked === 'typescript' || picked === 'json' ? picked : field.language}
+          invalid={invalid}
+          onChange={(next) => onChange(next, false)}
+          onBlur={onCommit}
+        />
+      );
+    }
+  }
+};
+
+const NodeInspector: React.FC<NodeInspectorProps> = ({ node, definition, onChange, onClose }) => {
+  const errors = definition ? validateNodeConfig(definition.configSchema, node.config) : {};
+  // Errors only show once a field has been edited, so a fresh node isn't all red.
+  // The canvas remounts the inspector per node, which resets this.
+  const [touched, setTouched] = useState<Set<string>>(() => new Set());
+
+  const edit = (patch: Partial<NodeEdit>, commit: boolean) => {
+    onChange({ title: node.title, config: node.config, ...patch }, commit);
+  };
+
+  const setField = (key: string, value: unknown, commit: boolean) => {
+    setTouched(current => new Set(current).add(key));
+    const config = { ...node.config };
+    if (value === undefined) delete config[key];
+    else config[key] = value;
+    edit({ config }, commit);
+  };
+
+  return (
+    <div
+      className="absolute top-4 right-4 bottom-20 z-30 w-80 flex flex-col rounded-lg border border-gray-200 bg-white shadow-[0px_2px_4px_0px_rgba(0,0,0,0.05)]"
+      onPointerDown={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-start justify-between gap-2 px-4 py-3">
+        <div className="min-w-0 flex-1">
+          <div className="text-[10px] font-medium font-['IBM_Plex_Mono'] uppercase tracking-wide text-muted-foreground">
+            {definition?.title ?? node.type}
+          </div>
+          <input
+            className="mt-1 w-full rounded-md px-1 -mx-1 text-sm font-medium text-gray-900 hover:bg-gray-50 focus:bg-white focus:outline-none focus:ring-2 focus:ring-blue-500/30"
+            value={node.title}
+            aria-label="Node title"
+            onChange={(e) => edit({ title: e.target.value }, false)}
+            onBlur={() => edit({}, true)}
+          />
+        </div>
+        <button className="p-1 rounded text-gray-700 hover:bg-gray-100" onClick={onClose} aria-label="Close inspector">
+          <X className="size-4" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto border-t border-gray-200 px-4 py-3 space-y-4">
+        {!definition && (
+          <p className="text-xs text-muted-foreground">
+            The &ldquo;{node.type}&rdquo; node type isn&apos;t available, so its settings can&apos;t be edited.
+          </p>
+        )}
+        {definition?.configSchema.map(field => {
+          const error = touched.has(field.key) ? errors[field.key] : undefined;
+          return (
+            <div key={field.key}>
+              <label className="mb-1 block text-xs font-medium text-gray-700">
+                {field.label}
+                {field.required && <span className="text-red-600"> *</span>}
+              </label>
+              <ConfigField
+                field={field}
+                value={node.config[field.key]}
+                config={node.config}
+                invalid={!!error}
+                onChange={(value, commit) => setField(field.key, value, commit)}
+                onCommit={() => edit({}, true)}
+              />
+              {field.description && !error && <p className="mt-1 text-xs text-muted-foreground">{field.description}</p>}
+              {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default NodeInspector;
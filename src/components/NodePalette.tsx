@@ -0,0 +1,60 @@
+'use client';
+
+import React from 'react';
+import { useNodeTypes } from '@/hooks/useNodeTypes';
+import { NODE_TYPE_DRAG_MIME, type NodeTypeDefinition } from '@/lib/nodeTypes';
+
+const groupByCategory = (nodeTypes: NodeTypeDefinition[]) => {
+  const groups = new Map<string, NodeTypeDefinition[]>();
+  nodeTypes.forEach(nodeType => {
+    const category = nodeType.category ?? 'Other';
+    groups.set(category, [...(groups.get(category) ?? []), nodeType]);
+  });
+  return Array.from(groups.entries());
+};
+
+const NodePalette: React.FC = () => {
+  const nodeTypes = useNodeTypes();
+
+  const handleDragStart = (nodeTypeId: string, event: React.DragEvent) => {
+    event.dataTransfer.setData(NODE_TYPE_DRAG_MIME, nodeTypeId);
+    event.dataTransfer.effectAllowed = 'copy';
+  };
+
+  return (
+    <aside className="w-56 shrink-0 border-r border-gray-200 bg-white overflow-y-auto">
+      <div className="px-4 pt-4 pb-2 text-xs font-medium font-['IBM_Plex_Mono'] uppercase tracking-wide text-muted-foreground">
+        Nodes
+      </div>
+      {groupByCategory(nodeTypes).map(([category, types]) => (
+        <div key={category} className="px-2 pb-3">
+          <div className="px-2 py-1 text-xs text-muted-foreground">{category}</div>
+          {types.map(nodeType => {
+            const Icon = nodeType.icon;
+            return (
+              <div
+                key={nodeType.id}
+                draggable
+                onDragStart={(e) => handleDragStart(nodeType.id, e)}
+                className="flex items-center gap-3 rounded-md px-2 py-2 cursor-grab hover:bg-gray-50 active:cursor-grabbing select-none"
+                title={nodeType.description}
+              >
+                <div className="w-8 h-8 shrink-0 rounded-lg border border-gray-200 bg-white shadow-[0px_2px_4px_0px_rgba(0,0,0,0.05)] inline-flex justify-center items-center">
+                  <Icon className="size-4 text-gray-700" />
+                </div>
+                <div className="min-w-0">
+                  <div className="text-sm font-medium text-gray-900 truncate">{nodeType.title}</div>
+                  {nodeType.description && (
+                    <div className="text-xs text-muted-foreground truncate">{nodeType.description}</div>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      ))}
+    </aside>
+  );
+};
+
+export default NodePalette;
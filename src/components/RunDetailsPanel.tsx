@@ -0,0 +1,119 @@
+'use client';
+
+import React from 'react';
+import { X } from 'lucide-react';
+import { formatDuration } from '@/lib/format';
+import type { NodeRunResult } from '@/lib/execution/types';
+
+interface RunDetailsPanelProps {
+  title: string;
+  description?: string;
+  result: NodeRunResult;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<NodeRunResult['status'], string> = {
+  queued: 'bg-gray-100 text-gray-700',
+  running: 'bg-blue-100 text-blue-700',
+  succeeded: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+  cancelled: 'bg-amber-100 text-amber-700',
+  skipped: 'bg-gray-100 text-muted-foreground'
+};
+
+const formatValue = (value: unknown) => {
+  if (value === undefined) return 'undefined';
+  try {
+    return JSON.stringify(value, null, 2) ?? String(value);
+  } catch {
+    // Circular structures and the like
+    return String(value);
+  }
+};
+
+const Section: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="border-t border-gray-200 px-4 py-3">
+    <div className="mb-2 text-[10px] font-medium font-['IBM_Plex_Mono'] uppercase tracking-wide text-muted-foreground">
+      {label}
+    </div>
+    {children}
+  </div>
+);
+
+const RunDetailsPanel: React.FC<RunDetailsPanelProps> = ({ title, description, result, onClose }) => {
+  const inputEntries = Object.entries(result.inputs ?? {});
+
+  return (
+    <div
+      className="absolute top-4 right-4 bottom-20 z-30 w-80 flex flex-col rounded-lg border border-gray-200 bg-white shadow-[0px_2px_4px_0px_rgba(0,0,0,0.05)]"
+      onPointerDown={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-start justify-between gap-2 px-4 py-3">
+        <div className="min-w-0">
+          <div className="text-sm font-medium text-gray-900 truncate">{title}</div>
+          {description && <div className="text-xs text-muted-foreground truncate">{description}</div>}
+          <div className="mt-2 flex items-center gap-2">
+            <span className={`rounded px-1.5 py-0.5 text-[10px] font-medium font-['IBM_Plex_Mono'] uppercase ${STATUS_STYLES[result.status]}`}>
+              {result.status}
+            </span>
+            {result.durationMs !== undefined && (
+              <span className="text-xs text-muted-foreground">{formatDuration(result.durationMs)}</span>
+            )}
+          </div>
+        </div>
+        <button className="p-1 rounded text-gray-700 hover:bg-gray-100" onClick={onClose} aria-label="Close run details">
+          <X className="size-4" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto text-xs">
+        {result.error && (
+          <Section label="Error">
+            <pre className="whitespace-pre-wrap break-words text-red-700 font-['IBM_Plex_Mono']">{result.error}</pre>
+          </Section>
+        )}
+        {result.skippedReason && (
+          <Section label="Skipped">
+            <p className="text-gray-700">{result.skippedReason}</p>
+          </Section>
+        )}
+
+        <Section label="Inputs">
+          {inputEntries.length === 0 ? (
+            <p className="text-muted-foreground">No inputs</p>
+          ) : (
+            inputEntries.map(([inputId, value]) => (
+              <div key={inputId} className="mb-2 last:mb-0">
+                <div className="text-muted-foreground">{inputId}</div>
+                <pre className="mt-1 max-h-40 overflow-auto rounded bg-gray-50 p-2 font-['IBM_Plex_Mono']">{formatValue(value)}</pre>
+              </div>
+            ))
+          )}
+        </Section>
+
+        {result.status === 'succeeded' && (
+          <Section label="Output">
+            <pre className="max-h-60 overflow-auto rounded bg-gray-50 p-2 font-['IBM_Plex_Mono']">{formatValue(result.output)}</pre>
+          </Section>
+        )}
+
+        <Section label="Logs">
+          {result.logs.length === 0 ? (
+            <p className="text-muted-foreground">No log output</p>
+          ) : (
+            <ul className="space-y-1 font-['IBM_Plex_Mono']">
+              {result.logs.map((entry, index) => (
+                <li key={index} className={entry.level === 'error' ? 'text-red-700' : entry.level === 'warn' ? 'text-amber-700' : 'text-gray-700'}>
+                  <span className="text-muted-foreground">{new Date(entry.timestamp).toLocaleTimeString()} </span>
+                  {entry.message}
+                </li>
+              ))}
+            </ul>
+          )}
+        </Section>
+      </div>
+    </div>
+  );
+};
+
+export default RunDetailsPanel;
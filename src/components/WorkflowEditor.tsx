@@ -0,0 +1,291 @@
+'use client';
+
+import React, { useCallback, useMemo, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Download, Save, Upload, X } from 'lucide-react';
+import Canvas from './Canvas';
+import NodePalette from './NodePalette';
+import { Button } from '@/components/ui/button';
+import {
+  createRemoteWorkflow,
+  saveRemoteWorkflow,
+  WorkflowRevisionConflictError
+} from '@/lib/workflow/api';
+import {
+  createWorkflowDocument,
+  parseWorkflowDocument,
+  serializeWorkflowDocument
+} from '@/lib/workflow/document';
+import type { WorkflowFieldError } from '@/lib/workflow/schema';
+import type { StoredWorkflow, Viewport, WireStyle, WorkflowDocument, WorkflowGraph } from '@/lib/workflow/types';
+import { validateWorkflow, type WorkflowIssue } from '@/lib/workflow/validation';
+
+interface WorkflowEditorProps {
+  initialWorkflow: WorkflowDocument;
+  // Set when editing a workflow from the server store; absent for the scratch canvas
+  stored?: { id: string; revision: number };
+}
+
+type SaveStatus = 'idle' | 'saving' | 'saved' | 'error';
+
+// Problems a loaded document already has (wires between ports whose types no
+// longer match, cycles from hand-edited files); the editor opens it regardless
+const findLoadErrors = (document: WorkflowDocument) =>
+  validateWorkflow(document).issues.filter(issue => issue.severity === 'error');
+
+const toFileName = (name: string) => {
+  const slug = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return `${slug || 'workflow'}.workflow.json`;
+};
+
+const WorkflowEditor: React.FC<WorkflowEditorProps> = ({ initialWorkflow, stored }) => {
+  const router = useRouter();
+  const [workflow, setWorkflow] = useState(initialWorkflow);
+  const [revision, setRevision] = useState(stored?.revision);
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('idle');
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [conflict, setConflict] = useState<StoredWorkflow | null>(null);
+  // Bumped on import so Canvas remounts with the new document's state
+  const [canvasKey, setCanvasKey] = useState(0);
+  // Set once the canvas shows a document that should replace what others are editing
+  const [replacedShared, setReplacedShared] = useState(false);
+  const [importErrors, setImportErrors] = useState<{ fileName: string; errors: WorkflowFieldError[] } | null>(null);
+  const [loadErrors, setLoadErrors] = useState<WorkflowIssue[]>(() => findLoadErrors(initialWorkflow));
+
+  const graphRef = useRef<WorkflowGraph>(initialWorkflow);
+  const viewportRef = useRef<Viewport>(initialWorkflow.viewport);
+  const wireStyleRef = useRef<WireStyle>(initialWorkflow.wireStyle);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleGraphChange = useCallback((graph: WorkflowGraph) => {
+    graphRef.current = graph;
+    setSaveStatus(status => (status === 'saved' ? 'idle' : status));
+  }, []);
+
+  const handleViewportChange = useCallback((viewport: Viewport) => {
+    viewportRef.current = viewport;
+  }, []);
+
+  const handleWireStyleChange = useCallback((wireStyle: WireStyle) => {
+    if (wireStyle === wireStyleRef.current) return;
+    wireStyleRef.current = wireStyle;
+    setSaveStatus(status => (status === 'saved' ? 'idle' : status));
+  }, []);
+
+  const currentDocument = () => createWorkflowDocument(graphRef.current, {
+    name: workflow.name,
+    viewport: viewportRef.current,
+    wireStyle: wireStyleRef.current
+  });
+
+  const replaceWorkflow = (document: WorkflowDocument) => {
+    graphRef.current = document;
+    viewportRef.current = document.viewport;
+    wireStyleRef.current = document.wireStyle;
+    setWorkflow(document);
+    setCanvasKey(key => key + 1);
+    setReplacedShared(true);
+    setLoadErrors(findLoadErrors(document));
+  };
+
+  // Stored workflows are edited together by everyone who has them open
+  const storedId = stored?.id;
+  const storedRevision = stored?.revision;
+  const initialWireStyle = workflow.wireStyle;
+  const collaboration = useMemo(() => (storedId === undefined ? undefined : {
+    room: `workflow-${storedId}`,
+    seed: `${storedId}@${storedRevision}`,
+    meta: { revision: storedRevision, wireStyle: initialWireStyle },
+    replace: replacedShared
+  }), [storedId, storedRevision, initialWireStyle, replacedShared]);
+
+  // A save by someone else in the room moves everyone to the revision it made,
+  // so the next save here isn't taken for a conflict
+  const handleRevisionChange = useCallback((shared: number) => {
+    setRevision(current => (current === undefined ? current : Math.max(current, shared)));
+  }, []);
+
+  const save = async (baseRevision: number | undefined) => {
+    setSaveStatus('saving');
+    setSaveError(null);
+    try {
+      if (!stored || baseRevision === undefined) {
+        const record = await createRemoteWorkflow(currentDocument());
+        router.push(`/workflows/${record.id}`);
+        return;
+      }
+
+      const record = await saveRemoteWorkflow(stored.id, currentDocument(), baseRevision);
+      setRevision(record.revision);
+      setConflict(null);
+      setSaveStatus('saved');
+    } catch (error) {
+      setSaveStatus('error');
+      if (error instanceof WorkflowRevisionConflictError) {
+        setConflict(error.current);
+      } else {
+        setSaveError(error instanceof Error ? error.message : String(error));
+      }
+    }
+  };
+
+  const handleLoadTheirs = () => {
+    if (!conflict) return;
+    setRevision(conflict.revision);
+    replaceWorkflow(conflict.document);
+    setConflict(null);
+    setSaveStatus('idle');
+  };
+
+  const handleExport = () => {
+    const document = currentDocument();
+    const blob = new Blob([serializeWorkflowDocument(document)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+
+    const link = window.document.createElement('a');
+    link.href = url;
+    link.download = toFileName(document.name);
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset so picking the same file again still fires onChange
+    event.target.value = '';
+    if (!file) return;
+
+    const result = parseWorkflowDocument(await file.text());
+    if (!result.ok) {
+      // Keep the current graph untouched; just report what is wrong with the file
+      setImportErrors({ fileName: file.name, errors: result.errors });
+      return;
+    }
+
+    setImportErrors(null);
+    replaceWorkflow(result.document);
+  };
+
+  return (
+    <>
+      <div className="bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">Workflow Builder</h1>
+          <p className="text-sm text-gray-600 mt-1">
+            {stored ? `${workflow.name} · revision ${revision}` : 'Drag and drop to create your workflow'}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="sm" asChild>
+            <Link href="/workflows">All workflows</Link>
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={handleImportFile}
+          />
+          <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+            <Upload />
+            Import
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleExport}>
+            <Download />
+            Export
+          </Button>
+          <Button size="sm" onClick={() => save(revision)} disabled={saveStatus === 'saving'}>
+            <Save />
+            {saveStatus === 'saving' ? 'Saving…' : saveStatus === 'saved' ? 'Saved' : 'Save'}
+          </Button>
+        </div>
+      </div>
+
+      {conflict && (
+        <div className="bg-amber-50 border-b border-amber-200 px-6 py-3 text-sm text-amber-800 flex items-center justify-between gap-4">
+          <p>
+            This workflow was saved somewhere else since you opened it (now at revision {conflict.revision}).
+            Your changes have not been saved.
+          </p>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={handleLoadTheirs}>
+              Load their version
+            </Button>
+            <Button variant="destructive" size="sm" onClick={() => save(conflict.revision)}>
+              Overwrite with mine
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {saveError && (
+        <div className="bg-red-50 border-b border-red-200 px-6 py-3 text-sm text-red-700 flex items-center justify-between gap-4">
+          <p>Could not save: {saveError}</p>
+          <Button variant="ghost" size="icon" onClick={() => setSaveError(null)} aria-label="Dismiss">
+            <X />
+          </Button>
+        </div>
+      )}
+
+      {importErrors && (
+        <div className="bg-red-50 border-b border-red-200 px-6 py-3 text-sm text-red-700">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <p className="font-medium">
+                Could not import {importErrors.fileName}. Your current workflow was not changed.
+              </p>
+              <ul className="mt-2 space-y-1 font-['IBM_Plex_Mono'] text-xs">
+                {importErrors.errors.map((error, index) => (
+                  <li key={index}>
+                    {error.path ? <span className="font-semibold">{error.path}: </span> : null}
+                    {error.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+            <Button variant="ghost" size="icon" onClick={() => setImportErrors(null)} aria-label="Dismiss">
+              <X />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {loadErrors.length > 0 && (
+        <div className="bg-amber-50 border-b border-amber-200 px-6 py-3 text-sm text-amber-800">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <p className="font-medium">This workflow has problems that will stop it from running.</p>
+              <ul className="mt-2 space-y-1 text-xs">
+                {loadErrors.map((issue, index) => (
+                  <li key={index}>{issue.message}</li>
+                ))}
+              </ul>
+            </div>
+            <Button variant="ghost" size="icon" onClick={() => setLoadErrors([])} aria-label="Dismiss">
+              <X />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex">
+        <NodePalette />
+        <div className="flex-1 min-w-0">
+          <Canvas
+            key={canvasKey}
+            workflow={workflow}
+            onChange={handleGraphChange}
+            onViewportChange={handleViewportChange}
+            onWireStyleChange={handleWireStyleChange}
+            collaboration={collaboration}
+            revision={revision}
+            onRevisionChange={handleRevisionChange}
+          />
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default WorkflowEditor;
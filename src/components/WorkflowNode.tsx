@@ -1,12 +1,23 @@
 'use client';
 
-import React, { useRef, useState } from 'react';
+import React, { memo, useRef, useState } from 'react';
 import Draggable, { DraggableEvent, DraggableData } from 'react-draggable';
-
-interface NodeInput {
-  id: string;
-  connected: boolean;
-}
+import { Ban, Boxes, Check, Clock, LoaderCircle, SkipForward, SquareDashed, X } from 'lucide-react';
+import { useNodeType } from '@/hooks/useNodeTypes';
+import { ANY_PORT_TYPE, getNodeOutputs, getPortType, type NodeOutputDefinition } from '@/lib/nodeTypes';
+import { formatDuration } from '@/lib/format';
+import {
+  DEFAULT_NODE_THEME,
+  getInputTop,
+  getLabelTop,
+  getNodeHeight,
+  getOutputLeft,
+  getOutputTop,
+  type NodeShape
+} from '@/lib/geometry';
+import type { NodeRunResult, NodeRunStatus } from '@/lib/execution/types';
+import { SUBFLOW_NODE_TYPE } from '@/lib/workflow/subflows';
+import type { NodeInput } from '@/lib/workflow/types';
 
 interface InputConnectionState {
   hasIncomingConnection: boolean;
@@ -16,52 +27,135 @@ interface InputConnectionState {
   inputIndex: number;
   isAddInput?: boolean;
   isDragging?: boolean;
+  // The wire being dragged carries a type this input doesn't take
+  isIncompatible?: boolean;
 }
 
+const RUN_STATUS_BADGES: Record<NodeRunStatus, { icon: React.ComponentType<{ className?: string }>; className: string; border: string }> = {
+  queued: { icon: Clock, className: 'bg-gray-100 text-gray-700', border: 'border-gray-300' },
+  running: { icon: LoaderCircle, className: 'bg-blue-100 text-blue-700', border: 'border-blue-500' },
+  succeeded: { icon: Check, className: 'bg-green-100 text-green-700', border: 'border-green-500' },
+  failed: { icon: X, className: 'bg-red-100 text-red-700', border: 'border-red-500' },
+  cancelled: { icon: Ban, className: 'bg-amber-100 text-amber-700', border: 'border-amber-500' },
+  skipped: { icon: SkipForward, className: 'bg-gray-100 text-muted-foreground', border: 'border-gray-200 border-dashed' }
+};
+
 interface WorkflowNodeProps {
   id: string;
+  type: string;
   title: string;
   description?: string;
   x: number;
   y: number;
-  height: number;
+  scale?: number;
+  isSelected?: boolean;
+  runResult?: NodeRunResult;
   inputs: NodeInput[];
+  // Outputs of a node that has its own rather than its type's (a collapsed subflow)
+  outputs?: NodeOutputDefinition[];
+  onDragStart?: (id: string, additive: boolean) => void;
   onDrag: (id: string, x: number, y: number) => void;
-  onStartConnection?: (nodeId: string, event: React.MouseEvent) => void;
-  onStartDisconnection?: (nodeId: string, inputId: string, event: React.MouseEvent) => void;
+  onDragStop?: (id: string, x: number, y: number) => void;
+  onStartConnection?: (nodeId: string, outputId: string, event: React.PointerEvent) => void;
+  onStartDisconnection?: (nodeId: string, inputId: string, event: React.PointerEvent) => void;
   onRemoveInput?: (nodeId: string, inputId: string) => void;
+  // Keyboard counterparts of the pointer interactions above
+  onFocusNode?: (id: string) => void;
+  onNudge?: (id: string, dx: number, dy: number, large: boolean) => void;
+  onKeyboardConnect?: (nodeId: string, outputId: string) => void;
+  onKeyboardReconnect?: (nodeId: string, inputId: string) => void;
+  onDisconnect?: (nodeId: string, inputId: string) => void;
+  // Double-click or Enter; opens a collapsed subflow
+  onOpen?: (id: string) => void;
   inputConnectionStates: InputConnectionState[];
 }
 
+const ARROW_DIRECTIONS: Record<string, [number, number]> = {
+  ArrowLeft: [-1, 0],
+  ArrowRight: [1, 0],
+  ArrowUp: [0, -1],
+  ArrowDown: [0, 1]
+};
+
+const focusRing = 'outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-1';
+// Invisible padding around a port on touch screens, where 12px is too small to hit
+const touchHitArea = "pointer-coarse:after:absolute pointer-coarse:after:-inset-3 pointer-coarse:after:content-['']";
+// How long a tapped-once input keeps showing Delete on touch screens
+const TOUCH_REVEAL_MS = 3000;
+// Connected inputs are a triangle sticking out one port size to the left; its
+// flat side is where wires end, so clip it there
+const { portSize, inputAnchorInset } = DEFAULT_NODE_THEME;
+const triangleBase = `${((portSize - inputAnchorInset) / portSize) * 100}%`;
+const TRIANGLE_CLIP = `polygon(${triangleBase} 0%, ${triangleBase} 100%, 100% 50%)`;
+
 const WorkflowNode: React.FC<WorkflowNodeProps> = ({
   id,
+  type,
   title,
   description = "Node description",
   x,
   y,
-  height,
+  scale = 1,
+  isSelected = false,
+  runResult,
   inputs,
+  outputs: ownOutputs,
+  onDragStart,
   onDrag,
+  onDragStop,
   onStartConnection,
   onStartDisconnection,
   onRemoveInput,
+  onFocusNode,
+  onNudge,
+  onKeyboardConnect,
+  onKeyboardReconnect,
+  onDisconnect,
+  onOpen,
   inputConnectionStates,
 }) => {
   const nodeRef = useRef<HTMLDivElement>(null);
+  const nodeType = useNodeType(type);
+  const isSubflow = type === SUBFLOW_NODE_TYPE;
+  // Types from a plugin that isn't loaded still render, just without their icon
+  const Icon = isSubflow ? Boxes : nodeType?.icon ?? SquareDashed;
+  const typeTitle = isSubflow ? 'Subflow' : nodeType?.title ?? type;
+  const inputType = getPortType(nodeType?.inputType ?? ANY_PORT_TYPE);
+  const outputs = getNodeOutputs({ type, outputs: ownOutputs });
   const [hoveredInputId, setHoveredInputId] = useState<string | null>(null);
+  const revealTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  // Matches getNodeDisplayName, which needs the whole config
+  const name = description ? `${title} (${description})` : title;
+
+  // Where the pointer has dragged the node to. The canvas may snap the node
+  // somewhere else, and Draggable continues from the position it is given, so
+  // the unsnapped position is tracked here from the pointer's movement.
+  const dragPositionRef = useRef({ x, y });
+
+  const handleDragStart = (e: DraggableEvent) => {
+    dragPositionRef.current = { x, y };
+    onDragStart?.(id, 'shiftKey' in e && e.shiftKey);
+  };
 
   const handleDrag = (_e: DraggableEvent, data: DraggableData) => {
-    onDrag(id, data.x, data.y);
+    const position = dragPositionRef.current;
+    dragPositionRef.current = { x: position.x + data.deltaX, y: position.y + data.deltaY };
+    onDrag(id, dragPositionRef.current.x, dragPositionRef.current.y);
   };
 
-  const handleCircleMouseDown = (event: React.MouseEvent) => {
+  const handleDragStop = (_e: DraggableEvent, data: DraggableData) => {
+    const position = dragPositionRef.current;
+    onDragStop?.(id, position.x + data.deltaX, position.y + data.deltaY);
+  };
+
+  const handleCirclePointerDown = (outputId: string, event: React.PointerEvent) => {
     event.stopPropagation();
     if (onStartConnection) {
-      onStartConnection(id, event);
+      onStartConnection(id, outputId, event);
     }
   };
 
-  const handleTriangleMouseDown = (inputId: string, event: React.MouseEvent) => {
+  const handleTrianglePointerDown = (inputId: string, event: React.PointerEvent) => {
     event.stopPropagation();
     if (onStartDisconnection) {
       onStartDisconnection(id, inputId, event);
@@ -75,77 +169,117 @@ const WorkflowNode: React.FC<WorkflowNodeProps> = ({
     }
   };
 
-  // Calculate original height (what the height would be without ADD input)
-  const calculateOriginalHeight = (inputCount: number) => {
-    const baseHeight = 48; // 48px base button height
-    if (inputCount <= 1) return baseHeight;
-    
-    // For multiple inputs: 8pt top margin + inputs with 8pt spacing + 8pt bottom margin
-    const inputHeight = 12; // Each input connector is 12px
-    const spacing = 8; // 8pt spacing between inputs
-    const margins = 16; // 8pt top + 8pt bottom
-    
-    return Math.max(baseHeight, (inputCount * inputHeight) + ((inputCount - 1) * spacing) + margins);
+  // Hover shows Delete on a free input. Touch has no hover, so there the first
+  // tap shows it for a moment and a second tap removes the input.
+  const handleInputPointerEnter = (inputId: string, event: React.PointerEvent) => {
+    if (event.pointerType !== 'touch') setHoveredInputId(inputId);
   };
 
-  const getInputPosition = (inputIndex: number) => {
-    const inputHeight = 12;
-    const spacing = 8;
-    
-    // Keep existing inputs in their original positions when ADD appears
-    const originalInputCount = inputs.length;
-    
-    if (inputIndex >= originalInputCount) {
-      // This is the ADD input - position it after existing inputs
-      if (originalInputCount === 0) {
-        // First input (becoming ADD): center it in expanded height
-        return {
-          top: height / 2 - inputHeight / 2
-        };
-      } else {
-        // Position ADD input after existing inputs based on their original positions
-        const originalHeight = calculateOriginalHeight(originalInputCount);
-        const originalGroupHeight = (originalInputCount * inputHeight) + ((originalInputCount - 1) * spacing);
-        const originalGroupStartY = originalInputCount === 1 
-          ? originalHeight / 2 - inputHeight / 2  // Single input was centered in original height
-          : (originalHeight - originalGroupHeight) / 2;  // Multiple inputs were centered in original height
-        
-        return {
-          top: originalGroupStartY + originalInputCount * (inputHeight + spacing)
-        };
-      }
+  const handleInputPointerLeave = (event: React.PointerEvent) => {
+    if (event.pointerType !== 'touch') setHoveredInputId(null);
+  };
+
+  const handleFreeInputClick = (inputId: string, event: React.MouseEvent) => {
+    if (hoveredInputId === inputId) {
+      handleInputRemove(inputId, event);
+      return;
+    }
+    event.stopPropagation();
+    setHoveredInputId(inputId);
+    clearTimeout(revealTimerRef.current);
+    revealTimerRef.current = setTimeout(() => setHoveredInputId(null), TOUCH_REVEAL_MS);
+  };
+
+  // Up/Down steps through the ports on one side; Left/Right goes between the
+  // ports and the node itself
+  const focusNextPort = (side: 'input' | 'output', event: React.KeyboardEvent<HTMLElement>) => {
+    const root = nodeRef.current;
+    if (!root) return false;
+    const ports = Array.from(root.querySelectorAll<HTMLElement>(`[data-port="${side}"]`));
+    const index = ports.indexOf(event.currentTarget);
+    const towardsNode = side === 'input' ? 'ArrowRight' : 'ArrowLeft';
+
+    let target: HTMLElement | null | undefined;
+    if (event.key === 'ArrowUp') target = ports[index - 1];
+    else if (event.key === 'ArrowDown') target = ports[index + 1];
+    else if (event.key === towardsNode) target = root.querySelector<HTMLElement>('.node-handle');
+    if (!target) return false;
+    target.focus();
+    return true;
+  };
+
+  const handleNodeKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (event.key === 'Enter' && onOpen) {
+      event.preventDefault();
+      onOpen(id);
+      return;
+    }
+    const direction = ARROW_DIRECTIONS[event.key];
+    if (!direction) return;
+    event.preventDefault();
+
+    if (event.altKey) {
+      // Alt+Left/Right jumps to the first input or output
+      const side = event.key === 'ArrowLeft' ? 'input' : event.key === 'ArrowRight' ? 'output' : null;
+      if (side) nodeRef.current?.querySelector<HTMLElement>(`[data-port="${side}"]`)?.focus();
+      return;
+    }
+    onNudge?.(id, direction[0], direction[1], event.shiftKey);
+  };
+
+  const handleInputKeyDown = (inputId: string, connected: boolean, event: React.KeyboardEvent<HTMLDivElement>) => {
+    let handled = true;
+    if (event.key === 'Enter' || event.key === ' ') {
+      // Picks the wire up, like dragging it off the input
+      if (connected) onKeyboardReconnect?.(id, inputId);
+    } else if (event.key === 'Delete' || event.key === 'Backspace') {
+      if (connected) onDisconnect?.(id, inputId);
+      else onRemoveInput?.(id, inputId);
     } else {
-      // This is an existing input - keep it in original position based on original height
-      const originalHeight = calculateOriginalHeight(originalInputCount);
-      
-      if (originalInputCount === 1) {
-        // Single input: center vertically in the original height
-        return {
-          top: originalHeight / 2 - inputHeight / 2
-        };
-      } else {
-        // Multiple inputs: center the original group vertically in the original height
-        const originalGroupHeight = (originalInputCount * inputHeight) + ((originalInputCount - 1) * spacing);
-        const originalGroupStartY = (originalHeight - originalGroupHeight) / 2;
-        
-        return {
-          top: originalGroupStartY + inputIndex * (inputHeight + spacing)
-        };
-      }
+      handled = focusNextPort('input', event);
     }
+    if (!handled) return;
+    // Keep the canvas shortcuts (Delete removes the selected nodes) out of it
+    event.preventDefault();
+    event.stopPropagation();
   };
 
-  const calculateNodePosition = () => {
-    // Calculate the text position based on node height
-    const textTop = Math.max(height + 16, 64); // At least 64px from top, or 16px below node
-    return { textTop };
+  const handleOutputKeyDown = (outputId: string, event: React.KeyboardEvent<HTMLDivElement>) => {
+    let handled = true;
+    if (event.key === 'Enter' || event.key === ' ') onKeyboardConnect?.(id, outputId);
+    else handled = focusNextPort('output', event);
+    if (!handled) return;
+    event.preventDefault();
+    event.stopPropagation();
   };
 
-  const { textTop } = calculateNodePosition();
+  const inputPortProps = (inputId: string, inputIndex: number, connected: boolean) => ({
+    'data-port': 'input',
+    'data-input-id': inputId,
+    role: 'button',
+    tabIndex: 0,
+    'aria-label': `Input ${inputIndex + 1} of ${name}, ${inputType.label}, ${connected ? 'connected' : 'not connected'}`,
+    onKeyDown: (event: React.KeyboardEvent<HTMLDivElement>) => handleInputKeyDown(inputId, connected, event)
+  });
+
+  // Sizes and port positions come from the same geometry the canvas hit-tests and routes wires with
+  const shape: NodeShape = {
+    inputCount: inputs.length,
+    outputCount: outputs.length,
+    addInputPreview: inputConnectionStates.some(state => state.isAddInput)
+  };
+  const height = getNodeHeight(shape);
+  const textTop = getLabelTop(shape);
+
+  const runBadge = runResult ? RUN_STATUS_BADGES[runResult.status] : null;
+  const borderClass = isSelected
+    ? 'border-blue-500 ring-2 ring-blue-500/30'
+    : runBadge?.border ?? 'border-gray-200';
 
   const renderInputConnector = (connectionState: InputConnectionState) => {
-    const { hasIncomingConnection, isInTapZone, isBeingHovered, inputId, inputIndex, isAddInput, isDragging } = connectionState;
-    const inputPos = getInputPosition(inputIndex);
+    const { hasIncomingConnection, isInTapZone, isBeingHovered, inputId, inputIndex, isAddInput, isDragging, isIncompatible } = connectionState;
+    const inputTop = getInputTop(shape, inputIndex);
+    const portTitle = `${inputType.label} input`;
     const isHovered = hoveredInputId === inputId;
 
     // Handle ADD input (virtual input when all are connected)
@@ -158,8 +292,9 @@ const WorkflowNode: React.FC<WorkflowNodeProps> = ({
         <div 
           key={inputId}
           className="absolute left-[0px] z-[-2] flex items-center transition-all duration-300 ease-in-out"
+          aria-hidden
           style={{ 
-            top: inputPos.top,
+            top: inputTop,
             opacity: isActive ? 1 : 0.8, // Slightly fade in when becoming active
             transform: isActive ? 'translateX(0)' : 'translateX(-2px)' // Slide in slightly when active
           }}
@@ -174,8 +309,8 @@ const WorkflowNode: React.FC<WorkflowNodeProps> = ({
               borderRadius: '1px',
               transform: 'translateY(0px)',
             }}
-            onMouseEnter={() => setHoveredInputId(inputId)}
-            onMouseLeave={() => setHoveredInputId(null)}
+            onPointerEnter={(e) => handleInputPointerEnter(inputId, e)}
+            onPointerLeave={handleInputPointerLeave}
           ></div>
           
           {/* ADD text - slide in animation */}
@@ -206,11 +341,13 @@ const WorkflowNode: React.FC<WorkflowNodeProps> = ({
         return (
           <div 
             key={inputId}
-            className="absolute left-[-4px] z-[-2] flex items-center transition-all duration-200 ease-in-out"
+            className={`absolute left-[-4px] z-[-2] flex items-center transition-all duration-200 ease-in-out ${focusRing}`}
             style={{ 
-              top: inputPos.top
+              top: inputTop
             }}
-            onMouseDown={(e) => handleTriangleMouseDown(inputId, e)}
+            title={portTitle}
+            {...inputPortProps(inputId, inputIndex, true)}
+            onPointerDown={(e) => handleTrianglePointerDown(inputId, e)}
           >
             {/* Rectangle connector - blue when dragging over it */}
             <div 
@@ -232,11 +369,15 @@ const WorkflowNode: React.FC<WorkflowNodeProps> = ({
         return (
           <div 
             key={inputId}
-            className="absolute left-[-12px] z-[-2] cursor-pointer transition-all duration-200 ease-in-out"
+            className={`absolute z-[-2] cursor-pointer transition-all duration-200 ease-in-out ${focusRing} ${touchHitArea}`}
             style={{ 
-              top: inputPos.top
+              left: -portSize,
+              top: inputTop,
+              opacity: isIncompatible ? 0.3 : 1
             }}
-            onMouseDown={(e) => handleTriangleMouseDown(inputId, e)}
+            title={portTitle}
+            {...inputPortProps(inputId, inputIndex, true)}
+            onPointerDown={(e) => handleTrianglePointerDown(inputId, e)}
           >
             <div 
               className="transition-all duration-200 hover:brightness-110"
@@ -244,8 +385,8 @@ const WorkflowNode: React.FC<WorkflowNodeProps> = ({
                 width: '12px',
                 height: '12px',
                 transform: 'translateY(0px)',
-                clipPath: 'polygon(33% 0%, 33% 100%, 100% 50%)',
-                backgroundColor: isBeingHovered ? "#3b82f6" : "#6b7280",
+                clipPath: TRIANGLE_CLIP,
+                backgroundColor: isBeingHovered ? "#3b82f6" : inputType.color,
                 borderRadius: '4px 0 0 4px',
                 boxShadow: isBeingHovered ? '0 2px 4px rgba(59, 130, 246, 0.3)' : 'none'
               }}
@@ -263,26 +404,30 @@ const WorkflowNode: React.FC<WorkflowNodeProps> = ({
       return (
         <div 
           key={inputId}
-          className="absolute left-[-4px] z-[-2] flex items-center transition-all duration-200 ease-in-out"
+          className={`absolute left-[-4px] z-[-2] flex items-center transition-all duration-200 ease-in-out ${focusRing}`}
           style={{ 
-            top: inputPos.top
+            top: inputTop,
+            opacity: isIncompatible ? 0.3 : 1
           }}
+          title={portTitle}
+          {...inputPortProps(inputId, inputIndex, false)}
         >
           {/* Rectangle connector with enhanced visual feedback */}
           <div 
-            className={`transition-all duration-200 ease-in-out cursor-pointer ${
-              shouldShowDelete ? 'bg-red-600' : (isBeingHovered ? 'bg-blue-500' : 'bg-muted-foreground')
+            className={`relative transition-all duration-200 ease-in-out cursor-pointer ${touchHitArea} ${
+              shouldShowDelete ? 'bg-red-600' : (isBeingHovered ? 'bg-blue-500' : '')
             }`}
             style={{
+              backgroundColor: shouldShowDelete || isBeingHovered ? undefined : inputType.color,
               width: `${rectWidth}px`,
               height: `${rectHeight}px`,
               marginLeft: (isInTapZone || isBeingHovered || isHovered) ? '-3px' : '0px', // Adjusted for new width on any growth condition
               borderRadius: '1px',
               transform: 'translateY(0px)', // Center the rectangle (adjusted for 12px height)
             }}
-            onMouseEnter={() => setHoveredInputId(inputId)}
-            onMouseLeave={() => setHoveredInputId(null)}
-            onClick={(e) => handleInputRemove(inputId, e)}
+            onPointerEnter={(e) => handleInputPointerEnter(inputId, e)}
+            onPointerLeave={handleInputPointerLeave}
+            onClick={(e) => handleFreeInputClick(inputId, e)}
           ></div>
           
           {/* Delete text - enhanced slide in animation */}
@@ -304,50 +449,97 @@ const WorkflowNode: React.FC<WorkflowNodeProps> = ({
   return (
     <Draggable
       nodeRef={nodeRef}
-      defaultPosition={{ x, y }}
+      position={{ x, y }}
+      scale={scale}
+      onStart={handleDragStart}
       onDrag={handleDrag}
+      onStop={handleDragStop}
       handle=".node-handle"
     >
-      <div ref={nodeRef} className="absolute">
+      <div ref={nodeRef} className="absolute" data-node-id={id}>
         <div className="relative inline-flex justify-start items-start">
           {/* Dynamic Input Connectors */}
           {inputConnectionStates.map((connectionState) => renderInputConnector(connectionState))}
           
-          {/* Internal Container */}
-          <div className="w-12 relative inline-flex justify-end items-start">
-            {/* Circle Output Connector (Right Side) - 12x12px - FIXED VERTICAL CENTERING with smooth transitions */}
-            <div 
-              className="absolute inline-flex flex-col justify-center items-start gap-3 transition-all duration-200 ease-in-out z-10"
-              style={{
-                left: '42px',
-                top: `${height / 2 - 6}px` // Center vertically based on node height
-              }}
+          {/* Run Status Badge - above the node while a run is shown */}
+          {runResult && runBadge && (
+            <div
+              className={`absolute left-6 -translate-x-1/2 -top-6 flex items-center gap-1 rounded px-1.5 py-0.5 text-[10px] font-medium font-['IBM_Plex_Mono'] leading-[12px] whitespace-nowrap select-none ${runBadge.className}`}
+              title={runResult.error ?? runResult.skippedReason ?? runResult.status}
             >
-              <div className="h-3 inline-flex justify-start items-center gap-2">
-                <div 
-                  className="w-3 h-3 relative  cursor-pointer hover:brightness-110 transition-all"
-                  onMouseDown={handleCircleMouseDown}
-                >
-                  <div className="w-[12.5px] h-[12.5px] left-[-0.25px] top-[-0.25px] absolute bg-muted-foreground rounded-full"></div>
-                  <div className="w-1.5 h-1.5 left-[3px] top-[3px] absolute overflow-hidden">
-                    <div className="w-[5px] h-[5px] left-[0.5px] top-[0.5px] absolute bg-white rounded-full"></div>
-                  </div>
-                </div>
-              </div>
+              <runBadge.icon className={`size-3 ${runResult.status === 'running' ? 'animate-spin' : ''}`} />
+              {runResult.durationMs !== undefined ? formatDuration(runResult.durationMs) : runResult.status}
             </div>
-            
+          )}
+
+          {/* Internal Container */}
+          <div className="w-12 relative inline-flex justify-end items-start">
             {/* Main Button - Dynamic Height with smooth transition */}
             <div 
-              className="node-handle bg-white rounded-lg shadow-[0px_2px_4px_0px_rgba(0,0,0,0.05)] border border-gray-200 inline-flex justify-center items-center cursor-move hover:bg-gray-50 transition-all duration-200 ease-in-out"
+              className={`node-handle bg-white rounded-lg shadow-[0px_2px_4px_0px_rgba(0,0,0,0.05)] border ${borderClass} inline-flex justify-center items-center cursor-move hover:bg-gray-50 transition-all duration-200 ease-in-out ${focusRing}`}
               style={{
                 width: '48px',
                 height: `${height}px`
               }}
+              role="button"
+              tabIndex={0}
+              aria-roledescription={`${typeTitle} node`}
+              aria-label={runResult ? `${name}, ${runResult.status}` : name}
+              aria-pressed={isSelected}
+              // Pointer presses select through the drag handlers; only keyboard focus selects here
+              onFocus={(e) => {
+                if (e.currentTarget.matches(':focus-visible')) onFocusNode?.(id);
+              }}
+              onKeyDown={handleNodeKeyDown}
+              onDoubleClick={() => onOpen?.(id)}
             >
-              <div className="w-6 h-6 relative overflow-hidden">
-                <div className="w-[20px] h-[20px] left-[2px] top-[2px] absolute border-2 border-gray-700 rounded"></div>
+              <div className="w-6 h-6 relative overflow-hidden inline-flex justify-center items-center" title={typeTitle}>
+                <Icon className="size-5 text-gray-700" />
               </div>
             </div>
+
+            {/* Circle Output Connectors (Right Side) - 12x12px, stacked like the inputs, labelled when there are several */}
+            {outputs.map((output, outputIndex) => {
+              const outputType = getPortType(output.type ?? ANY_PORT_TYPE);
+
+              return (
+                <div 
+                  key={output.id}
+                  className="absolute inline-flex flex-col justify-center items-start gap-3 transition-all duration-200 ease-in-out z-10"
+                  style={{
+                    left: `${getOutputLeft()}px`,
+                    top: `${getOutputTop(shape, outputIndex)}px`
+                  }}
+                >
+                  <div className="h-3 inline-flex justify-start items-center gap-2">
+                    <div 
+                      className={`w-3 h-3 relative rounded-full cursor-pointer hover:brightness-110 transition-all ${focusRing} ${touchHitArea}`}
+                      title={`${outputs.length > 1 ? `${output.label}: ` : ''}${outputType.label} output`}
+                      data-port="output"
+                      data-output-id={output.id}
+                      role="button"
+                      tabIndex={0}
+                      aria-label={`${outputs.length > 1 ? `${output.label} output` : 'Output'} of ${name}, ${outputType.label}`}
+                      onPointerDown={(e) => handleCirclePointerDown(output.id, e)}
+                      onKeyDown={(e) => handleOutputKeyDown(output.id, e)}
+                    >
+                      <div
+                        className="w-[12.5px] h-[12.5px] left-[-0.25px] top-[-0.25px] absolute rounded-full"
+                        style={{ backgroundColor: outputType.color }}
+                      ></div>
+                      <div className="w-1.5 h-1.5 left-[3px] top-[3px] absolute overflow-hidden">
+                        <div className="w-[5px] h-[5px] left-[0.5px] top-[0.5px] absolute bg-white rounded-full"></div>
+                      </div>
+                    </div>
+                    {outputs.length > 1 && (
+                      <div className="text-muted-foreground text-[10px] font-medium font-['IBM_Plex_Mono'] leading-[10px] uppercase tracking-wide select-none whitespace-nowrap pointer-events-none">
+                        {output.label}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
           </div>
           
           {/* Centered Text Below Button */}
@@ -371,4 +563,18 @@ const WorkflowNode: React.FC<WorkflowNodeProps> = ({
   );
 };
 
-export default WorkflowNode; 
\ No newline at end of file
+const shallowEqual = <T extends object>(a: T, b: T) => {
+  const keys = Object.keys(a) as (keyof T)[];
+  return keys.length === Object.keys(b).length && keys.every(key => Object.is(a[key], b[key]));
+};
+
+// The canvas builds input states afresh on every render, so those are compared by value
+const arePropsEqual = (prev: WorkflowNodeProps, next: WorkflowNodeProps) => {
+  const { inputConnectionStates: prevStates, ...prevRest } = prev;
+  const { inputConnectionStates: nextStates, ...nextRest } = next;
+  return shallowEqual(prevRest, nextRest) &&
+    prevStates.length === nextStates.length &&
+    prevStates.every((state, index) => shallowEqual(state, nextStates[index]));
+};
+
+export default memo(WorkflowNode, arePropsEqual);
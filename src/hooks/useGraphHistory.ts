@@ -0,0 +1,132 @@
+import { useCallback, useRef, useState } from 'react';
+import type { GraphCommand } from '@/lib/workflow/commands';
+import type { WorkflowGraph } from '@/lib/workflow/types';
+
+const HISTORY_LIMIT = 200;
+
+interface HistoryState {
+  // What is on screen: `committed` with any previews on top
+  graph: WorkflowGraph;
+  // The graph as of the last undo step, or the last change from elsewhere
+  committed: WorkflowGraph;
+  // Previews since then, replayed onto changes from elsewhere so a drag in
+  // progress survives them
+  previews: ((graph: WorkflowGraph) => WorkflowGraph)[];
+  past: GraphCommand[];
+  future: GraphCommand[];
+}
+
+type HistoryAction =
+  | { type: 'execute'; command: GraphCommand }
+  | { type: 'record'; command: GraphCommand }
+  | { type: 'preview'; update: (graph: WorkflowGraph) => WorkflowGraph }
+  | { type: 'discard' }
+  | { type: 'undo' }
+  | { type: 'redo' }
+  | { type: 'receive'; graph: WorkflowGraph };
+
+// Called with the committed graph before and after each local change
+export type CommitListener = (before: WorkflowGraph, after: WorkflowGraph) => void;
+
+const push = (past: GraphCommand[], command: GraphCommand) =>
+  [...past, command].slice(-HISTORY_LIMIT);
+
+const replay = (graph: WorkflowGraph, previews: HistoryState['previews']) =>
+  previews.reduce((current, update) => update(current), graph);
+
+const historyReducer = (state: HistoryState, action: HistoryAction): HistoryState => {
+  switch (action.type) {
+    case 'execute':
+    case 'record': {
+      // A recorded command's effect is already on screen; committing it settles the previews
+      const committed = action.command.apply(state.committed);
+      return { graph: committed, committed, previews: [], past: push(state.past, action.command), future: [] };
+    }
+    case 'preview':
+      return { ...state, graph: action.update(state.graph), previews: [...state.previews, action.update] };
+    case 'discard':
+      return state.previews.length === 0 ? state : { ...state, graph: state.committed, previews: [] };
+    case 'undo': {
+      const command = state.past[state.past.length - 1];
+      if (!command) return state;
+      const committed = command.revert(state.committed);
+      return {
+        graph: committed,
+        committed,
+        previews: [],
+        past: state.past.slice(0, -1),
+        future: [command, ...state.future]
+      };
+    }
+    case 'redo': {
+      const [command, ...future] = state.future;
+      if (!command) return state;
+      const committed = command.apply(state.committed);
+      return { graph: committed, committed, previews: [], past: push(state.past, command), future };
+    }
+    case 'receive':
+      return { ...state, graph: replay(action.graph, state.previews), committed: action.graph };
+  }
+};
+
+/**
+ * Graph state with a command-based undo stack.
+ *
+ * - `execute` applies a command and makes it one undo step.
+ * - `preview` changes the graph without touching history, for intermediate
+ *   states such as drag ticks.
+ * - `record` adds a command whose effect is already on screen (via `preview`)
+ *   as one undo step, e.g. when a drag ends.
+ * - `discard` drops the previews, e.g. when a drag is cancelled.
+ * - `receive` takes in a graph changed by someone else. It isn't an undo
+ *   step; undoing afterwards undoes only local changes.
+ *
+ * `onCommit` hears about every local change that isn't a preview, as it
+ * happens, so it can be passed on before anything else arrives.
+ */
+export const useGraphHistory = (initialGraph: WorkflowGraph, onCommit?: CommitListener) => {
+  const [state, setState] = useState<HistoryState>(() => ({
+    graph: initialGraph,
+    committed: initialGraph,
+    previews: [],
+    past: [],
+    future: []
+  }));
+  // Reduced outside React's queue so several dispatches in one event see each
+  // other and `onCommit` runs in order with them
+  const stateRef = useRef(state);
+
+  const dispatch = useCallback((action: HistoryAction) => {
+    const previous = stateRef.current;
+    const next = historyReducer(previous, action);
+    if (next === previous) return;
+    stateRef.current = next;
+    setState(next);
+    if (action.type !== 'receive' && next.committed !== previous.committed) onCommit?.(previous.committed, next.committed);
+  }, [onCommit]);
+
+  const execute = useCallback((command: GraphCommand) => dispatch({ type: 'execute', command }), [dispatch]);
+  const record = useCallback((command: GraphCommand) => dispatch({ type: 'record', command }), [dispatch]);
+  const preview = useCallback(
+    (update: (graph: WorkflowGraph) => WorkflowGraph) => dispatch({ type: 'preview', update }),
+    [dispatch]
+  );
+  const discard = useCallback(() => dispatch({ type: 'discard' }), [dispatch]);
+  const undo = useCallback(() => dispatch({ type: 'undo' }), [dispatch]);
+  const redo = useCallback(() => dispatch({ type: 'redo' }), [dispatch]);
+  const receive = useCallback((graph: WorkflowGraph) => dispatch({ type: 'receive', graph }), [dispatch]);
+
+  return {
+    graph: state.graph,
+    committed: state.committed,
+    execute,
+    record,
+    preview,
+    discard,
+    undo,
+    redo,
+    receive,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0
+  };
+};
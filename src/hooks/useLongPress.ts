@@ -0,0 +1,103 @@
+import { useEffect, useRef, type RefObject } from 'react';
+
+// How long a finger or pen has to stay put, and how far it may wander meanwhile
+const LONG_PRESS_MS = 500;
+const LONG_PRESS_TOLERANCE = 8;
+
+export interface ContextRequest {
+  // Client coordinates
+  clientX: number;
+  clientY: number;
+  target: Element;
+}
+
+/**
+ * Calls `onContextRequest` for a touch or pen long-press anywhere inside
+ * `ref`'s element, and for the native context menu (right click, or the menu
+ * key on a focused element), whose browser menu it suppresses. Listens in the
+ * capture phase so handlers that stop propagation don't hide presses from it.
+ */
+export const useLongPress = (
+  ref: RefObject<HTMLElement | null>,
+  onContextRequest: (request: ContextRequest) => void
+) => {
+  // Latest callback without re-registering the listeners on every render
+  const callbackRef = useRef(onContextRequest);
+  useEffect(() => {
+    callbackRef.current = onContextRequest;
+  });
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+
+    let press: { pointerId: number; x: number; y: number; timer: ReturnType<typeof setTimeout> } | null = null;
+    let lastPointerType = 'mouse';
+
+    const clear = () => {
+      if (press) clearTimeout(press.timer);
+      press = null;
+    };
+
+    const handleDown = (event: PointerEvent) => {
+      lastPointerType = event.pointerType;
+      // A second finger means a pinch, not a press
+      clear();
+      if (event.pointerType === 'mouse' || !event.isPrimary || !(event.target instanceof Element)) return;
+
+      const { clientX, clientY, target } = event;
+      press = {
+        pointerId: event.pointerId,
+        x: clientX,
+        y: clientY,
+        timer: setTimeout(() => {
+          press = null;
+          callbackRef.current({ clientX, clientY, target });
+        }, LONG_PRESS_MS)
+      };
+    };
+
+    const handleMove = (event: PointerEvent) => {
+      if (press?.pointerId !== event.pointerId) return;
+      if (Math.hypot(event.clientX - press.x, event.clientY - press.y) > LONG_PRESS_TOLERANCE) clear();
+    };
+
+    const handleEnd = (event: PointerEvent) => {
+      if (press?.pointerId === event.pointerId) clear();
+    };
+
+    const handleContextMenu = (event: MouseEvent) => {
+      event.preventDefault();
+      // Some touch browsers raise their own context menu on long-press; the timer already covers it
+      if (lastPointerType !== 'mouse' || !(event.target instanceof Element)) return;
+
+      // The menu key reports no position, so use the focused element instead
+      if (event.clientX === 0 && event.clientY === 0) {
+        const rect = event.target.getBoundingClientRect();
+        callbackRef.current({ clientX: rect.left + rect.width / 2, clientY: rect.bottom, target: event.target });
+        return;
+      }
+      callbackRef.current({ clientX: event.clientX, clientY: event.clientY, target: event.target });
+    };
+
+    const handleKeyDown = () => {
+      lastPointerType = 'mouse';
+    };
+
+    element.addEventListener('pointerdown', handleDown, true);
+    element.addEventListener('pointermove', handleMove, true);
+    element.addEventListener('pointerup', handleEnd, true);
+    element.addEventListener('pointercancel', handleEnd, true);
+    element.addEventListener('contextmenu', handleContextMenu);
+    element.addEventListener('keydown', handleKeyDown, true);
+    return () => {
+      clear();
+      element.removeEventListener('pointerdown', handleDown, true);
+      element.removeEventListener('pointermove', handleMove, true);
+      element.removeEventListener('pointerup', handleEnd, true);
+      element.removeEventListener('pointercancel', handleEnd, true);
+      element.removeEventListener('contextmenu', handleContextMenu);
+      element.removeEventListener('keydown', handleKeyDown, true);
+    };
+  }, [ref]);
+};
@@ -0,0 +1,11 @@
+import { useSyncExternalStore } from 'react';
+import { getNodeType, listNodeTypes, subscribeToNodeTypes } from '@/lib/nodeTypes';
+
+// Re-renders when node types are registered or removed at runtime
+export const useNodeTypes = () =>
+  useSyncExternalStore(subscribeToNodeTypes, listNodeTypes, listNodeTypes);
+
+export const useNodeType = (id: string) => {
+  useNodeTypes();
+  return getNodeType(id);
+};
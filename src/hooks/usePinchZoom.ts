@@ -0,0 +1,82 @@
+import { useEffect, useRef, type RefObject } from 'react';
+import type { Point } from '@/lib/geometry';
+
+interface PinchZoomOptions {
+  panBy: (dx: number, dy: number) => void;
+  zoomAt: (anchor: Point, factor: number) => void;
+  // A second finger went down; whatever the first one started should stop
+  onPinchStart?: () => void;
+}
+
+/**
+ * Two-finger pan and zoom on touch screens. Moving the fingers together pans,
+ * spreading or pinching them zooms around their midpoint. Mouse and pen input
+ * is left alone.
+ */
+export const usePinchZoom = (ref: RefObject<HTMLElement | null>, options: PinchZoomOptions) => {
+  const optionsRef = useRef(options);
+  useEffect(() => {
+    optionsRef.current = options;
+  });
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+
+    const touches = new Map<number, Point>();
+    // Midpoint (relative to the element) and finger distance at the last move
+    let last: (Point & { distance: number }) | null = null;
+
+    const measure = () => {
+      const [a, b] = Array.from(touches.values());
+      const rect = element.getBoundingClientRect();
+      return {
+        x: (a.x + b.x) / 2 - rect.left,
+        y: (a.y + b.y) / 2 - rect.top,
+        distance: Math.hypot(a.x - b.x, a.y - b.y)
+      };
+    };
+
+    const handleDown = (event: PointerEvent) => {
+      if (event.pointerType !== 'touch') return;
+      touches.set(event.pointerId, { x: event.clientX, y: event.clientY });
+      if (touches.size === 2) {
+        last = measure();
+        optionsRef.current.onPinchStart?.();
+      }
+    };
+
+    const handleMove = (event: PointerEvent) => {
+      if (!touches.has(event.pointerId)) return;
+      touches.set(event.pointerId, { x: event.clientX, y: event.clientY });
+      if (touches.size !== 2) return;
+
+      const next = measure();
+      if (!last) {
+        // Back to two fingers after a third was lifted
+        last = next;
+        return;
+      }
+      optionsRef.current.panBy(next.x - last.x, next.y - last.y);
+      if (last.distance > 0) optionsRef.current.zoomAt(next, next.distance / last.distance);
+      last = next;
+    };
+
+    const handleEnd = (event: PointerEvent) => {
+      touches.delete(event.pointerId);
+      // Any change in finger count restarts the measurement
+      last = null;
+    };
+
+    element.addEventListener('pointerdown', handleDown, true);
+    element.addEventListener('pointermove', handleMove, true);
+    element.addEventListener('pointerup', handleEnd, true);
+    element.addEventListener('pointercancel', handleEnd, true);
+    return () => {
+      element.removeEventListener('pointerdown', handleDown, true);
+      element.removeEventListener('pointermove', handleMove, true);
+      element.removeEventListener('pointerup', handleEnd, true);
+      element.removeEventListener('pointercancel', handleEnd, true);
+    };
+  }, [ref]);
+};
@@ -0,0 +1,188 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import * as Y from 'yjs';
+import { WebsocketProvider } from 'y-websocket';
+import { useGraphHistory, type CommitListener } from '@/hooks/useGraphHistory';
+import { getCollaboratorName, getPresenceColor, type Peer, type Presence } from '@/lib/collab/presence';
+import {
+  isSeeded,
+  readSharedGraph,
+  readSharedMeta,
+  removeConnections,
+  seedSharedGraph,
+  writeGraphChanges,
+  writeSharedMeta,
+  type SharedMeta
+} from '@/lib/collab/sharedGraph';
+import type { WorkflowGraph } from '@/lib/workflow/types';
+
+// Where the collaboration server runs; `npm run collab` starts one on this port
+const COLLAB_URL = process.env.NEXT_PUBLIC_COLLAB_URL ?? 'ws://localhost:1234';
+
+export interface SharedGraphOptions {
+  // Everyone editing the same room edits the same graph
+  room: string;
+  // Names the saved version the graph came from, for filling an empty room (see seedSharedGraph)
+  seed: string;
+  // Settings of that saved version, for filling an empty room too
+  meta: SharedMeta;
+  // Make the room match this graph instead of taking the room's graph, e.g. after an import
+  replace?: boolean;
+}
+
+// `local` when not shared at all; `offline` keeps editing and merges on reconnect
+export type SharedGraphStatus = 'local' | 'connecting' | 'online' | 'offline';
+
+interface Session {
+  doc: Y.Doc;
+  provider: WebsocketProvider;
+  // Local changes are only written once the room's graph has arrived
+  synced: boolean;
+}
+
+/**
+ * `useGraphHistory` backed by a Yjs document shared through a WebSocket room,
+ * when `options` are given. Local changes are written to the document as
+ * they are committed; changes from others come in through `receive`, so undo
+ * only ever undoes local changes.
+ *
+ * Changes made before the room is first reached (including with the server
+ * down) are written on top of the room's graph once it is: they are diffed
+ * against the graph the editor opened with, so only what was actually
+ * changed lands. After that Yjs keeps the document offline and merges it on
+ * reconnect.
+ *
+ * Workflow settings (see SharedMeta) are shared the same way through `meta`
+ * and `updateMeta`. Also shares presence (cursor, selection, drags in
+ * progress) and lists everyone else in the room.
+ */
+export const useSharedGraph = (initialGraph: WorkflowGraph, options?: SharedGraphOptions) => {
+  const sessionRef = useRef<Session | null>(null);
+  const initialGraphRef = useRef(initialGraph);
+  // The committed graph as of the last local change, for catching up on the first sync
+  const latestRef = useRef(initialGraph);
+  const initialMetaRef = useRef(options?.meta ?? {});
+  // Settings changed before the first sync, written on top of the room's then
+  const pendingMetaRef = useRef<SharedMeta>({});
+
+  const publish = useCallback<CommitListener>((before, after) => {
+    latestRef.current = after;
+    const session = sessionRef.current;
+    if (session?.synced) writeGraphChanges(session.doc, before, after);
+  }, []);
+
+  const history = useGraphHistory(initialGraph, publish);
+  const { graph, committed, receive } = history;
+
+  const [status, setStatus] = useState<SharedGraphStatus>(options ? 'connecting' : 'local');
+  const [peers, setPeers] = useState<Peer[]>([]);
+  const [meta, setMeta] = useState<SharedMeta>({});
+
+  const room = options?.room;
+  const seed = options?.seed;
+  const replace = options?.replace ?? false;
+
+  useEffect(() => {
+    if (room === undefined || seed === undefined) return;
+    const doc = new Y.Doc();
+    // Tabs share through the server like everyone else, so there is one way in for changes
+    const provider = new WebsocketProvider(COLLAB_URL, room, doc, { disableBc: true });
+    const session: Session = { doc, provider, synced: false };
+    sessionRef.current = session;
+
+    const { awareness } = provider;
+    const presence: Presence = {
+      name: getCollaboratorName(),
+      color: getPresenceColor(doc.clientID),
+      level: null,
+      cursor: null,
+      selection: [],
+      moving: [],
+      wire: null
+    };
+    awareness.setLocalState(presence);
+
+    const pull = () => {
+      const { graph: shared, orphans } = readSharedGraph(doc);
+      if (orphans.length > 0) removeConnections(doc, orphans);
+      receive(shared);
+      setMeta(readSharedMeta(doc));
+    };
+
+    const handleSync = (synced: boolean) => {
+      if (!synced || session.synced) return;
+      if (!isSeeded(doc)) seedSharedGraph(doc, initialGraphRef.current, initialMetaRef.current, seed);
+      session.synced = true;
+      writeGraphChanges(doc, replace ? readSharedGraph(doc).graph : initialGraphRef.current, latestRef.current);
+      writeSharedMeta(doc, { ...(replace && initialMetaRef.current), ...pendingMetaRef.current });
+      pendingMetaRef.current = {};
+      pull();
+    };
+
+    const handleUpdate = (_update: Uint8Array, _origin: unknown, _doc: Y.Doc, transaction: Y.Transaction) => {
+      if (session.synced && !transaction.local) pull();
+    };
+
+    const handleStatus = ({ status: next }: { status: 'connected' | 'disconnected' | 'connecting' }) => {
+      setStatus(next === 'connected' ? 'online' : next === 'connecting' && !session.synced ? 'connecting' : 'offline');
+    };
+
+    const handleAwareness = ({ added, updated, removed }: { added: number[]; updated: number[]; removed: number[] }) => {
+      // Our own cursor moving changes nothing here
+      if ([...added, ...updated, ...removed].every(clientId => clientId === doc.clientID)) return;
+      const next: Peer[] = [];
+      awareness.getStates().forEach((state, clientId) => {
+        if (clientId !== doc.clientID && typeof state.name === 'string') next.push({ ...(state as Presence), clientId });
+      });
+      setPeers(next);
+    };
+
+    provider.on('sync', handleSync);
+    provider.on('status', handleStatus);
+    doc.on('update', handleUpdate);
+    awareness.on('change', handleAwareness);
+
+    return () => {
+      awareness.off('change', handleAwareness);
+      doc.off('update', handleUpdate);
+      provider.off('status', handleStatus);
+      provider.off('sync', handleSync);
+      provider.destroy();
+      doc.destroy();
+      sessionRef.current = null;
+      setPeers([]);
+      setMeta({});
+    };
+  }, [room, seed, replace, receive]);
+
+  const updateMeta = useCallback((patch: SharedMeta) => {
+    const session = sessionRef.current;
+    if (!session?.synced) {
+      pendingMetaRef.current = { ...pendingMetaRef.current, ...patch };
+      return;
+    }
+    writeSharedMeta(session.doc, patch);
+    setMeta(readSharedMeta(session.doc));
+  }, []);
+
+  // Changes only what differs, so repeating the same presence sends nothing
+  const updatePresence = useCallback((patch: Partial<Presence>) => {
+    const awareness = sessionRef.current?.provider.awareness;
+    const current = awareness?.getLocalState() as Presence | null | undefined;
+    if (!awareness || !current) return;
+    const changed = (Object.keys(patch) as (keyof Presence)[])
+      .some(key => JSON.stringify(patch[key]) !== JSON.stringify(current[key]));
+    if (changed) awareness.setLocalState({ ...current, ...patch });
+  }, []);
+
+  // Whatever is previewed away from where it is committed is being dragged
+  useEffect(() => {
+    const committedAt = new Map([...committed.nodes, ...(committed.subflows ?? [])].map(item => [item.id, item]));
+    const moving = [...graph.nodes, ...(graph.subflows ?? [])].flatMap(({ id, x, y }) => {
+      const at = committedAt.get(id);
+      return at && (at.x !== x || at.y !== y) ? [{ id, x, y }] : [];
+    });
+    updatePresence({ moving });
+  }, [graph, committed, updatePresence]);
+
+  return { ...history, status, peers, updatePresence, meta, updateMeta };
+};
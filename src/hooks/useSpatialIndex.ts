@@ -0,0 +1,32 @@
+import { useRef } from 'react';
+import type { Bounds } from '@/lib/geometry';
+import { createSpatialIndex, type SpatialIndex } from '@/lib/spatialIndex';
+
+/**
+ * Spatial index over `items`, kept up to date across renders. Only items whose
+ * object changed since the last render (moved, resized, added) are re-indexed
+ * and removed ones are dropped, so dragging a node touches one entry rather
+ * than rebuilding the index.
+ */
+export const useSpatialIndex = <T extends { id: string }>(items: T[], getBounds: (item: T) => Bounds): SpatialIndex => {
+  const stateRef = useRef<{ index: SpatialIndex; indexed: Map<string, T> } | null>(null);
+  if (!stateRef.current) stateRef.current = { index: createSpatialIndex(), indexed: new Map() };
+  const { index, indexed } = stateRef.current;
+
+  const present = new Set<string>();
+  items.forEach(item => {
+    present.add(item.id);
+    if (indexed.get(item.id) === item) return;
+    index.set(item.id, getBounds(item));
+    indexed.set(item.id, item);
+  });
+  if (indexed.size > present.size) {
+    indexed.forEach((_, id) => {
+      if (present.has(id)) return;
+      index.remove(id);
+      indexed.delete(id);
+    });
+  }
+
+  return index;
+};
@@ -0,0 +1,58 @@
+import { useCallback, useState } from 'react';
+import type { Bounds, Point } from '@/lib/geometry';
+import type { Viewport } from '@/lib/workflow/types';
+
+export const MIN_ZOOM = 0.2;
+export const MAX_ZOOM = 3;
+
+const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+/**
+ * Pan/zoom state for the canvas. World coordinates are what nodes store; a
+ * world point p is drawn at screen point `p * zoom + (x, y)`, where screen
+ * points are relative to the canvas element's top-left corner.
+ */
+export const useViewport = (initialViewport: Viewport) => {
+  const [viewport, setViewport] = useState<Viewport>(initialViewport);
+
+  const screenToWorld = useCallback((point: Point): Point => ({
+    x: (point.x - viewport.x) / viewport.zoom,
+    y: (point.y - viewport.y) / viewport.zoom
+  }), [viewport]);
+
+  const panBy = useCallback((dx: number, dy: number) => {
+    setViewport(current => ({ ...current, x: current.x + dx, y: current.y + dy }));
+  }, []);
+
+  // Zooms by `factor` while keeping the world point under `anchor` (a screen point) fixed
+  const zoomAt = useCallback((anchor: Point, factor: number) => {
+    setViewport(current => {
+      const zoom = clampZoom(current.zoom * factor);
+      const scale = zoom / current.zoom;
+      return {
+        zoom,
+        x: anchor.x - (anchor.x - current.x) * scale,
+        y: anchor.y - (anchor.y - current.y) * scale
+      };
+    });
+  }, []);
+
+  // Centres `bounds` (world coordinates) in a screen area of `size`, leaving `padding` around it
+  const fitBounds = useCallback((bounds: Bounds, size: { width: number; height: number }, padding = 48) => {
+    const width = Math.max(bounds.maxX - bounds.minX, 1);
+    const height = Math.max(bounds.maxY - bounds.minY, 1);
+    const zoom = clampZoom(Math.min(
+      (size.width - padding * 2) / width,
+      (size.height - padding * 2) / height,
+      1
+    ));
+
+    setViewport({
+      zoom,
+      x: (size.width - width * zoom) / 2 - bounds.minX * zoom,
+      y: (size.height - height * zoom) / 2 - bounds.minY * zoom
+    });
+  }, []);
+
+  return { viewport, setViewport, screenToWorld, panBy, zoomAt, fitBounds };
+};
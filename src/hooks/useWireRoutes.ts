@@ -0,0 +1,50 @@
+import { useRef } from 'react';
+import type { Bounds } from '@/lib/geometry';
+import { routeWires, type WireRequest, type WireRoute } from '@/lib/wires';
+import type { WireStyle } from '@/lib/workflow/types';
+
+interface RouteCache {
+  wires: WireRequest[];
+  style: WireStyle;
+  obstacles: Bounds[];
+  routes: Map<string, WireRoute>;
+}
+
+const sameWires = (a: WireRequest[], b: WireRequest[]) =>
+  a.length === b.length && a.every((wire, index) => {
+    const other = b[index];
+    return wire.id === other.id &&
+      wire.start.x === other.start.x && wire.start.y === other.start.y &&
+      wire.end.x === other.end.x && wire.end.y === other.end.y;
+  });
+
+const sameBounds = (a: Bounds[], b: Bounds[]) =>
+  a.length === b.length && a.every((box, index) => {
+    const other = b[index];
+    return box.minX === other.minX && box.minY === other.minY && box.maxX === other.maxX && box.maxY === other.maxY;
+  });
+
+/**
+ * `routeWires` that only reroutes when a wire end or an obstacle actually
+ * moved. Renders that change neither (hover, selection, run status, the
+ * pointer during a wire drag) get the previous routes back, and wires whose
+ * route came out the same keep their previous route object, so memoized wire
+ * components only redraw the wires that changed.
+ */
+export const useWireRoutes = (wires: WireRequest[], style: WireStyle, obstacles: Bounds[]) => {
+  const cacheRef = useRef<RouteCache | null>(null);
+  const cache = cacheRef.current;
+  if (cache && cache.style === style && sameWires(cache.wires, wires) && sameBounds(cache.obstacles, obstacles)) {
+    return cache.routes;
+  }
+
+  const routes = routeWires(wires, style, obstacles);
+  if (cache) {
+    routes.forEach((route, id) => {
+      const previous = cache.routes.get(id);
+      if (previous?.path === route.path) routes.set(id, previous);
+    });
+  }
+  cacheRef.current = { wires, style, obstacles, routes };
+  return routes;
+};
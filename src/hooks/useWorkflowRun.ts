@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { executeWorkflow } from '@/lib/execution/executor';
+import { runNodeByType } from '@/lib/execution/runners';
+import { getNodeType } from '@/lib/nodeTypes';
+import type { NodeRunResult, WorkflowRunStatus } from '@/lib/execution/types';
+import type { NodeData, WorkflowGraph } from '@/lib/workflow/types';
+
+const NODE_TIMEOUT_MS = 30_000;
+
+// Types that enforce their own time limit (e.g. Code) aren't cut short by this one
+const timeoutFor = (node: NodeData) => (getNodeType(node.type)?.enforcesTimeout ? undefined : NODE_TIMEOUT_MS);
+
+export interface WorkflowRunState {
+  status: 'idle' | 'running' | WorkflowRunStatus;
+  nodes: Record<string, NodeRunResult>;
+  durationMs?: number;
+  // Set when the run could not start at all (e.g. the graph has a cycle)
+  error?: string;
+}
+
+const IDLE: WorkflowRunState = { status: 'idle', nodes: {} };
+
+// Runs the graph with the registered node types and exposes per-node progress as it happens
+export const useWorkflowRun = () => {
+  const [run, setRun] = useState<WorkflowRunState>(IDLE);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const start = useCallback((graph: WorkflowGraph) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    setRun({ status: 'running', nodes: {} });
+    executeWorkflow(graph, {
+      runNode: runNodeByType,
+      signal: controller.signal,
+      nodeTimeoutMs: timeoutFor,
+      onEvent: (event) => {
+        // Ignore stragglers from a run that has since been replaced
+        if (controllerRef.current !== controller) return;
+        if (event.type === 'node') {
+          setRun(current => ({ ...current, nodes: { ...current.nodes, [event.result.nodeId]: event.result } }));
+        } else {
+          setRun({ status: event.result.status, nodes: event.result.nodes, durationMs: event.result.durationMs });
+        }
+      }
+    }).catch(error => {
+      if (controllerRef.current !== controller) return;
+      setRun({ status: 'failed', nodes: {}, error: error instanceof Error ? error.message : String(error) });
+    });
+  }, []);
+
+  const cancel = useCallback(() => controllerRef.current?.abort(), []);
+
+  const reset = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setRun(IDLE);
+  }, []);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  return { run, start, cancel, reset };
+};
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { alignBoxes, distributeBoxes, snapToGuides, type AlignmentBox } from './alignment';
+import type { Bounds } from './geometry';
+
+const bounds = (x: number, y: number, width = 40, height = 40): Bounds => ({ minX: x, minY: y, maxX: x + width, maxY: y + height });
+const box = (x: number, y: number, ports: number[] = [], width = 40, height = 40): AlignmentBox => ({ bounds: bounds(x, y, width, height), ports });
+
+describe('snapToGuides', () => {
+  it('shifts by the smallest amount that lines up an edge or centre', () => {
+    // Left edges 3 apart, and nothing close enough vertically
+    expect(snapToGuides(box(103, 0), [box(100, 500)], 8)).toMatchObject({ dx: -3, dy: null });
+    // Moving's right edge 2 short of the other's centre
+    expect(snapToGuides(box(78, 0), [box(100, 500)], 8).dx).toBe(2);
+  });
+
+  it('leaves both axes alone with nothing within the threshold', () => {
+    expect(snapToGuides(box(0, 0), [box(200, 300)], 8)).toEqual({ dx: null, dy: null, guides: [] });
+  });
+
+  it('lines ports up with ports, not with edges', () => {
+    // The moving top edge at 37 is nearer the other's port at 38 than its own port at 36 is
+    const result = snapToGuides(box(500, 37, [36], 40, 60), [box(0, 100, [38], 40, 60)], 2);
+    expect(result.dy).toBe(2);
+    expect(result.guides).toEqual([{ orientation: 'horizontal', position: 38, start: 0, end: 540 }]);
+  });
+
+  it('draws one guide per line, reaching every box on it', () => {
+    const { guides } = snapToGuides(box(102, 300), [box(100, 0), box(100, 100)], 8);
+    const left = guides.filter(guide => guide.orientation === 'vertical' && guide.position === 100);
+    expect(left).toEqual([{ orientation: 'vertical', position: 100, start: 0, end: 340 }]);
+  });
+});
+
+describe('alignBoxes', () => {
+  const boxes = [{ id: 'a', bounds: bounds(0, 0, 40, 40) }, { id: 'b', bounds: bounds(100, 50, 80, 20) }];
+
+  it.each([
+    ['left', { x: 0, y: 0 }, { x: 0, y: 50 }],
+    ['center', { x: 70, y: 0 }, { x: 50, y: 50 }],
+    ['right', { x: 140, y: 0 }, { x: 100, y: 50 }],
+    ['top', { x: 0, y: 0 }, { x: 100, y: 0 }],
+    ['middle', { x: 0, y: 15 }, { x: 100, y: 25 }],
+    ['bottom', { x: 0, y: 30 }, { x: 100, y: 50 }]
+  ] as const)('lines boxes up on the %s', (edge, a, b) => {
+    const positions = alignBoxes(boxes, edge);
+    expect(positions.get('a')).toEqual(a);
+    expect(positions.get('b')).toEqual(b);
+  });
+});
+
+describe('distributeBoxes', () => {
+  it('evens out the gaps, keeping the outer boxes in place', () => {
+    const positions = distributeBoxes([
+      { id: 'last', bounds: bounds(300, 5, 40) },
+      { id: 'first', bounds: bounds(0, 0, 40) },
+      { id: 'wide', bounds: bounds(60, 10, 100) }
+    ], 'horizontal');
+    // 340 wide in all, 180 of it boxes, so two gaps of 80
+    expect(positions).toEqual(new Map([
+      ['first', { x: 0, y: 0 }],
+      ['wide', { x: 120, y: 10 }],
+      ['last', { x: 300, y: 5 }]
+    ]));
+  });
+
+  it('works along the vertical axis', () => {
+    const positions = distributeBoxes([
+      { id: 'a', bounds: bounds(0, 0) },
+      { id: 'b', bounds: bounds(7, 50) },
+      { id: 'c', bounds: bounds(3, 200) }
+    ], 'vertical');
+    expect(positions.get('b')).toEqual({ x: 7, y: 100 });
+  });
+
+  it('changes nothing with fewer than three boxes', () => {
+    expect(distributeBoxes([{ id: 'a', bounds: bounds(0, 0) }, { id: 'b', bounds: bounds(500, 0) }], 'horizontal').size).toBe(0);
+  });
+});
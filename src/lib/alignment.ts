@@ -0,0 +1,157 @@
+import { getInputAnchor, getNodeBounds, getOutputAnchor, type Bounds, type NodeShape, type Point } from './geometry';
+
+// A node as far as lining up goes: its button, and the heights of its ports
+export interface AlignmentBox {
+  bounds: Bounds;
+  ports: number[];
+}
+
+// A line drawn while dragging to show what the node lines up with, in world coordinates
+export interface Guide {
+  orientation: 'vertical' | 'horizontal';
+  position: number;
+  start: number;
+  end: number;
+}
+
+export type AlignEdge = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+
+export const getAlignmentBox = (position: Point, shape: NodeShape): AlignmentBox => ({
+  bounds: getNodeBounds(position, shape),
+  ports: [
+    ...Array.from({ length: shape.inputCount }, (_, index) => getInputAnchor(position, shape, index).y),
+    ...Array.from({ length: shape.outputCount }, (_, index) => getOutputAnchor(position, shape, index).y)
+  ]
+});
+
+interface Feature {
+  value: number;
+  // Edges and centres line up with each other; ports only with ports, so a
+  // wire between the two would run straight
+  kind: 'edge' | 'port';
+}
+
+const xFeatures = ({ bounds }: AlignmentBox): Feature[] => [
+  { value: bounds.minX, kind: 'edge' },
+  { value: (bounds.minX + bounds.maxX) / 2, kind: 'edge' },
+  { value: bounds.maxX, kind: 'edge' }
+];
+
+const yFeatures = ({ bounds, ports }: AlignmentBox): Feature[] => [
+  { value: bounds.minY, kind: 'edge' },
+  { value: (bounds.minY + bounds.maxY) / 2, kind: 'edge' },
+  { value: bounds.maxY, kind: 'edge' },
+  ...ports.map((value): Feature => ({ value, kind: 'port' }))
+];
+
+// Smallest shift within `threshold` that lines a moving feature up with another's
+const nearestShift = (moving: Feature[], others: Feature[][], threshold: number) => {
+  let best: number | null = null;
+  for (const features of others) {
+    for (const other of features) {
+      for (const feature of moving) {
+        const shift = other.value - feature.value;
+        if (other.kind !== feature.kind || Math.abs(shift) > threshold) continue;
+        if (best === null || Math.abs(shift) < Math.abs(best)) best = shift;
+      }
+    }
+  }
+  return best;
+};
+
+const shiftBox = (box: AlignmentBox, dx: number, dy: number): AlignmentBox => ({
+  bounds: { minX: box.bounds.minX + dx, minY: box.bounds.minY + dy, maxX: box.bounds.maxX + dx, maxY: box.bounds.maxY + dy },
+  ports: box.ports.map(port => port + dy)
+});
+
+/**
+ * How far to shift a dragged node so its edges, centre or ports line up with
+ * those of the nearest other node, per axis, and the guides to draw for
+ * everything it then lines up with. An axis with nothing within `threshold`
+ * gets a null shift.
+ */
+export const snapToGuides = (moving: AlignmentBox, others: AlignmentBox[], threshold: number) => {
+  const dx = nearestShift(xFeatures(moving), others.map(xFeatures), threshold);
+  const dy = nearestShift(yFeatures(moving), others.map(yFeatures), threshold);
+  const snapped = shiftBox(moving, dx ?? 0, dy ?? 0);
+
+  // One guide per line, long enough to reach every box on it
+  const lines = new Map<string, Guide>();
+  const addGuide = (orientation: Guide['orientation'], position: number, start: number, end: number) => {
+    const key = `${orientation}:${position}`;
+    const guide = lines.get(key);
+    lines.set(key, guide
+      ? { ...guide, start: Math.min(guide.start, start), end: Math.max(guide.end, end) }
+      : { orientation, position, start, end });
+  };
+  const lined = (a: Feature, b: Feature) => a.kind === b.kind && Math.abs(a.value - b.value) < 0.5;
+
+  others.forEach(other => {
+    if (dx !== null) {
+      xFeatures(snapped).forEach(feature => {
+        if (!xFeatures(other).some(candidate => lined(candidate, feature))) return;
+        addGuide('vertical', feature.value,
+          Math.min(snapped.bounds.minY, other.bounds.minY), Math.max(snapped.bounds.maxY, other.bounds.maxY));
+      });
+    }
+    if (dy !== null) {
+      yFeatures(snapped).forEach(feature => {
+        if (!yFeatures(other).some(candidate => lined(candidate, feature))) return;
+        addGuide('horizontal', feature.value,
+          Math.min(snapped.bounds.minX, other.bounds.minX), Math.max(snapped.bounds.maxX, other.bounds.maxX));
+      });
+    }
+  });
+
+  return { dx, dy, guides: Array.from(lines.values()) };
+};
+
+/**
+ * New top-left positions that line the boxes up along one edge or centre line
+ * of the box around all of them.
+ */
+export const alignBoxes = (boxes: { id: string; bounds: Bounds }[], edge: AlignEdge) => {
+  const minX = Math.min(...boxes.map(box => box.bounds.minX));
+  const minY = Math.min(...boxes.map(box => box.bounds.minY));
+  const maxX = Math.max(...boxes.map(box => box.bounds.maxX));
+  const maxY = Math.max(...boxes.map(box => box.bounds.maxY));
+
+  return new Map(boxes.map(({ id, bounds }): [string, Point] => {
+    const width = bounds.maxX - bounds.minX;
+    const height = bounds.maxY - bounds.minY;
+    switch (edge) {
+      case 'left': return [id, { x: minX, y: bounds.minY }];
+      case 'center': return [id, { x: Math.round((minX + maxX - width) / 2), y: bounds.minY }];
+      case 'right': return [id, { x: maxX - width, y: bounds.minY }];
+      case 'top': return [id, { x: bounds.minX, y: minY }];
+      case 'middle': return [id, { x: bounds.minX, y: Math.round((minY + maxY - height) / 2) }];
+      case 'bottom': return [id, { x: bounds.minX, y: maxY - height }];
+    }
+  }));
+};
+
+/**
+ * New top-left positions that leave equal gaps between the boxes along the
+ * axis, keeping the first and last where they are. Needs three boxes or more
+ * to change anything.
+ */
+export const distributeBoxes = (boxes: { id: string; bounds: Bounds }[], axis: 'horizontal' | 'vertical') => {
+  const start = (bounds: Bounds) => (axis === 'horizontal' ? bounds.minX : bounds.minY);
+  const size = (bounds: Bounds) => (axis === 'horizontal' ? bounds.maxX - bounds.minX : bounds.maxY - bounds.minY);
+  const sorted = [...boxes].sort((a, b) => start(a.bounds) - start(b.bounds));
+  const positions = new Map<string, Point>();
+  if (sorted.length < 3) return positions;
+
+  const first = sorted[0].bounds;
+  const last = sorted[sorted.length - 1].bounds;
+  const span = start(last) + size(last) - start(first);
+  const gap = (span - sorted.reduce((sum, box) => sum + size(box.bounds), 0)) / (sorted.length - 1);
+
+  let cursor = start(first);
+  sorted.forEach(({ id, bounds }) => {
+    const along = Math.round(cursor);
+    positions.set(id, axis === 'horizontal' ? { x: along, y: bounds.minY } : { x: bounds.minX, y: along });
+    cursor += size(bounds) + gap;
+  });
+  return positions;
+};
@@ -0,0 +1,39 @@
+import type { Point } from '@/lib/geometry';
+
+/**
+ * What each editor tells the others about themselves, through Yjs awareness.
+ * None of it is part of the workflow: it goes away when they leave.
+ */
+export interface Presence {
+  name: string;
+  color: string;
+  // Subflow they are looking into, or null for the top level. Cursors and
+  // drags are only shown to people looking at the same level.
+  level: string | null;
+  // Pointer in world coordinates, or null when it is off the canvas
+  cursor: Point | null;
+  selection: string[];
+  // Nodes (and collapsed subflows) they are dragging, where they are right now
+  moving: { id: string; x: number; y: number }[];
+  // A wire they are dragging, from its output to the pointer
+  wire: { from: Point; to: Point } | null;
+}
+
+export interface Peer extends Presence {
+  clientId: number;
+}
+
+const PRESENCE_COLORS = ['#e11d48', '#d97706', '#16a34a', '#0891b2', '#7c3aed', '#db2777', '#4f46e5', '#65a30d'];
+
+export const getPresenceColor = (clientId: number) => PRESENCE_COLORS[clientId % PRESENCE_COLORS.length];
+
+const NAME_KEY = 'workflow-builder:collaborator-name';
+
+// The name shown to others: picked once per browser and kept
+export const getCollaboratorName = () => {
+  const stored = window.localStorage.getItem(NAME_KEY);
+  if (stored) return stored;
+  const name = `Guest ${Math.floor(100 + Math.random() * 900)}`;
+  window.localStorage.setItem(NAME_KEY, name);
+  return name;
+};
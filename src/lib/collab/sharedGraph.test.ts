@@ -0,0 +1,167 @@
+import { describe, expect, it } from 'vitest';
+import * as Y from 'yjs';
+import {
+  isSeeded,
+  readSharedGraph,
+  readSharedMeta,
+  removeConnections,
+  seedSharedGraph,
+  writeGraphChanges,
+  writeSharedMeta
+} from './sharedGraph';
+import type { ConnectionData, NodeData, WorkflowGraph } from '@/lib/workflow/types';
+
+const node = (id: string, inputs: string[] = ['in'], config: NodeData['config'] = {}): NodeData => ({
+  id,
+  type: 'code',
+  x: 0,
+  y: 0,
+  title: id,
+  config,
+  inputs: inputs.map(inputId => ({ id: inputId, connected: false }))
+});
+
+const wire = (id: string, from: string, to: string, toInputId = 'in'): ConnectionData => ({
+  id,
+  fromNodeId: from,
+  fromOutputId: 'output',
+  toNodeId: to,
+  toInputId
+});
+
+// a -> b, c on its own
+const base: WorkflowGraph = {
+  nodes: [node('a', [], { label: 'first' }), node('b', ['in'], { label: 'second' }), node('c')],
+  connections: [wire('ab', 'a', 'b')],
+  frames: [],
+  subflows: []
+};
+
+// Two editors that opened the same saved revision
+const openPair = () => {
+  const docs = [new Y.Doc(), new Y.Doc()];
+  docs.forEach(doc => seedSharedGraph(doc, base, { revision: 1 }, 'workflow@1'));
+  return docs;
+};
+
+// Exchanges whatever each side is missing, as the provider would
+const sync = (left: Y.Doc, right: Y.Doc) => {
+  Y.applyUpdate(right, Y.encodeStateAsUpdate(left, Y.encodeStateVector(right)));
+  Y.applyUpdate(left, Y.encodeStateAsUpdate(right, Y.encodeStateVector(left)));
+};
+
+// Applies an edit the way the editor does: from what this side last read
+const edit = (doc: Y.Doc, change: (graph: WorkflowGraph) => WorkflowGraph) => {
+  const before = readSharedGraph(doc).graph;
+  writeGraphChanges(doc, before, change(before));
+};
+
+const mapNode = (id: string, change: (node: NodeData) => NodeData) => (graph: WorkflowGraph) => ({
+  ...graph,
+  nodes: graph.nodes.map(candidate => (candidate.id === id ? change(candidate) : candidate))
+});
+
+// Both sides see the same graph, which is returned
+const merged = (left: Y.Doc, right: Y.Doc) => {
+  sync(left, right);
+  const graph = readSharedGraph(left).graph;
+  expect(readSharedGraph(right).graph).toEqual(graph);
+  return graph;
+};
+
+describe('seedSharedGraph', () => {
+  it('merges two seeds of the same revision into one copy', () => {
+    const [left, right] = openPair();
+    const graph = merged(left, right);
+    expect(isSeeded(left)).toBe(true);
+    expect(graph.nodes.map(item => item.id)).toEqual(['a', 'b', 'c']);
+    expect(graph.connections).toEqual(base.connections);
+    expect(graph.nodes[1].inputs).toEqual([{ id: 'in', connected: true }]);
+    // Reading hides repeated ids, so check the stored order wasn't doubled
+    expect(left.getArray('nodesOrder').toArray()).toEqual(['a', 'b', 'c']);
+  });
+});
+
+describe('concurrent edits', () => {
+  it('keeps nodes added on both sides, in the same order everywhere', () => {
+    const [left, right] = openPair();
+    edit(left, graph => ({ ...graph, nodes: [...graph.nodes, node('fromLeft')] }));
+    edit(right, graph => ({ ...graph, nodes: [...graph.nodes, node('fromRight')] }));
+    const ids = merged(left, right).nodes.map(item => item.id);
+    expect(ids.slice(0, 3)).toEqual(['a', 'b', 'c']);
+    expect(ids.slice(3).sort()).toEqual(['fromLeft', 'fromRight']);
+  });
+
+  it('keeps changes to different fields of one node', () => {
+    const [left, right] = openPair();
+    edit(left, mapNode('a', item => ({ ...item, title: 'Fetch users' })));
+    edit(right, mapNode('a', item => ({ ...item, config: { ...item.config, retries: 3 } })));
+    edit(right, mapNode('a', item => ({ ...item, x: 40, y: 80 })));
+    expect(merged(left, right).nodes[0]).toMatchObject({ title: 'Fetch users', x: 40, y: 80, config: { label: 'first', retries: 3 } });
+  });
+
+  it('settles the same field on one of the two values, never a mix', () => {
+    const [left, right] = openPair();
+    edit(left, mapNode('a', item => ({ ...item, x: 10, y: 10 })));
+    edit(right, mapNode('a', item => ({ ...item, x: 99, y: 99 })));
+    const { x, y } = merged(left, right).nodes[0];
+    expect([{ x: 10, y: 10 }, { x: 99, y: 99 }]).toContainEqual({ x, y });
+  });
+
+  it('keeps inputs added on both sides', () => {
+    const [left, right] = openPair();
+    edit(left, mapNode('c', item => ({ ...item, inputs: [...item.inputs, { id: 'left', connected: false }] })));
+    edit(right, mapNode('c', item => ({ ...item, inputs: [...item.inputs, { id: 'right', connected: false }] })));
+    const inputs = merged(left, right).nodes[2].inputs.map(input => input.id);
+    expect(inputs[0]).toBe('in');
+    expect(inputs.slice(1).sort()).toEqual(['left', 'right']);
+  });
+
+  it('keeps a node removed on one side removed when the other edits it, dropping its wires', () => {
+    const [left, right] = openPair();
+    edit(left, graph => ({ ...graph, nodes: graph.nodes.filter(item => item.id !== 'a'), connections: [] }));
+    edit(right, mapNode('a', item => ({ ...item, title: 'Renamed' })));
+    edit(right, graph => ({ ...graph, connections: [...graph.connections, wire('ac', 'a', 'c')] }));
+    const graph = merged(left, right);
+    expect(graph.nodes.map(item => item.id)).toEqual(['b', 'c']);
+    expect(graph.connections).toEqual([]);
+    expect(graph.nodes[1].inputs).toEqual([{ id: 'in', connected: false }]);
+  });
+
+  it('keeps one of two wires plugged into the same input and reports the other', () => {
+    const [left, right] = openPair();
+    edit(left, graph => ({ ...graph, connections: [...graph.connections, wire('ac', 'a', 'c')] }));
+    edit(right, graph => ({ ...graph, connections: [...graph.connections, wire('bc', 'b', 'c')] }));
+    sync(left, right);
+
+    const { graph, orphans } = readSharedGraph(left);
+    expect(readSharedGraph(right)).toEqual({ graph, orphans });
+    expect(graph.connections.filter(conn => conn.toNodeId === 'c')).toHaveLength(1);
+    expect(orphans).toHaveLength(1);
+
+    removeConnections(left, orphans);
+    sync(left, right);
+    expect(readSharedGraph(right)).toEqual({ graph, orphans: [] });
+  });
+
+  it('keeps a node claimed by two subflows in the first, dropping the one left empty', () => {
+    const [left, right] = openPair();
+    edit(left, graph => ({ ...graph, subflows: [{ id: 'sLeft', title: 'Left', x: 0, y: 0, nodeIds: ['c'] }] }));
+    edit(right, graph => ({ ...graph, subflows: [{ id: 'sRight', title: 'Right', x: 0, y: 0, nodeIds: ['c'] }] }));
+    const { subflows } = merged(left, right);
+    expect(subflows).toHaveLength(1);
+    expect(subflows?.[0].nodeIds).toEqual(['c']);
+  });
+});
+
+describe('shared meta', () => {
+  it('never takes the room back to an older revision', () => {
+    const [left, right] = openPair();
+    writeSharedMeta(left, { revision: 3 });
+    sync(left, right);
+    // A save that finished later but started from an older revision
+    writeSharedMeta(right, { revision: 2, wireStyle: 'bezier' });
+    sync(left, right);
+    expect(readSharedMeta(left)).toEqual({ revision: 3, wireStyle: 'bezier' });
+  });
+});
@@ -0,0 +1,327 @@
+import * as Y from 'yjs';
+import type { ConnectionData, FrameData, NodeData, SubflowData, WireStyle, WorkflowGraph } from '@/lib/workflow/types';
+
+/**
+ * The graph as a Yjs document, so several editors can change it at once and
+ * merge. Each list in the graph is a map of items by id plus an array giving
+ * their order: adding and removing touch only the item's own entries, so
+ * concurrent adds and removes always merge.
+ *
+ * Nodes are maps of their fields, and their config a map of its fields, so
+ * two people changing different fields of the same node both keep their
+ * change; the same field is last-writer-wins. A node's position is one value,
+ * so a node moved by two people at once ends up where one of them put it,
+ * never at a mix of both. Inputs are an array of input ids, so inputs added
+ * concurrently are all kept. Connections, frames and subflows are small and
+ * replaced whole.
+ *
+ * Whether an input is connected isn't stored: it is worked out from the
+ * connections when the graph is read back.
+ *
+ * Beside the graph, a `meta` map holds what belongs to the workflow as a
+ * whole (see SharedMeta).
+ */
+
+type ListName = 'nodes' | 'connections' | 'frames' | 'subflows';
+
+const itemsOf = (doc: Y.Doc, list: ListName) => doc.getMap<unknown>(list);
+const orderOf = (doc: Y.Doc, list: ListName) => doc.getArray<string>(`${list}Order`);
+const metaOf = (doc: Y.Doc) => doc.getMap<unknown>('meta');
+
+const EMPTY_GRAPH: WorkflowGraph = { nodes: [], connections: [], frames: [], subflows: [] };
+
+type Identified = { id: string };
+
+// Removes ids gone from `after` and inserts each new one right after the id
+// before it in `after`, so concurrent inserts elsewhere in the list stay put
+const syncOrder = (order: Y.Array<string>, before: Identified[], after: Identified[]) => {
+  const beforeIds = new Set(before.map(item => item.id));
+  const afterIds = new Set(after.map(item => item.id));
+
+  const current = order.toArray();
+  for (let index = current.length - 1; index >= 0; index -= 1) {
+    if (beforeIds.has(current[index]) && !afterIds.has(current[index])) order.delete(index, 1);
+  }
+
+  after.forEach((item, index) => {
+    if (beforeIds.has(item.id)) return;
+    const previous = index > 0 ? after[index - 1].id : null;
+    const at = previous === null ? 0 : order.toArray().lastIndexOf(previous) + 1;
+    order.insert(at, [item.id]);
+  });
+};
+
+const syncIds = (ids: Y.Array<string>, before: string[], after: string[]) =>
+  syncOrder(ids, before.map(id => ({ id })), after.map(id => ({ id })));
+
+const createNodeItem = (node: NodeData) => {
+  const item = new Y.Map<unknown>();
+  const config = new Y.Map<unknown>();
+  Object.entries(node.config).forEach(([key, value]) => config.set(key, value));
+  const inputs = new Y.Array<string>();
+  inputs.push(node.inputs.map(input => input.id));
+
+  item.set('type', node.type);
+  item.set('title', node.title);
+  item.set('position', { x: node.x, y: node.y });
+  item.set('config', config);
+  item.set('inputs', inputs);
+  return item;
+};
+
+// Writes only the fields that changed, so a concurrent change to another field survives
+const updateNodeItem = (item: Y.Map<unknown>, before: NodeData, after: NodeData) => {
+  if (before.type !== after.type) item.set('type', after.type);
+  if (before.title !== after.title) item.set('title', after.title);
+  if (before.x !== after.x || before.y !== after.y) item.set('position', { x: after.x, y: after.y });
+
+  const config = item.get('config');
+  if (before.config !== after.config && config instanceof Y.Map) {
+    Object.keys(before.config).forEach(key => {
+      if (!(key in after.config)) config.delete(key);
+    });
+    Object.entries(after.config).forEach(([key, value]) => {
+      if (before.config[key] !== value) config.set(key, value);
+    });
+  }
+
+  const inputs = item.get('inputs');
+  if (before.inputs !== after.inputs && inputs instanceof Y.Array) {
+    syncIds(inputs, before.inputs.map(input => input.id), after.inputs.map(input => input.id));
+  }
+};
+
+// Items that are replaced whole whenever they change
+const syncPlainList = <T extends Identified>(doc: Y.Doc, list: ListName, before: T[], after: T[]) => {
+  const items = itemsOf(doc, list);
+  const previous = new Map(before.map(item => [item.id, item]));
+  syncOrder(orderOf(doc, list), before, after);
+  const afterIds = new Set(after.map(item => item.id));
+  before.forEach(item => {
+    if (!afterIds.has(item.id)) items.delete(item.id);
+  });
+  after.forEach(item => {
+    if (previous.get(item.id) !== item) items.set(item.id, { ...item });
+  });
+};
+
+/**
+ * Writes the difference between two versions of the graph to the document as
+ * one transaction. Only what changed from `before` to `after` is written, so
+ * anything someone else changed meanwhile is left alone; a node removed by
+ * someone else stays removed.
+ */
+export const writeGraphChanges = (doc: Y.Doc, before: WorkflowGraph, after: WorkflowGraph) => {
+  doc.transact(() => {
+    const nodes = itemsOf(doc, 'nodes');
+    const previous = new Map(before.nodes.map(node => [node.id, node]));
+    syncOrder(orderOf(doc, 'nodes'), before.nodes, after.nodes);
+    const afterIds = new Set(after.nodes.map(node => node.id));
+    before.nodes.forEach(node => {
+      if (!afterIds.has(node.id)) nodes.delete(node.id);
+    });
+    after.nodes.forEach(node => {
+      const old = previous.get(node.id);
+      if (!old) {
+        nodes.set(node.id, createNodeItem(node));
+        return;
+      }
+      const item = nodes.get(node.id);
+      if (old !== node && item instanceof Y.Map) updateNodeItem(item, old, node);
+    });
+
+    syncPlainList(doc, 'connections', before.connections, after.connections);
+    syncPlainList(doc, 'frames', before.frames ?? [], after.frames ?? []);
+    syncPlainList(doc, 'subflows', before.subflows ?? [], after.subflows ?? []);
+  });
+};
+
+// Ids in their shared order, each once; anything missing from the order goes last, by id
+const readIds = (doc: Y.Doc, list: ListName) => {
+  const items = itemsOf(doc, list);
+  const ids = new Set(orderOf(doc, list).toArray().filter(id => items.has(id)));
+  Array.from(items.keys()).sort().forEach(id => ids.add(id));
+  return Array.from(ids);
+};
+
+const readNode = (id: string, item: unknown): NodeData | null => {
+  if (!(item instanceof Y.Map)) return null;
+  const position = item.get('position') as { x: number; y: number } | undefined;
+  const config = item.get('config');
+  const inputs = item.get('inputs');
+  return {
+    id,
+    type: String(item.get('type')),
+    x: position?.x ?? 0,
+    y: position?.y ?? 0,
+    title: String(item.get('title') ?? ''),
+    config: config instanceof Y.Map ? config.toJSON() : {},
+    inputs: Array.from(new Set(inputs instanceof Y.Array ? inputs.toArray() as string[] : []))
+      .map(inputId => ({ id: inputId, connected: false }))
+  };
+};
+
+const readPlainList = <T>(doc: Y.Doc, list: ListName) => {
+  const items = itemsOf(doc, list);
+  return readIds(doc, list).map(id => items.get(id) as T);
+};
+
+// Subflows that hold nodes, each node in one of them, with parents that exist and never loop
+const readSubflows = (doc: Y.Doc, nodeIds: ReadonlySet<string>) => {
+  const claimed = new Set<string>();
+  const subflows = readPlainList<SubflowData>(doc, 'subflows').map(subflow => ({
+    ...subflow,
+    nodeIds: subflow.nodeIds.filter(nodeId => {
+      if (!nodeIds.has(nodeId) || claimed.has(nodeId)) return false;
+      claimed.add(nodeId);
+      return true;
+    })
+  }));
+
+  const byId = new Map(subflows.map(subflow => [subflow.id, subflow]));
+  const loops = (subflow: SubflowData) => {
+    const seen = new Set([subflow.id]);
+    let parent = subflow.parentId ? byId.get(subflow.parentId) : undefined;
+    while (parent) {
+      if (seen.has(parent.id)) return true;
+      seen.add(parent.id);
+      parent = parent.parentId ? byId.get(parent.parentId) : undefined;
+    }
+    return false;
+  };
+  const parented = subflows.map((subflow): SubflowData => (
+    subflow.parentId === undefined || (byId.has(subflow.parentId) && !loops(subflow))
+      ? subflow
+      : { id: subflow.id, title: subflow.title, x: subflow.x, y: subflow.y, nodeIds: subflow.nodeIds }
+  ));
+
+  const holdsNodes = (subflowId: string): boolean => parented.some(subflow => (
+    subflow.id === subflowId
+      ? subflow.nodeIds.length > 0
+      : subflow.parentId === subflowId && holdsNodes(subflow.id)
+  ));
+  return parented.filter(subflow => holdsNodes(subflow.id));
+};
+
+/**
+ * The graph as the document has it. Concurrent edits can leave it in states
+ * no single editor would make; these are settled the same way on every
+ * client, so everyone sees the same graph:
+ *
+ * - A wire whose node or input is gone is dropped.
+ * - When two wires end on one input, the one earlier in the shared order is
+ *   kept. The others are returned as `orphans` so they can be removed for good.
+ * - Frames and subflows forget nodes that are gone, a node in two subflows
+ *   stays in the first, and frames and subflows left empty are dropped.
+ */
+export const readSharedGraph = (doc: Y.Doc): { graph: WorkflowGraph; orphans: string[] } => {
+  const nodeItems = itemsOf(doc, 'nodes');
+  const nodes = readIds(doc, 'nodes').flatMap(id => readNode(id, nodeItems.get(id)) ?? []);
+  const nodesById = new Map(nodes.map(node => [node.id, node]));
+
+  const taken = new Set<string>();
+  const orphans: string[] = [];
+  const connections = readPlainList<ConnectionData>(doc, 'connections').filter(conn => {
+    const toNode = nodesById.get(conn.toNodeId);
+    const key = `${conn.toNodeId}/${conn.toInputId}`;
+    if (
+      !nodesById.has(conn.fromNodeId) || !toNode || conn.fromNodeId === conn.toNodeId ||
+      !toNode.inputs.some(input => input.id === conn.toInputId) || taken.has(key)
+    ) {
+      orphans.push(conn.id);
+      return false;
+    }
+    taken.add(key);
+    return true;
+  });
+
+  const nodeIds = new Set(nodesById.keys());
+  const frames = readPlainList<FrameData>(doc, 'frames')
+    .map(frame => ({ ...frame, nodeIds: frame.nodeIds.filter(nodeId => nodeIds.has(nodeId)) }))
+    .filter(frame => frame.nodeIds.length > 0);
+
+  return {
+    graph: {
+      nodes: nodes.map(node => ({
+        ...node,
+        inputs: node.inputs.map(input => ({ ...input, connected: taken.has(`${node.id}/${input.id}`) }))
+      })),
+      connections,
+      frames,
+      subflows: readSubflows(doc, nodeIds)
+    },
+    orphans
+  };
+};
+
+// Removes wires for good, e.g. the ones `readSharedGraph` dropped
+export const removeConnections = (doc: Y.Doc, connectionIds: string[]) => {
+  const items = itemsOf(doc, 'connections');
+  const order = orderOf(doc, 'connections');
+  doc.transact(() => {
+    connectionIds.forEach(id => items.delete(id));
+    const current = order.toArray();
+    for (let index = current.length - 1; index >= 0; index -= 1) {
+      if (connectionIds.includes(current[index])) order.delete(index, 1);
+    }
+  });
+};
+
+// FNV-1a, to turn a seed name into a Yjs client id
+const hashString = (value: string) => {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < value.length; index += 1) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Workflow settings everyone in the room shares
+export interface SharedMeta {
+  // Last revision saved to the store by anyone in the room
+  revision?: number;
+  wireStyle?: WireStyle;
+}
+
+export const readSharedMeta = (doc: Y.Doc): SharedMeta => {
+  const meta = metaOf(doc);
+  const revision = meta.get('revision');
+  const wireStyle = meta.get('wireStyle');
+  return {
+    ...(typeof revision === 'number' && { revision }),
+    ...(typeof wireStyle === 'string' && { wireStyle: wireStyle as WireStyle })
+  };
+};
+
+// Writes what differs from the document. The revision only ever goes up: a
+// save that landed earlier never takes the room back to an older revision.
+export const writeSharedMeta = (doc: Y.Doc, patch: SharedMeta) => {
+  const meta = metaOf(doc);
+  const current = readSharedMeta(doc);
+  doc.transact(() => {
+    if (patch.revision !== undefined && patch.revision > (current.revision ?? -Infinity)) {
+      meta.set('revision', patch.revision);
+    }
+    if (patch.wireStyle !== undefined && patch.wireStyle !== current.wireStyle) meta.set('wireStyle', patch.wireStyle);
+  });
+};
+
+// Whether the document has been filled from a saved workflow yet
+export const isSeeded = (doc: Y.Doc) => metaOf(doc).has('seed');
+
+/**
+ * Fills an empty document with a saved workflow. The writes are made as a
+ * client whose id comes from `seed` (e.g. the workflow id and revision), so
+ * two editors that open the same saved revision at once write exactly the
+ * same thing and their seeds merge into one instead of doubling up.
+ */
+export const seedSharedGraph = (doc: Y.Doc, graph: WorkflowGraph, meta: SharedMeta, seed: string) => {
+  const seedDoc = new Y.Doc();
+  seedDoc.clientID = hashString(seed);
+  writeGraphChanges(seedDoc, EMPTY_GRAPH, graph);
+  writeSharedMeta(seedDoc, meta);
+  metaOf(seedDoc).set('seed', seed);
+  Y.applyUpdate(doc, Y.encodeStateAsUpdate(seedDoc));
+  seedDoc.destroy();
+};
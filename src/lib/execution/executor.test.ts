@@ -0,0 +1,141 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { ConnectionData, NodeData, WorkflowGraph } from '@/lib/workflow/types';
+import { executeWorkflow } from './executor';
+import type { NodeExecutionContext } from './types';
+
+const node = (id: string): NodeData => ({
+  id,
+  type: 'test',
+  x: 0,
+  y: 0,
+  title: id,
+  config: {},
+  inputs: [{ id: 'in', connected: false }]
+});
+
+const wire = (from: string, to: string): ConnectionData => ({
+  id: `${from}-${to}`,
+  fromNodeId: from,
+  fromOutputId: 'out',
+  toNodeId: to,
+  toInputId: 'in'
+});
+
+const graphOf = (ids: string[], wires: [string, string][]): WorkflowGraph => ({
+  nodes: ids.map(node),
+  connections: wires.map(([from, to]) => wire(from, to))
+});
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Resolves after `ms`, or rejects as soon as the node's signal aborts
+const wait = (ms: number, signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(resolve, ms);
+  signal.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(signal.reason);
+  });
+});
+
+describe('executeWorkflow', () => {
+  it('runs each node after the nodes wired into it, with their outputs', async () => {
+    const started: string[] = [];
+    const graph = graphOf(['c', 'b', 'a'], [['a', 'b'], ['b', 'c']]);
+
+    const result = await executeWorkflow(graph, {
+      runNode: ({ node: { id }, inputs }: NodeExecutionContext) => {
+        started.push(id);
+        return `${inputs.in ?? ''}${id}`;
+      }
+    });
+
+    expect(started).toEqual(['a', 'b', 'c']);
+    expect(result.status).toBe('succeeded');
+    expect(result.nodes.c.output).toBe('abc');
+  });
+
+  it('never runs more nodes at once than the concurrency limit', async () => {
+    let active = 0;
+    let peak = 0;
+    const graph = graphOf(['a', 'b', 'c', 'd', 'e'], []);
+
+    const result = await executeWorkflow(graph, {
+      maxConcurrency: 2,
+      runNode: async () => {
+        active += 1;
+        peak = Math.max(peak, active);
+        await delay(5);
+        active -= 1;
+      }
+    });
+
+    expect(result.status).toBe('succeeded');
+    expect(peak).toBe(2);
+  });
+
+  it.each([0, -1, NaN])('refuses a concurrency limit of %s instead of never finishing', async (maxConcurrency) => {
+    const runNode = vi.fn();
+
+    await expect(executeWorkflow(graphOf(['a'], []), { maxConcurrency, runNode })).rejects.toThrow(RangeError);
+    expect(runNode).not.toHaveBeenCalled();
+  });
+
+  it('fails a node that runs past its time limit and skips what depends on it', async () => {
+    const graph = graphOf(['slow', 'after'], [['slow', 'after']]);
+
+    const result = await executeWorkflow(graph, {
+      nodeTimeoutMs: 10,
+      runNode: ({ signal }) => wait(1000, signal)
+    });
+
+    expect(result.status).toBe('failed');
+    expect(result.nodes.slow).toMatchObject({ status: 'failed', error: 'Timed out after 10 ms' });
+    expect(result.nodes.after.status).toBe('skipped');
+  });
+
+  it('leaves nodes without a time limit to run as long as they take', async () => {
+    const graph = graphOf(['limited', 'unlimited'], []);
+
+    const result = await executeWorkflow(graph, {
+      nodeTimeoutMs: ({ id }) => (id === 'limited' ? 10 : undefined),
+      runNode: ({ signal }) => wait(30, signal)
+    });
+
+    expect(result.nodes.limited.status).toBe('failed');
+    expect(result.nodes.unlimited.status).toBe('succeeded');
+  });
+
+  it('stops running nodes on cancel and skips the ones not started yet', async () => {
+    const controller = new AbortController();
+    const graph = graphOf(['first', 'second'], [['first', 'second']]);
+
+    const running = executeWorkflow(graph, {
+      signal: controller.signal,
+      runNode: ({ signal }) => wait(1000, signal)
+    });
+    await delay(5);
+    controller.abort();
+    const result = await running;
+
+    expect(result.status).toBe('cancelled');
+    expect(result.nodes.first).toMatchObject({ status: 'cancelled', error: 'Run was cancelled' });
+    expect(result.nodes.second).toMatchObject({ status: 'skipped', skippedReason: 'Run was cancelled' });
+  });
+
+  it('skips everything downstream of a failed node but keeps running other branches', async () => {
+    const graph = graphOf(['bad', 'child', 'grandchild', 'other'], [['bad', 'child'], ['child', 'grandchild']]);
+
+    const result = await executeWorkflow(graph, {
+      runNode: ({ node: { id } }) => {
+        if (id === 'bad') throw new Error('boom');
+        return id;
+      }
+    });
+
+    expect(result.status).toBe('failed');
+    expect(result.nodes.bad).toMatchObject({ status: 'failed', error: 'boom' });
+    expect(result.nodes.child).toMatchObject({ status: 'skipped', skippedReason: 'Upstream node bad did not succeed' });
+    expect(result.nodes.grandchild.status).toBe('skipped');
+    expect(result.nodes.other).toMatchObject({ status: 'succeeded', output: 'other' });
+  });
+});
@@ -0,0 +1,250 @@
+import type { ConnectionData, WorkflowGraph } from '@/lib/workflow/types';
+import { topologicalSort } from './topology';
+import type {
+  ExecuteWorkflowOptions,
+  LogLevel,
+  NodeRunResult,
+  WorkflowRunResult,
+  WorkflowRunStatus
+} from './types';
+
+export class NodeTimeoutError extends Error {
+  constructor(readonly timeoutMs: number) {
+    super(`Timed out after ${timeoutMs} ms`);
+    this.name = 'NodeTimeoutError';
+  }
+}
+
+export class ExecutionCancelledError extends Error {
+  constructor() {
+    super('Run was cancelled');
+    this.name = 'ExecutionCancelledError';
+  }
+}
+
+/**
+ * Returned by runners of nodes with several named outputs to send values out
+ * of specific ones, keyed by output id. Outputs left out are not taken, and
+ * nodes wired to them are skipped. Any other return value goes out of every
+ * output.
+ */
+export class NodeOutputs {
+  constructor(readonly values: Record<string, unknown>) {}
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+const groupBy = (connections: ConnectionData[], key: 'fromNodeId' | 'toNodeId') => {
+  const groups = new Map<string, ConnectionData[]>();
+  connections.forEach(conn => {
+    groups.set(conn[key], [...(groups.get(conn[key]) ?? []), conn]);
+  });
+  return groups;
+};
+
+// Settles with `work`, unless the node's signal aborts or its time limit passes first
+const runWithLimits = <T>(work: () => Promise<T>, controller: AbortController, timeoutMs: number | undefined) =>
+  new Promise<T>((resolve, reject) => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const onAbort = () => reject(controller.signal.reason ?? new ExecutionCancelledError());
+    const cleanUp = () => {
+      if (timer !== undefined) clearTimeout(timer);
+      controller.signal.removeEventListener('abort', onAbort);
+    };
+
+    if (controller.signal.aborted) {
+      onAbort();
+      return;
+    }
+    controller.signal.addEventListener('abort', onAbort);
+    if (timeoutMs !== undefined && Number.isFinite(timeoutMs)) {
+      timer = setTimeout(() => controller.abort(new NodeTimeoutError(timeoutMs)), timeoutMs);
+    }
+
+    work().then(
+      value => { cleanUp(); resolve(value); },
+      error => { cleanUp(); reject(error); }
+    );
+  });
+
+/**
+ * Runs a workflow graph. Each node starts as soon as every node wired into it
+ * has succeeded, so independent branches run concurrently; its output is
+ * handed to downstream nodes under the `toInputId` of each connection. Nodes
+ * behind a failed, skipped or cancelled node, or behind an output that was not
+ * taken (see NodeOutputs), are skipped.
+ *
+ * Cancelling through `signal` stops the nodes that are running, which end up
+ * `cancelled`, and skips the rest.
+ *
+ * The returned promise never rejects for node failures; those end up in the
+ * result. It does reject with WorkflowCycleError if the graph has a cycle, and
+ * with a RangeError if `maxConcurrency` is below 1.
+ */
+export const executeWorkflow = (graph: WorkflowGraph, options: ExecuteWorkflowOptions): Promise<WorkflowRunResult> => {
+  const { runNode, signal, nodeTimeoutMs, maxConcurrency = Infinity, onEvent } = options;
+  // Nothing would ever be started, and the run would never finish
+  if (!(maxConcurrency >= 1)) {
+    return Promise.reject(new RangeError(`maxConcurrency must be at least 1, got ${maxConcurrency}`));
+  }
+
+  let order: string[];
+  try {
+    order = topologicalSort(graph);
+  } catch (error) {
+    return Promise.reject(error);
+  }
+
+  const startedAt = Date.now();
+  const nodesById = new Map(graph.nodes.map(node => [node.id, node]));
+  const knownConnections = graph.connections.filter(conn => nodesById.has(conn.fromNodeId) && nodesById.has(conn.toNodeId));
+  const incoming = groupBy(knownConnections, 'toNodeId');
+  const outgoing = groupBy(knownConnections, 'fromNodeId');
+
+  const results: Record<string, NodeRunResult> = {};
+  const outputs = new Map<string, unknown>();
+
+  const isOutputTaken = (conn: ConnectionData) => {
+    const output = outputs.get(conn.fromNodeId);
+    return !(output instanceof NodeOutputs) || conn.fromOutputId in output.values;
+  };
+  const valueAlong = (conn: ConnectionData) => {
+    const output = outputs.get(conn.fromNodeId);
+    return output instanceof NodeOutputs ? output.values[conn.fromOutputId] : output;
+  };
+  const pendingUpstream = new Map(order.map(id => [id, incoming.get(id)?.length ?? 0]));
+
+  const update = (nodeId: string, patch: Partial<NodeRunResult>) => {
+    results[nodeId] = { ...results[nodeId], ...patch };
+    onEvent?.({ type: 'node', result: results[nodeId] });
+  };
+
+  order.forEach(id => update(id, { nodeId: id, status: 'queued', logs: [] }));
+
+  const timeoutFor = (id: string) => {
+    const node = nodesById.get(id);
+    if (!node) return undefined;
+    return typeof nodeTimeoutMs === 'function' ? nodeTimeoutMs(node) : nodeTimeoutMs;
+  };
+
+  return new Promise<WorkflowRunResult>(resolve => {
+    const ready = order.filter(id => pendingUpstream.get(id) === 0);
+    let active = 0;
+    let settled = 0;
+
+    const finish = () => {
+      const finishedAt = Date.now();
+      const statuses = Object.values(results).map(result => result.status);
+      const status: WorkflowRunStatus = signal?.aborted
+        ? 'cancelled'
+        : statuses.includes('failed') ? 'failed' : 'succeeded';
+
+      const result: WorkflowRunResult = {
+        status,
+        order,
+        nodes: results,
+        startedAt,
+        finishedAt,
+        durationMs: finishedAt - startedAt
+      };
+      onEvent?.({ type: 'finished', result });
+      resolve(result);
+    };
+
+    const settle = (id: string) => {
+      settled += 1;
+      outgoing.get(id)?.forEach(conn => {
+        const remaining = (pendingUpstream.get(conn.toNodeId) ?? 0) - 1;
+        pendingUpstream.set(conn.toNodeId, remaining);
+        if (remaining === 0) ready.push(conn.toNodeId);
+      });
+
+      if (settled === order.length) finish();
+      else pump();
+    };
+
+    const run = async (id: string) => {
+      const node = nodesById.get(id);
+      if (!node) return;
+
+      const controller = new AbortController();
+      const forwardAbort = () => controller.abort(new ExecutionCancelledError());
+      signal?.addEventListener('abort', forwardAbort);
+
+      const inputs = Object.fromEntries(
+        (incoming.get(id) ?? []).map(conn => [conn.toInputId, valueAlong(conn)])
+      );
+      const logs = results[id].logs;
+      const log = (message: string, level: LogLevel = 'info') => {
+        logs.push({ level, message, timestamp: Date.now() });
+      };
+
+      const nodeStartedAt = Date.now();
+      update(id, { status: 'running', inputs, startedAt: nodeStartedAt });
+
+      try {
+        const output = await runWithLimits(
+          async () => runNode({ node, inputs, signal: controller.signal, log }),
+          controller,
+          timeoutFor(id)
+        );
+        outputs.set(id, output);
+        const finishedAt = Date.now();
+        update(id, {
+          status: 'succeeded',
+          output: output instanceof NodeOutputs ? output.values : output,
+          logs: [...logs],
+          finishedAt,
+          durationMs: finishedAt - nodeStartedAt
+        });
+      } catch (error) {
+        const finishedAt = Date.now();
+        update(id, {
+          // Stopped by the run being cancelled rather than failing by itself
+          status: signal?.aborted ? 'cancelled' : 'failed',
+          error: errorMessage(error),
+          logs: [...logs],
+          finishedAt,
+          durationMs: finishedAt - nodeStartedAt
+        });
+      } finally {
+        signal?.removeEventListener('abort', forwardAbort);
+      }
+    };
+
+    const pump = () => {
+      while (ready.length > 0 && active < maxConcurrency) {
+        const id = ready.shift() as string;
+
+        if (signal?.aborted) {
+          update(id, { status: 'skipped', skippedReason: 'Run was cancelled' });
+          settle(id);
+          continue;
+        }
+
+        const blocker = (incoming.get(id) ?? []).find(conn => results[conn.fromNodeId]?.status !== 'succeeded');
+        if (blocker) {
+          update(id, { status: 'skipped', skippedReason: `Upstream node ${blocker.fromNodeId} did not succeed` });
+          settle(id);
+          continue;
+        }
+
+        const untaken = (incoming.get(id) ?? []).find(conn => !isOutputTaken(conn));
+        if (untaken) {
+          update(id, { status: 'skipped', skippedReason: `Output ${untaken.fromOutputId} of node ${untaken.fromNodeId} was not taken` });
+          settle(id);
+          continue;
+        }
+
+        active += 1;
+        run(id).then(() => {
+          active -= 1;
+          settle(id);
+        });
+      }
+    };
+
+    if (order.length === 0) finish();
+    else pump();
+  });
+};
@@ -0,0 +1,10 @@
+import { getNodeType } from '@/lib/nodeTypes';
+import { passThrough } from '@/lib/nodeTypes/builtins';
+import type { NodeRunner } from './types';
+
+// Dispatches to the node type's `run`. Types without one (or that are not
+// registered in this app) pass their input through unchanged.
+export const runNodeByType: NodeRunner = (context) => {
+  const run = getNodeType(context.node.type)?.run ?? passThrough;
+  return run(context);
+};
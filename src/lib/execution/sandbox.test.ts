@@ -0,0 +1,83 @@
+import { resolveObjectURL } from 'buffer';
+import vm from 'vm';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { runScript, ScriptError } from './sandbox';
+
+// What a script would reach if the worker didn't take it away
+const network = vi.fn(() => Promise.resolve('sent'));
+
+// Stands in for a browser Worker: runs the worker's source in a fresh global
+// scope that, like a worker's, starts out with fetch and friends
+class InlineWorker {
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+  private scope: vm.Context;
+  private ready: Promise<void>;
+
+  constructor(url: string) {
+    this.scope = vm.createContext({
+      fetch: network,
+      XMLHttpRequest: network,
+      importScripts: network,
+      postMessage: (data: unknown) => this.onmessage?.({ data })
+    });
+    vm.runInContext('var self = globalThis;', this.scope);
+    this.ready = (resolveObjectURL(url) as Blob).text().then(source => {
+      vm.runInContext(source, this.scope);
+    });
+  }
+
+  postMessage(data: unknown) {
+    void this.ready.then(() => this.scope.onmessage({ data }));
+  }
+
+  terminate() {}
+}
+
+beforeEach(() => {
+  vi.stubGlobal('Worker', InlineWorker);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  network.mockClear();
+});
+
+describe('runScript', () => {
+  it('returns what the script returns', async () => {
+    await expect(runScript({
+      source: 'return inputs[0] + 1;',
+      language: 'javascript',
+      args: { inputs: [41] }
+    })).resolves.toBe(42);
+  });
+
+  it('forwards console calls to the log', async () => {
+    const log = vi.fn();
+    await runScript({ source: 'console.warn("careful", { n: 1 });', language: 'javascript', args: {}, log });
+    expect(log).toHaveBeenCalledWith('careful {"n":1}', 'warn');
+  });
+
+  it('fails a script that tries to reach the network', async () => {
+    await expect(runScript({
+      source: 'return await fetch("/api/workflows", { method: "DELETE" });',
+      language: 'javascript',
+      args: {}
+    })).rejects.toThrow(ScriptError);
+    expect(network).not.toHaveBeenCalled();
+  });
+
+  it('does not let a script get fetch back from the global scope', async () => {
+    await expect(runScript({
+      source: `
+        for (let target = self; target; target = Object.getPrototypeOf(target)) {
+          if (typeof target.fetch === 'function') return 'reachable';
+        }
+        delete self.fetch;
+        return typeof fetch + ' ' + typeof XMLHttpRequest + ' ' + typeof importScripts;
+      `,
+      language: 'javascript',
+      args: {}
+    })).resolves.toBe('undefined undefined undefined');
+  });
+});
@@ -0,0 +1,174 @@
+import { transform } from 'sucrase';
+import { ExecutionCancelledError, NodeTimeoutError } from './executor';
+import type { LogLevel } from './types';
+
+export const DEFAULT_SCRIPT_TIMEOUT_MS = 5000;
+
+export type ScriptLanguage = 'javascript' | 'typescript';
+
+export interface RunScriptOptions {
+  // Function body; its return value (awaited) is the result
+  source: string;
+  language: ScriptLanguage;
+  // Named arguments the script can use, e.g. `inputs`. Must be structured-cloneable.
+  args: Record<string, unknown>;
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  log?: (message: string, level?: LogLevel) => void;
+}
+
+export class ScriptError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScriptError';
+  }
+}
+
+type WorkerMessage =
+  | { type: 'log'; level: LogLevel; message: string }
+  | { type: 'result'; value: unknown }
+  | { type: 'error'; message: string };
+
+// Runs inside the worker, given its global scope. Kept as a plain function so
+// it can be shipped as a Blob without any bundler support; it must not close
+// over anything.
+const workerMain = (scope: typeof globalThis) => {
+  // The worker has the app's origin and scripts can come from anyone sharing
+  // the workflow, so take away whatever reaches the network or this origin's
+  // storage before any script runs. Set on every object up the scope's
+  // prototype chain, and not configurable, so scripts can't get them back.
+  const blocked = [
+    'fetch',
+    'XMLHttpRequest',
+    'WebSocket',
+    'WebTransport',
+    'EventSource',
+    'importScripts',
+    'indexedDB',
+    'caches',
+    'BroadcastChannel',
+    'Worker',
+    'SharedWorker'
+  ];
+  for (let target: object | null = scope; target; target = Object.getPrototypeOf(target)) {
+    for (const name of blocked) {
+      const descriptor = Object.getOwnPropertyDescriptor(target, name);
+      if (descriptor?.configurable) {
+        Object.defineProperty(target, name, { value: undefined, writable: false, configurable: false });
+      }
+    }
+  }
+
+  const format = (value: unknown) => {
+    if (typeof value === 'string') return value;
+    try {
+      return JSON.stringify(value) ?? String(value);
+    } catch {
+      return String(value);
+    }
+  };
+  const post = (message: unknown) => (scope as unknown as Worker).postMessage(message);
+  const makeLogger = (level: string) => (...values: unknown[]) =>
+    post({ type: 'log', level, message: values.map(format).join(' ') });
+  const console = {
+    log: makeLogger('info'),
+    info: makeLogger('info'),
+    debug: makeLogger('debug'),
+    warn: makeLogger('warn'),
+    error: makeLogger('error')
+  };
+
+  scope.onmessage = async (event: MessageEvent<{ code: string; argNames: string[]; argValues: unknown[] }>) => {
+    const { code, argNames, argValues } = event.data;
+    try {
+      const script = new Function(...argNames, 'console', code);
+      const value = await script(...argValues, console);
+      try {
+        post({ type: 'result', value });
+      } catch {
+        post({ type: 'error', message: 'The script returned a value that cannot be copied out of the sandbox (functions, DOM nodes, …)' });
+      }
+    } catch (error) {
+      post({ type: 'error', message: error instanceof Error ? `${error.name}: ${error.message}` : String(error) });
+    }
+  };
+};
+
+let workerUrl: string | null = null;
+
+const getWorkerUrl = () => {
+  workerUrl ??= URL.createObjectURL(new Blob([`(${workerMain.toString()})(self);`], { type: 'text/javascript' }));
+  return workerUrl;
+};
+
+// Turns the script into plain JavaScript inside an async function, so `await`
+// and a top-level `return` both work. The function closes over the arguments.
+const compile = (source: string, language: ScriptLanguage) => {
+  const wrapped = `async function __script__() {\n${source}\n}`;
+  const code = language === 'typescript'
+    ? transform(wrapped, { transforms: ['typescript'], disableESTransforms: true }).code
+    : wrapped;
+  return `${code}\nreturn __script__();`;
+};
+
+/**
+ * Runs a user script in a dedicated Web Worker, so a busy loop can't freeze
+ * the page, and terminates the worker once the script settles, runs past its
+ * time limit or `signal` aborts. The worker has no DOM, network or storage
+ * access; values going in and out are structured-cloned. `console` calls inside the script are
+ * forwarded to `log`.
+ */
+export const runScript = ({
+  source,
+  language,
+  args,
+  timeoutMs = DEFAULT_SCRIPT_TIMEOUT_MS,
+  signal,
+  log
+}: RunScriptOptions): Promise<unknown> => new Promise((resolve, reject) => {
+  if (typeof Worker === 'undefined') {
+    reject(new ScriptError('Scripts can only run in the browser'));
+    return;
+  }
+  if (signal?.aborted) {
+    reject(signal.reason ?? new ExecutionCancelledError());
+    return;
+  }
+
+  let code: string;
+  try {
+    code = compile(source, language);
+  } catch (error) {
+    reject(new ScriptError(`Could not compile script: ${error instanceof Error ? error.message : String(error)}`));
+    return;
+  }
+
+  const worker = new Worker(getWorkerUrl());
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const settle = (finish: () => void) => {
+    if (timer !== undefined) clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+    worker.terminate();
+    finish();
+  };
+  const onAbort = () => settle(() => reject(signal?.reason ?? new ExecutionCancelledError()));
+
+  worker.onmessage = (event: MessageEvent<WorkerMessage>) => {
+    const message = event.data;
+    if (message.type === 'log') log?.(message.message, message.level);
+    else if (message.type === 'result') settle(() => resolve(message.value));
+    else settle(() => reject(new ScriptError(message.message)));
+  };
+  worker.onerror = (event) => {
+    event.preventDefault();
+    settle(() => reject(new ScriptError(event.message || 'Script failed')));
+  };
+
+  signal?.addEventListener('abort', onAbort);
+  if (Number.isFinite(timeoutMs)) {
+    timer = setTimeout(() => settle(() => reject(new NodeTimeoutError(timeoutMs))), timeoutMs);
+  }
+
+  worker.postMessage({ code, argNames: Object.keys(args), argValues: Object.values(args) });
+});
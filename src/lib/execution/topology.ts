@@ -0,0 +1,44 @@
+import type { WorkflowGraph } from '@/lib/workflow/types';
+
+export class WorkflowCycleError extends Error {
+  constructor(readonly nodeIds: string[]) {
+    super(`Workflow contains a cycle through nodes ${nodeIds.join(', ')}`);
+    this.name = 'WorkflowCycleError';
+  }
+}
+
+/**
+ * Orders node ids so every node comes after all nodes feeding into it (Kahn's
+ * algorithm). Ties keep the order of `graph.nodes`, so the result is stable.
+ * Throws WorkflowCycleError naming the nodes that could not be ordered.
+ */
+export const topologicalSort = (graph: WorkflowGraph): string[] => {
+  const inDegree = new Map(graph.nodes.map(node => [node.id, 0]));
+  const downstream = new Map<string, string[]>(graph.nodes.map(node => [node.id, []]));
+
+  graph.connections.forEach(conn => {
+    if (!inDegree.has(conn.fromNodeId) || !inDegree.has(conn.toNodeId)) return;
+    inDegree.set(conn.toNodeId, (inDegree.get(conn.toNodeId) ?? 0) + 1);
+    downstream.get(conn.fromNodeId)?.push(conn.toNodeId);
+  });
+
+  const order: string[] = [];
+  const ready = graph.nodes.filter(node => inDegree.get(node.id) === 0).map(node => node.id);
+
+  while (ready.length > 0) {
+    const id = ready.shift() as string;
+    order.push(id);
+    downstream.get(id)?.forEach(nextId => {
+      const remaining = (inDegree.get(nextId) ?? 0) - 1;
+      inDegree.set(nextId, remaining);
+      if (remaining === 0) ready.push(nextId);
+    });
+  }
+
+  if (order.length !== graph.nodes.length) {
+    const ordered = new Set(order);
+    throw new WorkflowCycleError(graph.nodes.filter(node => !ordered.has(node.id)).map(node => node.id));
+  }
+
+  return order;
+};
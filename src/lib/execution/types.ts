@@ -0,0 +1,65 @@
+import type { NodeData } from '@/lib/workflow/types';
+
+export type NodeRunStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled' | 'skipped';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface LogEntry {
+  level: LogLevel;
+  message: string;
+  timestamp: number;
+}
+
+export interface NodeExecutionContext {
+  node: NodeData;
+  // Upstream outputs keyed by the input id they are wired into (`toInputId`)
+  inputs: Record<string, unknown>;
+  // Aborted when the run is cancelled or this node times out
+  signal: AbortSignal;
+  log: (message: string, level?: LogLevel) => void;
+}
+
+// Computes one node's output, or a NodeOutputs for nodes with named outputs.
+// Anything thrown (or rejected) fails the node.
+export type NodeRunner = (context: NodeExecutionContext) => unknown | Promise<unknown>;
+
+export interface NodeRunResult {
+  nodeId: string;
+  status: NodeRunStatus;
+  inputs?: Record<string, unknown>;
+  // What the runner returned; for NodeOutputs, its values by output id
+  output?: unknown;
+  error?: string;
+  // Why the node did not run, for `skipped`
+  skippedReason?: string;
+  logs: LogEntry[];
+  startedAt?: number;
+  finishedAt?: number;
+  durationMs?: number;
+}
+
+export type WorkflowRunStatus = 'succeeded' | 'failed' | 'cancelled';
+
+export interface WorkflowRunResult {
+  status: WorkflowRunStatus;
+  // Topological order the scheduler worked from
+  order: string[];
+  nodes: Record<string, NodeRunResult>;
+  startedAt: number;
+  finishedAt: number;
+  durationMs: number;
+}
+
+export type ExecutionEvent =
+  | { type: 'node'; result: NodeRunResult }
+  | { type: 'finished'; result: WorkflowRunResult };
+
+export interface ExecuteWorkflowOptions {
+  runNode: NodeRunner;
+  signal?: AbortSignal;
+  // Per-node time limit in ms; return undefined from the function for no limit
+  nodeTimeoutMs?: number | ((node: NodeData) => number | undefined);
+  // Upper bound on nodes running at the same time, at least 1 (default: unlimited)
+  maxConcurrency?: number;
+  onEvent?: (event: ExecutionEvent) => void;
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_NODE_THEME,
+  getAddInputGrowth,
+  getInputAnchor,
+  getInputTop,
+  getNodeHeight,
+  type NodeShape
+} from './geometry';
+
+const { minNodeHeight, portSize, portSpacing, portMargin, inputAnchorInset } = DEFAULT_NODE_THEME;
+
+describe('getNodeHeight', () => {
+  it('keeps the minimum height for zero or one port', () => {
+    expect(getNodeHeight({ inputCount: 0, outputCount: 0 })).toBe(minNodeHeight);
+    expect(getNodeHeight({ inputCount: 1, outputCount: 1 })).toBe(minNodeHeight);
+  });
+
+  it('grows with the larger side once the ports no longer fit', () => {
+    // 3 ports: 3 * 12 + 2 * 8 + 2 * 8 = 68
+    const expected = 3 * portSize + 2 * portSpacing + 2 * portMargin;
+    expect(getNodeHeight({ inputCount: 3, outputCount: 1 })).toBe(expected);
+    expect(getNodeHeight({ inputCount: 1, outputCount: 3 })).toBe(expected);
+  });
+
+  it('grows by just a port when the ADD preview takes one input to two', () => {
+    expect(getNodeHeight({ inputCount: 1, outputCount: 1, addInputPreview: true })).toBe(minNodeHeight + portSize);
+  });
+
+  it('sizes for one more input with the ADD preview otherwise', () => {
+    const shape: NodeShape = { inputCount: 3, outputCount: 1 };
+    expect(getNodeHeight({ ...shape, addInputPreview: true })).toBe(getNodeHeight({ ...shape, inputCount: 4 }));
+    expect(getNodeHeight({ ...shape, addInputPreview: true }) - getNodeHeight(shape)).toBe(getAddInputGrowth());
+  });
+
+  it('lets the ADD preview of an empty node fit in the minimum height', () => {
+    expect(getNodeHeight({ inputCount: 0, outputCount: 1, addInputPreview: true })).toBe(minNodeHeight);
+  });
+});
+
+describe('getInputTop', () => {
+  it('centres a single input', () => {
+    expect(getInputTop({ inputCount: 1, outputCount: 1 }, 0)).toBe((minNodeHeight - portSize) / 2);
+  });
+
+  it('puts the first ADD input in the middle of the node', () => {
+    expect(getInputTop({ inputCount: 0, outputCount: 1, addInputPreview: true }, 0)).toBe((minNodeHeight - portSize) / 2);
+  });
+
+  it('keeps the single input in place and puts ADD below it going from one input to two', () => {
+    const resting: NodeShape = { inputCount: 1, outputCount: 1 };
+    const preview: NodeShape = { ...resting, addInputPreview: true };
+    expect(getInputTop(preview, 0)).toBe(getInputTop(resting, 0));
+    expect(getInputTop(preview, 1)).toBe(getInputTop(resting, 0) + portSize + portSpacing);
+  });
+
+  it('stacks inputs with the port spacing, centred in the resting height', () => {
+    const shape: NodeShape = { inputCount: 3, outputCount: 1 };
+    expect(getInputTop(shape, 0)).toBe(portMargin);
+    expect(getInputTop(shape, 2)).toBe(portMargin + 2 * (portSize + portSpacing));
+    expect(getInputTop({ ...shape, addInputPreview: true }, 0)).toBe(portMargin);
+  });
+});
+
+describe('getInputAnchor', () => {
+  it('ends wires left of the node, level with the middle of the port', () => {
+    const shape: NodeShape = { inputCount: 2, outputCount: 1 };
+    expect(getInputAnchor({ x: 100, y: 200 }, shape, 1)).toEqual({
+      x: 100 - inputAnchorInset,
+      y: 200 + getInputTop(shape, 1) + portSize / 2
+    });
+  });
+
+  it('does not move the existing input when the ADD preview grows a node from one input to two', () => {
+    const position = { x: 10, y: 20 };
+    const resting: NodeShape = { inputCount: 1, outputCount: 1 };
+    const preview: NodeShape = { ...resting, addInputPreview: true };
+    expect(getInputAnchor(position, preview, 0)).toEqual(getInputAnchor(position, resting, 0));
+    expect(getInputAnchor(position, preview, 1).y - getInputAnchor(position, preview, 0).y).toBe(portSize + portSpacing);
+  });
+});
@@ -0,0 +1,188 @@
+import { getNodeOutputs } from '@/lib/nodeTypes';
+import type { NodeData } from '@/lib/workflow/types';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+/**
+ * Sizes the node layout is built from. Everything else (port positions, node
+ * heights, hit zones, where the title goes) is derived from these, so the
+ * canvas' hit-testing and wire ends always agree with what WorkflowNode draws.
+ */
+export interface NodeTheme {
+  // The square node button; nodes only grow taller, never wider
+  nodeWidth: number;
+  minNodeHeight: number;
+  // Port connectors are squares of this size, stacked with a gap between them
+  portSize: number;
+  portSpacing: number;
+  // Space above the first and below the last port once ports set the height
+  portMargin: number;
+  // How far left of the node's edge a wire ends: the base of the input triangle
+  inputAnchorInset: number;
+  // Gap between the node and its title, and the lowest the title starts
+  labelGap: number;
+  minLabelTop: number;
+  // Room the title and label take up under the node
+  labelHeight: number;
+  // Drop zones reach this far out on both sides of a node
+  dropZoneWidth: number;
+  // Height of the band around an input that catches a dropped wire; fingers
+  // and pens get a taller one since they cover the port
+  dropZoneHeight: number;
+  coarseDropZoneHeight: number;
+}
+
+export const DEFAULT_NODE_THEME: NodeTheme = {
+  nodeWidth: 48,
+  minNodeHeight: 48,
+  portSize: 12,
+  portSpacing: 8,
+  portMargin: 8,
+  inputAnchorInset: 8,
+  labelGap: 16,
+  minLabelTop: 64,
+  labelHeight: 48,
+  dropZoneWidth: 120,
+  dropZoneHeight: 16,
+  coarseDropZoneHeight: 40
+};
+
+// What a node's layout depends on
+export interface NodeShape {
+  inputCount: number;
+  outputCount: number;
+  // A dragged wire hovers a node whose inputs are all taken, so an extra
+  // "ADD" input is shown below them
+  addInputPreview?: boolean;
+}
+
+// A node's ports as stored, without any drag preview
+export const getRestingShape = (node: NodeData): NodeShape => ({
+  inputCount: node.inputs.length,
+  outputCount: getNodeOutputs(node).length
+});
+
+const portGroupHeight = (count: number, theme: NodeTheme) =>
+  count * theme.portSize + Math.max(0, count - 1) * theme.portSpacing;
+
+const heightForPorts = (portCount: number, theme: NodeTheme) =>
+  portCount <= 1
+    ? theme.minNodeHeight
+    : Math.max(theme.minNodeHeight, portGroupHeight(portCount, theme) + 2 * theme.portMargin);
+
+/**
+ * Height of the node button. With an ADD preview the node grows by one port,
+ * except that a node going from one input to two grows by just a port's size
+ * (the single input stays where it was, centred).
+ */
+export const getNodeHeight = (shape: NodeShape, theme = DEFAULT_NODE_THEME) => {
+  const { inputCount, outputCount, addInputPreview } = shape;
+  if (!addInputPreview) return heightForPorts(Math.max(inputCount, outputCount), theme);
+  if (inputCount === 1) {
+    return Math.max(heightForPorts(1, theme) + theme.portSize, heightForPorts(Math.max(1, outputCount), theme));
+  }
+  return heightForPorts(Math.max(inputCount + 1, outputCount), theme);
+};
+
+// How much taller an ADD preview can make a node
+export const getAddInputGrowth = (theme = DEFAULT_NODE_THEME) => theme.portSize + theme.portSpacing;
+
+/**
+ * Top of input `index`'s connector, relative to the node. Existing inputs are
+ * centred as a group in the node's resting height and stay put while an ADD
+ * preview is shown; the ADD input (`index === inputCount`) goes right below
+ * them, or in the middle of the node when it is the first input.
+ */
+export const getInputTop = (shape: NodeShape, index: number, theme = DEFAULT_NODE_THEME) => {
+  const { inputCount } = shape;
+  if (inputCount === 0) return getNodeHeight(shape, theme) / 2 - theme.portSize / 2;
+
+  const restingHeight = getNodeHeight({ ...shape, addInputPreview: false }, theme);
+  const groupTop = (restingHeight - portGroupHeight(inputCount, theme)) / 2;
+  return groupTop + index * (theme.portSize + theme.portSpacing);
+};
+
+// Top of output `index`'s connector. Outputs are centred as a group in the current height.
+export const getOutputTop = (shape: NodeShape, index: number, theme = DEFAULT_NODE_THEME) =>
+  (getNodeHeight(shape, theme) - portGroupHeight(shape.outputCount, theme)) / 2 +
+  index * (theme.portSize + theme.portSpacing);
+
+// Left of the output circles, which sit centred on the node's right edge
+export const getOutputLeft = (theme = DEFAULT_NODE_THEME) => theme.nodeWidth - theme.portSize / 2;
+
+// Where a wire into input `index` ends, in world coordinates
+export const getInputAnchor = (position: Point, shape: NodeShape, index: number, theme = DEFAULT_NODE_THEME): Point => ({
+  x: position.x - theme.inputAnchorInset,
+  y: position.y + getInputTop(shape, index, theme) + theme.portSize / 2
+});
+
+// Where a wire out of output `index` starts: the centre of its circle
+export const getOutputAnchor = (position: Point, shape: NodeShape, index: number, theme = DEFAULT_NODE_THEME): Point => ({
+  x: position.x + theme.nodeWidth,
+  y: position.y + getOutputTop(shape, index, theme) + theme.portSize / 2
+});
+
+// The node button
+export const getNodeBounds = (position: Point, shape: NodeShape, theme = DEFAULT_NODE_THEME): Bounds => ({
+  minX: position.x,
+  minY: position.y,
+  maxX: position.x + theme.nodeWidth,
+  maxY: position.y + getNodeHeight(shape, theme)
+});
+
+// Everything a node draws: ports sticking out on both sides and the title underneath
+export const getNodeFootprint = (position: Point, shape: NodeShape, theme = DEFAULT_NODE_THEME): Bounds => ({
+  minX: position.x - theme.portSize,
+  minY: position.y,
+  maxX: position.x + theme.nodeWidth + theme.portSize / 2,
+  maxY: position.y + getNodeHeight(shape, theme) + theme.labelHeight
+});
+
+// Top of the title under the node, relative to the node
+export const getLabelTop = (shape: NodeShape, theme = DEFAULT_NODE_THEME) =>
+  Math.max(getNodeHeight(shape, theme) + theme.labelGap, theme.minLabelTop);
+
+const getDropZoneHeight = (coarse: boolean, theme: NodeTheme) =>
+  coarse ? theme.coarseDropZoneHeight : theme.dropZoneHeight;
+
+// Area where releasing a wire adds a new input to the node
+export const getNodeDropZone = (position: Point, shape: NodeShape, coarse = false, theme = DEFAULT_NODE_THEME): Bounds => {
+  const zoneHeight = getDropZoneHeight(coarse, theme);
+  return {
+    minX: position.x - theme.dropZoneWidth,
+    minY: position.y - zoneHeight / 2,
+    maxX: position.x + theme.nodeWidth + theme.dropZoneWidth,
+    maxY: position.y + getNodeHeight(shape, theme) + zoneHeight / 2
+  };
+};
+
+// Area where releasing a wire connects it to input `index`
+export const getInputDropZone = (
+  position: Point,
+  shape: NodeShape,
+  index: number,
+  coarse = false,
+  theme = DEFAULT_NODE_THEME
+): Bounds => {
+  const zoneHeight = getDropZoneHeight(coarse, theme);
+  const anchorY = getInputAnchor(position, shape, index, theme).y;
+  return {
+    minX: position.x - theme.dropZoneWidth,
+    minY: anchorY - zoneHeight / 2,
+    maxX: position.x + theme.nodeWidth + theme.dropZoneWidth,
+    maxY: anchorY + zoneHeight / 2
+  };
+};
+
+export const containsPoint = (bounds: Bounds, point: Point) =>
+  point.x >= bounds.minX && point.x <= bounds.maxX && point.y >= bounds.minY && point.y <= bounds.maxY;
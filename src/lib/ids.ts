@@ -0,0 +1,15 @@
+let fallbackCounter = 0;
+
+/**
+ * Unique id with a readable prefix, e.g. `node_1f0c…`. Unlike `Date.now()`
+ * based ids, these don't collide when many are created in the same
+ * millisecond (pasting, duplicating) or in different tabs.
+ */
+export const createId = (prefix: string) => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return `${prefix}_${crypto.randomUUID()}`;
+  }
+  // crypto.randomUUID is missing on insecure (plain http, non-localhost) origins
+  fallbackCounter += 1;
+  return `${prefix}_${Date.now().toString(36)}${fallbackCounter.toString(36)}${Math.random().toString(36).slice(2, 10)}`;
+};
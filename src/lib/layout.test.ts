@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_NODE_THEME, getNodeHeight, getRestingShape } from './geometry';
+import { layoutGraph } from './layout';
+import type { ConnectionData, NodeData, WorkflowGraph } from '@/lib/workflow/types';
+
+const node = (id: string, x: number, y: number, inputs: string[] = ['in']): NodeData => ({
+  id,
+  type: 'code',
+  x,
+  y,
+  title: id,
+  config: {},
+  inputs: inputs.map(inputId => ({ id: inputId, connected: true }))
+});
+
+const wire = (from: string, to: string, toInputId = 'in'): ConnectionData => ({
+  id: `${from}-${to}-${toInputId}`,
+  fromNodeId: from,
+  fromOutputId: 'output',
+  toNodeId: to,
+  toInputId
+});
+
+// A node and its gap to the next layer
+const LAYER_WIDTH = 200;
+
+const nodeBox = (graph: WorkflowGraph, id: string, point: { x: number; y: number }) => {
+  const found = graph.nodes.find(candidate => candidate.id === id) as NodeData;
+  const height = getNodeHeight(getRestingShape(found)) + DEFAULT_NODE_THEME.labelHeight;
+  return { top: point.y, bottom: point.y + height };
+};
+
+describe('layoutGraph', () => {
+  it('puts each node one layer right of its furthest input, starting at the top-left corner', () => {
+    // a -> b -> c, and a -> c directly
+    const graph = {
+      nodes: [node('c', 0, 0), node('a', 40, 300), node('b', 900, 10)],
+      connections: [wire('a', 'b'), wire('b', 'c'), wire('a', 'c')]
+    };
+    const positions = layoutGraph(graph);
+    expect(positions.get('a')?.x).toBe(0);
+    expect(positions.get('b')?.x).toBe(LAYER_WIDTH);
+    expect(positions.get('c')?.x).toBe(LAYER_WIDTH * 2);
+    expect(Math.min(...Array.from(positions.values(), point => point.y))).toBe(0);
+  });
+
+  it('lines a chain up so its wires run straight', () => {
+    const graph = { nodes: [node('a', 0, 0, []), node('b', 500, 300), node('c', 100, 900)], connections: [wire('a', 'b'), wire('b', 'c')] };
+    const positions = layoutGraph(graph);
+    expect(new Set(Array.from(positions.values(), point => point.y)).size).toBe(1);
+  });
+
+  it('moves a source up next to what it feeds instead of leaving it on a long wire', () => {
+    // a -> b -> c -> d, and late -> d
+    const graph = {
+      nodes: [node('a', 0, 0, []), node('b', 0, 0), node('c', 0, 0), node('d', 0, 0, ['in', 'in2']), node('late', 0, 200, [])],
+      connections: [wire('a', 'b'), wire('b', 'c'), wire('c', 'd'), wire('late', 'd', 'in2')]
+    };
+    expect(layoutGraph(graph).get('late')?.x).toBe(LAYER_WIDTH * 2);
+  });
+
+  it('keeps nodes in a layer from overlapping', () => {
+    const graph = {
+      nodes: [node('a', 0, 0, []), node('b', 0, 0), node('c', 0, 0), node('d', 0, 0)],
+      connections: [wire('a', 'b'), wire('a', 'c'), wire('a', 'd')]
+    };
+    const positions = layoutGraph(graph);
+    const boxes = ['b', 'c', 'd']
+      .map(id => nodeBox(graph, id, positions.get(id) as { x: number; y: number }))
+      .sort((first, second) => first.top - second.top);
+    boxes.slice(1).forEach((current, i) => expect(current.top).toBeGreaterThanOrEqual(boxes[i].bottom));
+  });
+
+  it('orders a layer so wires do not cross', () => {
+    // Sources stacked top to bottom feed targets stacked the other way round
+    const graph = {
+      nodes: [node('s1', 0, 0, []), node('s2', 0, 200, []), node('t1', 300, 200), node('t2', 300, 0)],
+      connections: [wire('s1', 't1'), wire('s2', 't2')]
+    };
+    const positions = layoutGraph(graph);
+    const below = (id: string, other: string) => (positions.get(id)?.y ?? 0) > (positions.get(other)?.y ?? 0);
+    expect(below('s2', 's1')).toBe(below('t2', 't1'));
+  });
+
+  it('stacks unconnected groups in their current top-to-bottom order', () => {
+    const graph = {
+      nodes: [node('lower', 0, 500, []), node('upper', 0, 100, []), node('upperNext', 0, 100)],
+      connections: [wire('upper', 'upperNext')]
+    };
+    const positions = layoutGraph(graph);
+    expect(positions.get('upper')?.y).toBe(100);
+    expect(positions.get('lower')?.y).toBeGreaterThan(positions.get('upper')?.y ?? 0);
+  });
+
+  it('arranges only the given nodes, using only the wires between them', () => {
+    const graph = {
+      nodes: [node('a', 0, 0, []), node('b', 400, 80), node('c', 400, 160)],
+      connections: [wire('a', 'b'), wire('b', 'c')]
+    };
+    const positions = layoutGraph(graph, new Set(['b', 'c']));
+    expect(Array.from(positions.keys()).sort()).toEqual(['b', 'c']);
+    expect(positions.get('b')).toEqual({ x: 400, y: 80 });
+    expect(positions.get('c')?.x).toBe(400 + LAYER_WIDTH);
+  });
+
+  it('finishes on a graph with a cycle or a self-wire', () => {
+    const graph = {
+      nodes: [node('a', 0, 0), node('b', 0, 0)],
+      connections: [wire('a', 'b'), wire('b', 'a'), wire('a', 'a')]
+    };
+    expect(layoutGraph(graph).size).toBe(2);
+  });
+
+  it('returns nothing for an empty selection', () => {
+    expect(layoutGraph({ nodes: [node('a', 0, 0)], connections: [] }, new Set()).size).toBe(0);
+  });
+});
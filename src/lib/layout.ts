@@ -0,0 +1,307 @@
+import { DEFAULT_NODE_THEME, getInputTop, getNodeHeight, getOutputTop, getRestingShape, type Point } from './geometry';
+import { getNodeOutputs } from '@/lib/nodeTypes';
+import type { ConnectionData, NodeData, WorkflowGraph } from '@/lib/workflow/types';
+
+// Space between layers; with the node itself a layer is 200px wide
+const LAYER_GAP = 152;
+// Space between nodes stacked in a layer
+const NODE_GAP = 32;
+// Space between groups of nodes that aren't connected to each other
+const COMPONENT_GAP = 80;
+// Room kept for a wire passing through a layer it doesn't stop in, and
+// between such a wire and whatever is next to it
+const PASS_THROUGH_HEIGHT = 12;
+const PASS_THROUGH_GAP = 8;
+// Rounds of the ordering and alignment heuristics; more rarely helps
+const ORDERING_SWEEPS = 12;
+const ALIGNMENT_SWEEPS = 8;
+
+// A slot in a layer: a node, or a point a longer wire passes through
+interface Vertex {
+  node?: NodeData;
+  rank: number;
+  // The node's top or the wire's y, and the space taken above and below it
+  top: number;
+  above: number;
+  below: number;
+}
+
+// A wire between vertices in neighbouring layers. Offsets are where it attaches
+// relative to each end's `top`; ports are the attachment's place among the
+// vertex's ports, from -0.5 (top) to 0.5 (bottom).
+interface Segment {
+  from: number;
+  to: number;
+  fromOffset: number;
+  toOffset: number;
+  fromPort: number;
+  toPort: number;
+}
+
+const portFraction = (index: number, count: number) => (index + 0.5) / Math.max(1, count) - 0.5;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// Groups of nodes connected to each other, in the order their first node appears
+const findComponents = (nodes: NodeData[], connections: ConnectionData[]) => {
+  const parent = new Map(nodes.map(node => [node.id, node.id]));
+  const find = (id: string): string => {
+    const next = parent.get(id) ?? id;
+    if (next === id) return id;
+    const root = find(next);
+    parent.set(id, root);
+    return root;
+  };
+  connections.forEach(conn => parent.set(find(conn.fromNodeId), find(conn.toNodeId)));
+
+  const components = new Map<string, { nodes: NodeData[]; connections: ConnectionData[] }>();
+  nodes.forEach(node => {
+    const root = find(node.id);
+    const component = components.get(root) ?? { nodes: [], connections: [] };
+    component.nodes.push(node);
+    components.set(root, component);
+  });
+  connections.forEach(conn => components.get(find(conn.fromNodeId))?.connections.push(conn));
+  return Array.from(components.values());
+};
+
+// Layer of each node: as far right as its longest chain of inputs requires.
+// Nodes that only feed others then move right up to what they feed, so they
+// don't trail far behind on long wires.
+const rankNodes = (nodes: NodeData[], connections: ConnectionData[]) => {
+  const index = new Map(nodes.map((node, i) => [node.id, i]));
+  const outgoing = nodes.map(() => [] as number[]);
+  const indegree = nodes.map(() => 0);
+  connections.forEach(conn => {
+    const from = index.get(conn.fromNodeId);
+    const to = index.get(conn.toNodeId);
+    if (from === undefined || to === undefined) return;
+    outgoing[from].push(to);
+    indegree[to]++;
+  });
+
+  const rank = nodes.map(() => 0);
+  const remaining = [...indegree];
+  const done = nodes.map(() => false);
+  const sequence: number[] = [];
+  const queue = nodes.map((_, i) => i).filter(i => remaining[i] === 0);
+  while (sequence.length < nodes.length) {
+    // Saved graphs are acyclic, but don't hang if one isn't: start from any node left
+    if (queue.length === 0) queue.push(done.findIndex(isDone => !isDone));
+    const current = queue.shift() as number;
+    if (done[current]) continue;
+    done[current] = true;
+    sequence.push(current);
+    outgoing[current].forEach(next => {
+      if (done[next]) return;
+      rank[next] = Math.max(rank[next], rank[current] + 1);
+      if (--remaining[next] === 0) queue.push(next);
+    });
+  }
+
+  for (let i = sequence.length - 1; i >= 0; i--) {
+    const current = sequence[i];
+    const later = outgoing[current].filter(next => rank[next] > rank[current]);
+    if (indegree[current] === 0 && later.length > 0) {
+      rank[current] = Math.min(...later.map(next => rank[next])) - 1;
+    }
+  }
+  return rank;
+};
+
+// Crossings between two neighbouring layers: pairs of segments whose ends are
+// in opposite order, counted with a Fenwick tree
+const countCrossings = (pairs: [number, number][], layerSize: number) => {
+  pairs.sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+  const tree = new Array<number>(layerSize + 1).fill(0);
+  let crossings = 0;
+  pairs.forEach(([, to], seen) => {
+    let atOrBelow = 0;
+    for (let i = to + 1; i > 0; i -= i & -i) atOrBelow += tree[i];
+    crossings += seen - atOrBelow;
+    for (let i = to + 1; i <= layerSize; i += i & -i) tree[i]++;
+  });
+  return crossings;
+};
+
+const layoutComponent = (nodes: NodeData[], connections: ConnectionData[], theme = DEFAULT_NODE_THEME) => {
+  const rank = rankNodes(nodes, connections);
+  const index = new Map(nodes.map((node, i) => [node.id, i]));
+  const vertices: Vertex[] = nodes.map((node, i) => ({
+    node,
+    rank: rank[i],
+    top: node.y,
+    above: 0,
+    below: getNodeHeight(getRestingShape(node), theme) + theme.labelHeight
+  }));
+
+  // Wires spanning several layers are split into one segment per layer, with
+  // a pass-through vertex in every layer in between
+  const segments: Segment[] = [];
+  connections.forEach(conn => {
+    const from = index.get(conn.fromNodeId);
+    const to = index.get(conn.toNodeId);
+    if (from === undefined || to === undefined || rank[to] <= rank[from]) return;
+    const fromNode = nodes[from];
+    const toNode = nodes[to];
+    const outputs = getNodeOutputs(fromNode);
+    const outputIndex = Math.max(0, outputs.findIndex(output => output.id === conn.fromOutputId));
+    const inputIndex = Math.max(0, toNode.inputs.findIndex(input => input.id === conn.toInputId));
+
+    let previous = { vertex: from, offset: getOutputTop(getRestingShape(fromNode), outputIndex, theme) + theme.portSize / 2, port: portFraction(outputIndex, outputs.length) };
+    for (let layer = rank[from] + 1; layer < rank[to]; layer++) {
+      const progress = (layer - rank[from]) / (rank[to] - rank[from]);
+      vertices.push({
+        rank: layer,
+        top: fromNode.y + (toNode.y - fromNode.y) * progress,
+        above: PASS_THROUGH_HEIGHT / 2,
+        below: PASS_THROUGH_HEIGHT / 2
+      });
+      const vertex = vertices.length - 1;
+      segments.push({ from: previous.vertex, to: vertex, fromOffset: previous.offset, toOffset: 0, fromPort: previous.port, toPort: 0 });
+      previous = { vertex, offset: 0, port: 0 };
+    }
+    segments.push({
+      from: previous.vertex,
+      to,
+      fromOffset: previous.offset,
+      toOffset: getInputTop(getRestingShape(toNode), inputIndex, theme) + theme.portSize / 2,
+      fromPort: previous.port,
+      toPort: portFraction(inputIndex, toNode.inputs.length)
+    });
+  });
+
+  const incoming = vertices.map(() => [] as Segment[]);
+  const outgoing = vertices.map(() => [] as Segment[]);
+  segments.forEach(segment => {
+    outgoing[segment.from].push(segment);
+    incoming[segment.to].push(segment);
+  });
+
+  // Start from the order nodes already have top to bottom, so arranging keeps
+  // whatever order the user had where nothing forces a change
+  const layerCount = Math.max(...vertices.map(vertex => vertex.rank)) + 1;
+  let layers: number[][] = Array.from({ length: layerCount }, () => []);
+  vertices.forEach((vertex, i) => layers[vertex.rank].push(i));
+  layers.forEach(layer => layer.sort((a, b) => vertices[a].top - vertices[b].top));
+
+  // Reduce crossings: sort each layer by the average position of its
+  // neighbours in the layer before it, sweeping right and then back left, and
+  // keep the best order seen
+  const position = vertices.map(() => 0);
+  const updatePositions = () => layers.forEach(layer => layer.forEach((vertex, i) => { position[vertex] = i; }));
+  const totalCrossings = () => layers.slice(0, -1).reduce((sum, layer, r) => {
+    const pairs = layer.flatMap(vertex => outgoing[vertex].map((segment): [number, number] => [position[segment.from], position[segment.to]]));
+    return sum + countCrossings(pairs, layers[r + 1].length);
+  }, 0);
+
+  updatePositions();
+  let best = { layers: layers.map(layer => [...layer]), crossings: totalCrossings() };
+  for (let sweep = 0; sweep < ORDERING_SWEEPS && best.crossings > 0; sweep++) {
+    const rightward = sweep % 2 === 0;
+    const order = rightward ? Array.from(layers.keys()) : Array.from(layers.keys()).reverse();
+    for (const r of order) {
+      const keys = new Map(layers[r].map(vertex => {
+        const neighbours = rightward
+          ? incoming[vertex].map(segment => position[segment.from] + segment.fromPort / 2)
+          : outgoing[vertex].map(segment => position[segment.to] + segment.toPort / 2);
+        const key = neighbours.length > 0
+          ? neighbours.reduce((sum, value) => sum + value, 0) / neighbours.length
+          : position[vertex];
+        return [vertex, key];
+      }));
+      layers[r].sort((a, b) => (keys.get(a) ?? 0) - (keys.get(b) ?? 0));
+      layers[r].forEach((vertex, i) => { position[vertex] = i; });
+    }
+    const crossings = totalCrossings();
+    if (crossings < best.crossings) best = { layers: layers.map(layer => [...layer]), crossings };
+  }
+  layers = best.layers;
+
+  // Coordinates: stack each layer, then repeatedly move every vertex towards
+  // the height that makes its wires straight (the median over its wires),
+  // as close as the spacing within its layer allows
+  const gapBetween = (a: number, b: number) =>
+    vertices[a].node && vertices[b].node ? NODE_GAP : PASS_THROUGH_GAP;
+  const placeLayer = (layer: number[], desired: number[]) => {
+    // Least-squares fit of the desired tops under the minimum spacing: with the
+    // spacing taken out, the tops must be non-decreasing, which pooling
+    // adjacent violators solves exactly
+    const spacing: number[] = [];
+    layer.forEach((vertex, i) => {
+      spacing.push(i === 0 ? 0 : spacing[i - 1] + vertices[layer[i - 1]].below + gapBetween(layer[i - 1], vertex) + vertices[vertex].above);
+    });
+    const blocks: { value: number; count: number }[] = [];
+    desired.forEach((top, i) => {
+      blocks.push({ value: top - spacing[i], count: 1 });
+      while (blocks.length > 1 && blocks[blocks.length - 2].value >= blocks[blocks.length - 1].value) {
+        const last = blocks.pop() as { value: number; count: number };
+        const merged = blocks[blocks.length - 1];
+        merged.value = (merged.value * merged.count + last.value * last.count) / (merged.count + last.count);
+        merged.count += last.count;
+      }
+    });
+    let i = 0;
+    blocks.forEach(block => {
+      for (let k = 0; k < block.count; k++, i++) vertices[layer[i]].top = block.value + spacing[i];
+    });
+  };
+
+  layers.forEach(layer => placeLayer(layer, layer.map(() => 0)));
+  for (let sweep = 0; sweep < ALIGNMENT_SWEEPS; sweep++) {
+    const order = sweep % 2 === 0 ? layers : [...layers].reverse();
+    order.forEach(layer => {
+      placeLayer(layer, layer.map(vertex => {
+        const targets = [
+          ...incoming[vertex].map(segment => vertices[segment.from].top + segment.fromOffset - segment.toOffset),
+          ...outgoing[vertex].map(segment => vertices[segment.to].top + segment.toOffset - segment.fromOffset)
+        ];
+        return targets.length > 0 ? median(targets) : vertices[vertex].top;
+      }));
+    });
+  }
+
+  const minY = Math.min(...vertices.map(vertex => vertex.top - vertex.above));
+  const maxY = Math.max(...vertices.map(vertex => vertex.top + vertex.below));
+  const positions = new Map<string, Point>();
+  vertices.forEach(vertex => {
+    if (vertex.node) positions.set(vertex.node.id, { x: vertex.rank * (theme.nodeWidth + LAYER_GAP), y: vertex.top - minY });
+  });
+  return { positions, height: maxY - minY };
+};
+
+/**
+ * New positions for a layered, left-to-right arrangement of the graph
+ * (Sugiyama style): nodes are put in layers by dependency, layers are ordered
+ * to reduce wire crossings, and nodes are placed so wires run as straight as
+ * node heights allow. With `nodeIds` only those nodes are arranged, using only
+ * the wires between them. The arrangement starts at the top-left corner of the
+ * nodes it moves; groups that aren't connected are stacked top to bottom.
+ */
+export const layoutGraph = (graph: WorkflowGraph, nodeIds?: ReadonlySet<string>): Map<string, Point> => {
+  const nodes = nodeIds ? graph.nodes.filter(node => nodeIds.has(node.id)) : graph.nodes;
+  const positions = new Map<string, Point>();
+  if (nodes.length === 0) return positions;
+
+  const included = new Set(nodes.map(node => node.id));
+  const connections = graph.connections.filter(conn =>
+    conn.fromNodeId !== conn.toNodeId && included.has(conn.fromNodeId) && included.has(conn.toNodeId)
+  );
+
+  const originX = Math.min(...nodes.map(node => node.x));
+  let offsetY = Math.min(...nodes.map(node => node.y));
+  const components = findComponents(nodes, connections)
+    .sort((a, b) => Math.min(...a.nodes.map(node => node.y)) - Math.min(...b.nodes.map(node => node.y)));
+  components.forEach(component => {
+    const layout = layoutComponent(component.nodes, component.connections);
+    layout.positions.forEach((point, id) => {
+      positions.set(id, { x: Math.round(originX + point.x), y: Math.round(offsetY + point.y) });
+    });
+    offsetY += layout.height + COMPONENT_GAP;
+  });
+  return positions;
+};
@@ -0,0 +1,66 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { NodeExecutionContext } from '@/lib/execution/types';
+import type { NodeData } from '@/lib/workflow/types';
+import { builtinNodeTypes } from './builtins';
+
+const http = builtinNodeTypes.find(type => type.id === 'http');
+
+const runHttp = (config: NodeData['config'], inputs: Record<string, unknown> = {}) => {
+  const context: NodeExecutionContext = {
+    node: { id: 'n', type: 'http', x: 0, y: 0, title: 'HTTP', config, inputs: [{ id: 'in', connected: true }] },
+    inputs,
+    signal: new AbortController().signal,
+    log: () => undefined
+  };
+  return Promise.resolve(http?.run?.(context));
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('HTTP Request', () => {
+  it('makes the request and outputs the parsed JSON response', async () => {
+    const fetch = vi.fn(async () => Response.json({ ok: 1 }));
+    vi.stubGlobal('fetch', fetch);
+
+    await expect(runHttp({ method: 'POST', url: 'https://api.example.com/items', headers: { 'X-Key': 'k' } }, { in: { a: 1 } }))
+      .resolves.toEqual({ ok: 1 });
+    const [url, init] = fetch.mock.calls[0] as unknown as [URL, RequestInit];
+    expect(url.href).toBe('https://api.example.com/items');
+    expect(init.method).toBe('POST');
+    expect(init.body).toBe('{"a":1}');
+    expect(new Headers(init.headers).get('X-Key')).toBe('k');
+  });
+
+  it('fails the node when the response is not a success', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('nope', { status: 404, statusText: 'Not Found' })));
+
+    await expect(runHttp({ method: 'GET', url: 'https://api.example.com/missing' }))
+      .rejects.toThrow('GET https://api.example.com/missing answered 404 Not Found');
+  });
+
+  it('refuses URLs that are not absolute http(s) ones', async () => {
+    const fetch = vi.fn();
+    vi.stubGlobal('fetch', fetch);
+
+    await expect(runHttp({ method: 'GET', url: '/api/workflows' })).rejects.toThrow('not an absolute URL');
+    await expect(runHttp({ method: 'GET', url: 'file:///etc/passwd' })).rejects.toThrow('Only http and https');
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('refuses requests to the app itself', async () => {
+    const fetch = vi.fn();
+    vi.stubGlobal('fetch', fetch);
+    vi.stubGlobal('location', new URL('http://localhost:3000/workflows/abc'));
+
+    await expect(runHttp({ method: 'DELETE', url: 'http://localhost:3000/api/workflows/abc' })).rejects.toThrow('not allowed');
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
+
+describe('node types', () => {
+  it('all do something when run rather than passing their input through unnoticed', () => {
+    expect(builtinNodeTypes.filter(type => !type.run).map(type => type.id)).toEqual([]);
+  });
+});
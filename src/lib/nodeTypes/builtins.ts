@@ -0,0 +1,267 @@
+import { Braces, Code, GitBranch, Globe, Terminal, Timer, Webhook } from 'lucide-react';
+import { NodeOutputs } from '@/lib/execution/executor';
+import { DEFAULT_SCRIPT_TIMEOUT_MS, runScript } from '@/lib/execution/sandbox';
+import type { LogLevel, NodeExecutionContext } from '@/lib/execution/types';
+import { DEFAULT_OUTPUT_ID } from '@/lib/workflow/document';
+import type { NodeTypeDefinition } from './registry';
+
+const DEFAULT_DELAY_MS = 1000;
+
+// Single input: its value. Several: an array in input order. None: null.
+export const passThrough = ({ node, inputs }: NodeExecutionContext) => {
+  const values = node.inputs.filter(input => input.id in inputs).map(input => inputs[input.id]);
+  if (values.length === 0) return null;
+  return values.length === 1 ? values[0] : values;
+};
+
+const wait = (ms: number, signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(resolve, ms);
+  signal.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(signal.reason);
+  }, { once: true });
+});
+
+// Evaluates the expression in the script sandbox, with the incoming value as `input`
+const runTransform = (context: NodeExecutionContext) => {
+  const { expression } = context.node.config;
+  return runScript({
+    source: `return (\n${typeof expression === 'string' && expression.trim() !== '' ? expression : 'input'}\n);`,
+    language: 'javascript',
+    args: { input: passThrough(context) },
+    signal: context.signal,
+    log: context.log
+  });
+};
+
+const METHODS_WITHOUT_BODY = ['GET', 'HEAD'];
+
+// Sends the configured request and outputs the response body, parsed when it
+// is JSON. Without a configured body, the incoming value is sent as JSON.
+const runHttpRequest = async (context: NodeExecutionContext) => {
+  const { method, url, headers, body } = context.node.config;
+  const verb = typeof method === 'string' ? method : 'GET';
+
+  let target: URL;
+  try {
+    target = new URL(typeof url === 'string' ? url : '');
+  } catch {
+    throw new Error(`"${String(url ?? '')}" is not an absolute URL`);
+  }
+  if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+    throw new Error(`Only http and https URLs can be requested, not ${target.protocol}`);
+  }
+  // Requests run in the editor's page, and workflows can come from anyone
+  // sharing them: keep them away from this app's own API
+  if (target.origin === globalThis.location?.origin) {
+    throw new Error('Requests to this app itself are not allowed');
+  }
+
+  const requestHeaders = new Headers(typeof headers === 'object' && headers !== null ? headers as Record<string, string> : {});
+  let requestBody: string | undefined;
+  if (!METHODS_WITHOUT_BODY.includes(verb)) {
+    const input = passThrough(context);
+    requestBody = typeof body === 'string' && body.trim() !== '' ? body : input === null ? undefined : JSON.stringify(input);
+    if (requestBody !== undefined && !requestHeaders.has('Content-Type')) requestHeaders.set('Content-Type', 'application/json');
+  }
+
+  context.log(`${verb} ${target.href}`);
+  const response = await fetch(target, {
+    method: verb,
+    headers: requestHeaders,
+    body: requestBody,
+    credentials: 'omit',
+    signal: context.signal
+  });
+  context.log(`${response.status} ${response.statusText}`.trim());
+  if (!response.ok) throw new Error(`${verb} ${target.href} answered ${response.status} ${response.statusText}`.trim());
+
+  const text = await response.text();
+  if (!response.headers.get('Content-Type')?.includes('json')) return text;
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error(`${verb} ${target.href} answered with invalid JSON`);
+  }
+};
+
+export const builtinNodeTypes: NodeTypeDefinition[] = [
+  {
+    id: 'webhook',
+    title: 'Webhook',
+    description: 'Start the workflow from an HTTP call',
+    category: 'Triggers',
+    icon: Webhook,
+    defaultInputs: 0,
+    outputs: [{ id: DEFAULT_OUTPUT_ID, label: 'Output', type: 'json' }],
+    // Manual runs have no request to take a payload from
+    run: () => ({ triggeredAt: new Date().toISOString() }),
+    configSchema: [
+      { kind: 'text', key: 'label', label: 'Label' },
+      { kind: 'text', key: 'path', label: 'Path', placeholder: '/hooks/my-workflow', required: true },
+      {
+        kind: 'select',
+        key: 'method',
+        label: 'Method',
+        default: 'POST',
+        options: ['GET', 'POST', 'PUT'].map(method => ({ value: method, label: method }))
+      }
+    ]
+  },
+  {
+    id: 'code',
+    title: 'Code',
+    description: 'Run a script on the incoming data',
+    category: 'Logic',
+    icon: Code,
+    defaultInputs: 1,
+    enforcesTimeout: true,
+    run: ({ node, inputs, signal, log }) => {
+      const { source, language, timeoutMs } = node.config;
+      return runScript({
+        source: typeof source === 'string' ? source : '',
+        language: language === 'typescript' ? 'typescript' : 'javascript',
+        // Connected inputs only, in the node's input order
+        args: { inputs: node.inputs.filter(input => input.id in inputs).map(input => inputs[input.id]) },
+        timeoutMs: typeof timeoutMs === 'number' ? timeoutMs : DEFAULT_SCRIPT_TIMEOUT_MS,
+        signal,
+        log
+      });
+    },
+    configSchema: [
+      { kind: 'text', key: 'label', label: 'Label' },
+      {
+        kind: 'select',
+        key: 'language',
+        label: 'Language',
+        default: 'javascript',
+        options: [
+          { value: 'javascript', label: 'JavaScript' },
+          { value: 'typescript', label: 'TypeScript' }
+        ]
+      },
+      {
+        kind: 'code',
+        key: 'source',
+        label: 'Source',
+        description: 'The connected input values arrive in order as inputs; whatever the script returns is the output',
+        language: 'javascript',
+        languageKey: 'language',
+        default: 'return inputs[0];'
+      },
+      {
+        kind: 'number',
+        key: 'timeoutMs',
+        label: 'Time limit (ms)',
+        default: DEFAULT_SCRIPT_TIMEOUT_MS,
+        min: 100,
+        step: 100
+      }
+    ]
+  },
+  {
+    id: 'if',
+    title: 'If',
+    description: 'Route the incoming value by whether it is truthy',
+    category: 'Logic',
+    icon: GitBranch,
+    defaultInputs: 1,
+    outputs: [
+      { id: 'true', label: 'True' },
+      { id: 'false', label: 'False' }
+    ],
+    run: (context) => {
+      const value = passThrough(context);
+      return new NodeOutputs(value ? { true: value } : { false: value });
+    },
+    configSchema: [
+      { kind: 'text', key: 'label', label: 'Label' }
+    ]
+  },
+  {
+    id: 'transform',
+    title: 'Transform',
+    description: 'Reshape JSON with an expression',
+    category: 'Data',
+    icon: Braces,
+    defaultInputs: 1,
+    inputType: 'json',
+    outputs: [{ id: DEFAULT_OUTPUT_ID, label: 'Output', type: 'json' }],
+    run: runTransform,
+    configSchema: [
+      { kind: 'text', key: 'label', label: 'Label' },
+      { kind: 'code', key: 'expression', label: 'Expression', language: 'javascript', default: 'input' }
+    ]
+  },
+  {
+    id: 'http',
+    title: 'HTTP Request',
+    description: 'Call an external API',
+    category: 'Integrations',
+    icon: Globe,
+    defaultInputs: 1,
+    inputType: 'json',
+    outputs: [{ id: DEFAULT_OUTPUT_ID, label: 'Output', type: 'json' }],
+    run: runHttpRequest,
+    configSchema: [
+      { kind: 'text', key: 'label', label: 'Label' },
+      {
+        kind: 'select',
+        key: 'method',
+        label: 'Method',
+        default: 'GET',
+        options: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'].map(method => ({ value: method, label: method }))
+      },
+      { kind: 'text', key: 'url', label: 'URL', placeholder: 'https://', required: true },
+      { kind: 'keyValue', key: 'headers', label: 'Headers' },
+      {
+        kind: 'code',
+        key: 'body',
+        label: 'Body',
+        description: 'Sent as is; leave empty to send the incoming value',
+        language: 'json'
+      }
+    ]
+  },
+  {
+    id: 'delay',
+    title: 'Delay',
+    description: 'Wait before continuing',
+    category: 'Flow',
+    icon: Timer,
+    defaultInputs: 1,
+    run: async (context) => {
+      const { milliseconds } = context.node.config;
+      await wait(typeof milliseconds === 'number' ? milliseconds : DEFAULT_DELAY_MS, context.signal);
+      return passThrough(context);
+    },
+    configSchema: [
+      { kind: 'text', key: 'label', label: 'Label' },
+      { kind: 'number', key: 'milliseconds', label: 'Duration (ms)', default: DEFAULT_DELAY_MS, min: 0, step: 100, required: true }
+    ]
+  },
+  {
+    id: 'log',
+    title: 'Log',
+    description: 'Write the incoming value to the run log',
+    category: 'Data',
+    icon: Terminal,
+    defaultInputs: 1,
+    run: (context) => {
+      const value = passThrough(context);
+      const { level } = context.node.config;
+      context.log(JSON.stringify(value) ?? 'undefined', typeof level === 'string' ? level as LogLevel : 'info');
+      return value;
+    },
+    configSchema: [
+      { kind: 'text', key: 'label', label: 'Label' },
+      {
+        kind: 'select',
+        key: 'level',
+        label: 'Level',
+        default: 'info',
+        options: ['debug', 'info', 'warn', 'error'].map(level => ({ value: level, label: level }))
+      }
+    ]
+  }
+];
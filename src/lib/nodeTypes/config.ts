@@ -0,0 +1,73 @@
+import type { NodeConfig, NodeData } from '@/lib/workflow/types';
+import type { ConfigFieldSchema } from './registry';
+
+// Field key -> what is wrong with its value
+export type ConfigErrors = Record<string, string>;
+
+const isEmpty = (value: unknown) =>
+  value === undefined || value === null || value === '' ||
+  (typeof value === 'object' && Object.keys(value).length === 0);
+
+const isStringRecord = (value: unknown): value is Record<string, string> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) &&
+  Object.values(value).every(entry => typeof entry === 'string');
+
+// Config for a fresh node: every field that declares a default
+export const createDefaultConfig = (schema: ConfigFieldSchema[]): NodeConfig =>
+  Object.fromEntries(
+    schema.filter(field => field.default !== undefined).map(field => [field.key, field.default])
+  );
+
+const validateField = (field: ConfigFieldSchema, value: unknown): string | null => {
+  if (isEmpty(value)) return field.required ? 'Required' : null;
+
+  switch (field.kind) {
+    case 'text':
+      return typeof value === 'string' ? null : 'Must be text';
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return 'Must be a number';
+      if (field.min !== undefined && value < field.min) return `Must be at least ${field.min}`;
+      if (field.max !== undefined && value > field.max) return `Must be at most ${field.max}`;
+      return null;
+    case 'select':
+      return field.options.some(option => option.value === value) ? null : 'Pick one of the options';
+    case 'toggle':
+      return typeof value === 'boolean' ? null : 'Must be on or off';
+    case 'keyValue':
+      if (!isStringRecord(value)) return 'Must be a list of names and values';
+      return Object.keys(value).some(key => key.trim() === '') ? 'Every entry needs a name' : null;
+    case 'code':
+      if (typeof value !== 'string') return 'Must be text';
+      if (field.language === 'json') {
+        try {
+          JSON.parse(value);
+        } catch (error) {
+          return `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`;
+        }
+      }
+      return null;
+  }
+};
+
+/**
+ * Checks config values against a node type's schema. Returns an empty object
+ * when everything is valid. Keys that are not in the schema are ignored.
+ */
+export const validateNodeConfig = (schema: ConfigFieldSchema[], config: NodeConfig): ConfigErrors => {
+  const errors: ConfigErrors = {};
+  schema.forEach(field => {
+    const error = validateField(field, config[field.key]);
+    if (error) errors[field.key] = error;
+  });
+  return errors;
+};
+
+// Text shown under the node
+export const getNodeLabel = (node: Pick<NodeData, 'config'>) =>
+  typeof node.config.label === 'string' ? node.config.label : '';
+
+// How a node is named to screen readers and in messages, e.g. "Code (LTC)"
+export const getNodeDisplayName = (node: Pick<NodeData, 'title' | 'config'>) => {
+  const label = getNodeLabel(node);
+  return label ? `${node.title} (${label})` : node.title;
+};
@@ -0,0 +1,64 @@
+import { DEFAULT_OUTPUT_ID } from '@/lib/workflow/document';
+import type { NodeData } from '@/lib/workflow/types';
+import { builtinNodeTypes } from './builtins';
+import { createDefaultConfig } from './config';
+import { ANY_PORT_TYPE } from './portTypes';
+import { getNodeType, registerNodeType, type NodeOutputDefinition, type NodeTypeDefinition } from './registry';
+
+// Importing this module (rather than ./registry directly) guarantees the
+// built-in types are registered before anything looks them up.
+builtinNodeTypes.forEach(registerNodeType);
+
+// MIME type used when dragging a node type from the palette onto the canvas
+export const NODE_TYPE_DRAG_MIME = 'application/x-workflow-node-type';
+
+// A fresh node of the given type with its default inputs (all unconnected) and config
+export const createNodeFromType = (
+  definition: NodeTypeDefinition,
+  id: string,
+  position: { x: number; y: number }
+): NodeData => ({
+  id,
+  type: definition.id,
+  x: position.x,
+  y: position.y,
+  title: definition.title,
+  config: createDefaultConfig(definition.configSchema),
+  inputs: Array.from({ length: definition.defaultInputs }, (_, index) => ({
+    id: `input-${index + 1}`,
+    connected: false
+  }))
+});
+
+const DEFAULT_OUTPUTS: NodeOutputDefinition[] = [{ id: DEFAULT_OUTPUT_ID, label: 'Output' }];
+
+// Outputs a node renders, top to bottom; unknown node types get the single default one.
+// A node that lists its own outputs (a collapsed subflow) has those instead.
+export const getNodeOutputs = (node: Pick<NodeData, 'type'> & { outputs?: NodeOutputDefinition[] }) =>
+  node.outputs ?? getNodeType(node.type)?.outputs ?? DEFAULT_OUTPUTS;
+
+// Data types a node's ports carry; anything undeclared or unknown is `any`
+export const getNodeInputType = (node: Pick<NodeData, 'type'>) =>
+  getNodeType(node.type)?.inputType ?? ANY_PORT_TYPE;
+
+export const getNodeOutputType = (node: Pick<NodeData, 'type'> & { outputs?: NodeOutputDefinition[] }, outputId: string) =>
+  getNodeOutputs(node).find(output => output.id === outputId)?.type ?? ANY_PORT_TYPE;
+
+export {
+  getNodeType,
+  listNodeTypes,
+  registerNodeType,
+  subscribeToNodeTypes,
+  type CodeLanguage,
+  type ConfigFieldSchema,
+  type NodeOutputDefinition,
+  type NodeTypeDefinition
+} from './registry';
+export { getNodeDisplayName, getNodeLabel, validateNodeConfig, type ConfigErrors } from './config';
+export {
+  ANY_PORT_TYPE,
+  getPortType,
+  isPortTypeCompatible,
+  registerPortType,
+  type PortTypeDefinition
+} from './portTypes';
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { getPortType, isPortTypeCompatible, registerPortType } from './portTypes';
+
+describe('registerPortType', () => {
+  it('removes a new type again when unregistered', () => {
+    const unregister = registerPortType({ id: 'image', label: 'Image', color: '#000' });
+    expect(getPortType('image').label).toBe('Image');
+
+    unregister();
+    expect(getPortType('image').label).toBe('image');
+  });
+
+  it('brings back the built-in type it replaced when unregistered', () => {
+    const unregister = registerPortType({ id: 'json', label: 'Document', color: '#000' });
+    expect(getPortType('json').label).toBe('Document');
+    expect(isPortTypeCompatible('string', 'json')).toBe(false);
+
+    unregister();
+    expect(getPortType('json').label).toBe('JSON');
+    expect(isPortTypeCompatible('string', 'json')).toBe(true);
+  });
+
+  it('unwinds nested replacements back to the built-in type', () => {
+    const unregisterFirst = registerPortType({ id: 'number', label: 'First', color: '#000' });
+    const unregisterSecond = registerPortType({ id: 'number', label: 'Second', color: '#000' });
+
+    unregisterSecond();
+    expect(getPortType('number').label).toBe('First');
+    unregisterFirst();
+    expect(getPortType('number').label).toBe('Number');
+  });
+});
@@ -0,0 +1,49 @@
+export interface PortTypeDefinition {
+  id: string;
+  label: string;
+  // Port and tooltip color, any CSS color
+  color: string;
+  // Other types an input of this type also takes, e.g. JSON takes strings
+  accepts?: string[];
+}
+
+// Matches everything in both directions; ports without a declared type use it
+export const ANY_PORT_TYPE = 'any';
+
+export const builtinPortTypes: PortTypeDefinition[] = [
+  { id: ANY_PORT_TYPE, label: 'Any', color: '#6b7280' },
+  { id: 'string', label: 'Text', color: '#10b981' },
+  { id: 'number', label: 'Number', color: '#f59e0b' },
+  { id: 'boolean', label: 'Boolean', color: '#8b5cf6' },
+  { id: 'json', label: 'JSON', color: '#0ea5e9', accepts: ['string', 'number', 'boolean'] }
+];
+
+const portTypes = new Map(builtinPortTypes.map(portType => [portType.id, portType]));
+
+/**
+ * Adds a custom data type for node inputs and outputs. Like node types,
+ * registering an existing id replaces it and the returned function undoes the
+ * registration, bringing back the type it replaced (e.g. a built-in one).
+ * Register custom types before nodes using them render; port colors are read
+ * at render time and are not re-rendered on change.
+ */
+export const registerPortType = (definition: PortTypeDefinition) => {
+  const previous = portTypes.get(definition.id);
+  portTypes.set(definition.id, definition);
+
+  return () => {
+    if (portTypes.get(definition.id) !== definition) return;
+    if (previous) portTypes.set(definition.id, previous);
+    else portTypes.delete(definition.id);
+  };
+};
+
+// Types nobody registered still work; they just match only themselves and `any`
+export const getPortType = (id: string): PortTypeDefinition =>
+  portTypes.get(id) ?? { id, label: id, color: portTypes.get(ANY_PORT_TYPE)?.color ?? '#6b7280' };
+
+export const isPortTypeCompatible = (outputType: string, inputType: string) =>
+  outputType === inputType ||
+  outputType === ANY_PORT_TYPE ||
+  inputType === ANY_PORT_TYPE ||
+  (portTypes.get(inputType)?.accepts?.includes(outputType) ?? false);
@@ -0,0 +1,90 @@
+import type { ComponentType } from 'react';
+import type { NodeRunner } from '@/lib/execution/types';
+
+interface ConfigFieldBase {
+  key: string;
+  label: string;
+  description?: string;
+  required?: boolean;
+}
+
+export type CodeLanguage = 'javascript' | 'typescript' | 'json';
+
+export type ConfigFieldSchema =
+  | (ConfigFieldBase & { kind: 'text'; default?: string; placeholder?: string })
+  | (ConfigFieldBase & { kind: 'number'; default?: number; min?: number; max?: number; step?: number })
+  | (ConfigFieldBase & { kind: 'select'; default?: string; options: { value: string; label: string }[] })
+  | (ConfigFieldBase & { kind: 'toggle'; default?: boolean })
+  | (ConfigFieldBase & { kind: 'keyValue'; default?: Record<string, string> })
+  | (ConfigFieldBase & {
+      kind: 'code';
+      default?: string;
+      language: CodeLanguage;
+      // Key of a sibling select whose value overrides `language`, e.g. a language picker
+      languageKey?: string;
+    });
+
+export interface NodeOutputDefinition {
+  id: string;
+  label: string;
+  // Port type id (see ./portTypes); default `any`
+  type?: string;
+}
+
+export interface NodeTypeDefinition {
+  id: string;
+  title: string;
+  description?: string;
+  // Palette section; types without one are listed under "Other"
+  category?: string;
+  icon: ComponentType<{ className?: string }>;
+  defaultInputs: number;
+  // Port type id (see ./portTypes) shared by every input; default `any`
+  inputType?: string;
+  // Named outputs, top to bottom. Omitted means a single untyped output.
+  outputs?: NodeOutputDefinition[];
+  configSchema: ConfigFieldSchema[];
+  // What the node does when the workflow runs; defaults to passing its input through
+  run?: NodeRunner;
+  // `run` enforces a time limit of its own (e.g. a `timeoutMs` config field),
+  // so runs leave the node without their run-wide one
+  enforcesTimeout?: boolean;
+}
+
+const nodeTypes = new Map<string, NodeTypeDefinition>();
+const listeners = new Set<() => void>();
+// Replaced (never mutated) on change so it can back useSyncExternalStore
+let snapshot: NodeTypeDefinition[] = [];
+
+const notify = () => {
+  snapshot = Array.from(nodeTypes.values());
+  listeners.forEach(listener => listener());
+};
+
+/**
+ * Adds a node type to the palette and makes it renderable on the canvas.
+ * Registering an id that already exists replaces it. Returns a function that
+ * removes the registration again.
+ */
+export const registerNodeType = (definition: NodeTypeDefinition) => {
+  nodeTypes.set(definition.id, definition);
+  notify();
+
+  return () => {
+    if (nodeTypes.get(definition.id) === definition) {
+      nodeTypes.delete(definition.id);
+      notify();
+    }
+  };
+};
+
+export const getNodeType = (id: string) => nodeTypes.get(id);
+
+export const listNodeTypes = () => snapshot;
+
+export const subscribeToNodeTypes = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { loadWorkflowDocument } from '@/lib/workflow/document';
+import type { WorkflowFieldError } from '@/lib/workflow/schema';
+import type { StoredWorkflow, WorkflowDocument } from '@/lib/workflow/types';
+import { WorkflowConflictError, WorkflowCorruptError, WorkflowNotFoundError } from './workflowStore';
+
+export interface ApiErrorBody {
+  error: string;
+  details?: WorkflowFieldError[];
+  current?: StoredWorkflow;
+}
+
+export const errorResponse = (status: number, body: ApiErrorBody) =>
+  NextResponse.json(body, { status });
+
+export const readJsonBody = async (request: Request): Promise<{ ok: true; body: Record<string, unknown> } | { ok: false; response: NextResponse }> => {
+  try {
+    const body = await request.json();
+    if (typeof body === 'object' && body !== null && !Array.isArray(body)) {
+      return { ok: true, body };
+    }
+  } catch {
+    // Fall through to the shared error below
+  }
+  return { ok: false, response: errorResponse(400, { error: 'Request body must be a JSON object' }) };
+};
+
+// Accepts any schema version a client may still be sending and upgrades it,
+// the same way file imports are handled.
+export const readDocument = (body: Record<string, unknown>): { ok: true; document: WorkflowDocument } | { ok: false; response: NextResponse } => {
+  if (body.document === undefined) {
+    return { ok: false, response: errorResponse(400, { error: 'Missing "document"' }) };
+  }
+
+  const loaded = loadWorkflowDocument(body.document);
+  if (!loaded.ok) {
+    return {
+      ok: false,
+      response: errorResponse(422, { error: 'Invalid workflow document', details: loaded.errors })
+    };
+  }
+  return loaded;
+};
+
+export const storeErrorResponse = (error: unknown) => {
+  if (error instanceof WorkflowNotFoundError) {
+    return errorResponse(404, { error: error.message });
+  }
+  if (error instanceof WorkflowConflictError) {
+    return errorResponse(409, { error: error.message, current: error.current });
+  }
+  if (error instanceof WorkflowCorruptError) {
+    return errorResponse(500, { error: error.message });
+  }
+  throw error;
+};
@@ -0,0 +1,39 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createWorkflowDocument } from '@/lib/workflow/document';
+import { createWorkflow, getWorkflow, listWorkflows, WorkflowCorruptError } from './workflowStore';
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'workflow-store-'));
+  vi.stubEnv('WORKFLOW_STORE_DIR', dir);
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe('corrupt records', () => {
+  it('are reported as WorkflowCorruptError', async () => {
+    await fs.writeFile(path.join(dir, 'truncated.json'), '{"id": "truncated", "revi', 'utf8');
+    await fs.writeFile(path.join(dir, 'invalid.json'), JSON.stringify({
+      id: 'invalid', revision: 1, createdAt: '', updatedAt: '', document: { version: 1, nodes: 'nope' }
+    }), 'utf8');
+
+    await expect(getWorkflow('truncated')).rejects.toBeInstanceOf(WorkflowCorruptError);
+    await expect(getWorkflow('invalid')).rejects.toBeInstanceOf(WorkflowCorruptError);
+  });
+
+  it('are listed apart instead of failing the list', async () => {
+    const stored = await createWorkflow(createWorkflowDocument({ nodes: [], connections: [] }, { name: 'Good' }));
+    await fs.writeFile(path.join(dir, 'broken.json'), '', 'utf8');
+
+    const { workflows, corrupt } = await listWorkflows();
+    expect(workflows.map(summary => summary.id)).toEqual([stored.id]);
+    expect(corrupt).toEqual(['broken']);
+  });
+});
@@ -0,0 +1,185 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { loadWorkflowDocument } from '@/lib/workflow/document';
+import type { StoredWorkflow, WorkflowDocument, WorkflowSummary } from '@/lib/workflow/types';
+
+// One JSON file per workflow. Override the location with WORKFLOW_STORE_DIR.
+const storeDir = () =>
+  process.env.WORKFLOW_STORE_DIR ?? path.join(process.cwd(), '.data', 'workflows');
+
+// Ids become file names, so anything outside this set is rejected up front.
+const ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+export class WorkflowNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Workflow "${id}" does not exist`);
+    this.name = 'WorkflowNotFoundError';
+  }
+}
+
+export class WorkflowConflictError extends Error {
+  constructor(readonly current: StoredWorkflow, expectedRevision: number) {
+    super(`Workflow "${current.id}" is at revision ${current.revision}, not ${expectedRevision}`);
+    this.name = 'WorkflowConflictError';
+  }
+}
+
+// The file is there but can't be read as a workflow: truncated, hand-edited,
+// or holding a document the schema rejects
+export class WorkflowCorruptError extends Error {
+  constructor(id: string, reason: string) {
+    super(`Stored workflow "${id}" is corrupt: ${reason}`);
+    this.name = 'WorkflowCorruptError';
+  }
+}
+
+export const isValidWorkflowId = (id: string) => ID_PATTERN.test(id);
+
+const filePath = (id: string) => {
+  if (!isValidWorkflowId(id)) throw new WorkflowNotFoundError(id);
+  return path.join(storeDir(), `${id}.json`);
+};
+
+// Serializes read-modify-write cycles per workflow within this process, so the
+// revision check and the write that follows it cannot interleave.
+const locks = new Map<string, Promise<unknown>>();
+
+const withLock = <T>(id: string, task: () => Promise<T>): Promise<T> => {
+  const previous = locks.get(id) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  locks.set(id, next);
+  next.finally(() => {
+    if (locks.get(id) === next) locks.delete(id);
+  }).catch(() => undefined);
+  return next;
+};
+
+const readRecord = async (id: string): Promise<StoredWorkflow> => {
+  let text: string;
+  try {
+    text = await fs.readFile(filePath(id), 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') throw new WorkflowNotFoundError(id);
+    throw error;
+  }
+
+  let record: StoredWorkflow;
+  try {
+    record = JSON.parse(text) as StoredWorkflow;
+  } catch (error) {
+    throw new WorkflowCorruptError(id, error instanceof Error ? error.message : String(error));
+  }
+  if (
+    typeof record !== 'object' || record === null ||
+    !Number.isInteger(record.revision) || typeof record.updatedAt !== 'string'
+  ) {
+    throw new WorkflowCorruptError(id, 'not a stored workflow record');
+  }
+
+  // Documents are stored in whatever schema version was current when they
+  // were saved; bring them up to date on the way out.
+  const loaded = loadWorkflowDocument(record.document);
+  if (!loaded.ok) {
+    throw new WorkflowCorruptError(id, loaded.errors.map(error => `${error.path}: ${error.message}`).join('; '));
+  }
+  return { ...record, document: loaded.document };
+};
+
+// Write to a temp file and rename over the target, so a crash mid-write never
+// leaves a truncated workflow behind.
+const writeRecord = async (record: StoredWorkflow) => {
+  await fs.mkdir(storeDir(), { recursive: true });
+  const target = filePath(record.id);
+  const temp = `${target}.${randomUUID()}.tmp`;
+  await fs.writeFile(temp, JSON.stringify(record, null, 2), 'utf8');
+  await fs.rename(temp, target);
+};
+
+const toSummary = (record: StoredWorkflow): WorkflowSummary => ({
+  id: record.id,
+  name: record.document.name,
+  revision: record.revision,
+  updatedAt: record.updatedAt
+});
+
+export interface WorkflowList {
+  workflows: WorkflowSummary[];
+  // Ids of stored workflows that could not be read (see WorkflowCorruptError)
+  corrupt: string[];
+}
+
+export const listWorkflows = async (): Promise<WorkflowList> => {
+  let fileNames: string[];
+  try {
+    fileNames = await fs.readdir(storeDir());
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return { workflows: [], corrupt: [] };
+    throw error;
+  }
+
+  const ids = fileNames
+    .filter(name => name.endsWith('.json'))
+    .map(name => name.slice(0, -'.json'.length))
+    .filter(isValidWorkflowId);
+
+  const summaries: WorkflowSummary[] = [];
+  const corrupt: string[] = [];
+  for (const id of ids) {
+    try {
+      summaries.push(toSummary(await readRecord(id)));
+    } catch (error) {
+      // Deleted between readdir and read, or unreadable; one bad file must not hide the rest
+      if (error instanceof WorkflowCorruptError) corrupt.push(id);
+      else if (!(error instanceof WorkflowNotFoundError)) throw error;
+    }
+  }
+
+  return { workflows: summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt)), corrupt: corrupt.sort() };
+};
+
+export const getWorkflow = (id: string) => readRecord(id);
+
+export const createWorkflow = async (document: WorkflowDocument): Promise<StoredWorkflow> => {
+  const now = new Date().toISOString();
+  const record: StoredWorkflow = {
+    id: randomUUID(),
+    revision: 1,
+    createdAt: now,
+    updatedAt: now,
+    document
+  };
+  await writeRecord(record);
+  return record;
+};
+
+/**
+ * Replaces the stored document. `expectedRevision` must be the revision the
+ * caller last read; if someone else saved in between, a WorkflowConflictError
+ * carrying the current record is thrown instead of overwriting their changes.
+ */
+export const updateWorkflow = (id: string, document: WorkflowDocument, expectedRevision: number) =>
+  withLock(id, async () => {
+    const current = await readRecord(id);
+    if (current.revision !== expectedRevision) {
+      throw new WorkflowConflictError(current, expectedRevision);
+    }
+
+    const record: StoredWorkflow = {
+      ...current,
+      revision: current.revision + 1,
+      updatedAt: new Date().toISOString(),
+      document
+    };
+    await writeRecord(record);
+    return record;
+  });
+
+export const deleteWorkflow = (id: string, expectedRevision?: number) =>
+  withLock(id, async () => {
+    const current = await readRecord(id);
+    if (expectedRevision !== undefined && current.revision !== expectedRevision) {
+      throw new WorkflowConflictError(current, expectedRevision);
+    }
+    await fs.unlink(filePath(id));
+  });
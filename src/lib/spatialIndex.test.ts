@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { createSpatialIndex, intersects } from './spatialIndex';
+
+const box = (minX: number, minY: number, maxX: number, maxY: number) => ({ minX, minY, maxX, maxY });
+
+describe('createSpatialIndex', () => {
+  it('finds the items overlapping an area, edges included', () => {
+    const index = createSpatialIndex(100);
+    index.set('a', box(0, 0, 50, 50));
+    index.set('b', box(200, 200, 260, 260));
+    index.set('c', box(-150, -150, -120, -120));
+
+    expect(index.search(box(40, 40, 60, 60))).toEqual(['a']);
+    expect(index.search(box(50, 50, 200, 200)).sort()).toEqual(['a', 'b']);
+    expect(index.search(box(-130, -130, -125, -125))).toEqual(['c']);
+    expect(index.search(box(60, 60, 190, 190))).toEqual([]);
+  });
+
+  it('lists an item spanning several cells once', () => {
+    const index = createSpatialIndex(100);
+    index.set('wide', box(0, 0, 450, 10));
+    index.set('other', box(900, 900, 910, 910));
+    expect(index.search(box(0, 0, 450, 10))).toEqual(['wide']);
+  });
+
+  it('moves an item when it is set again', () => {
+    const index = createSpatialIndex(100);
+    index.set('a', box(0, 0, 50, 50));
+    index.set('a', box(500, 500, 550, 550));
+    index.set('b', box(1000, 1000, 1010, 1010));
+
+    expect(index.search(box(0, 0, 50, 50))).toEqual([]);
+    expect(index.search(box(520, 520, 530, 530))).toEqual(['a']);
+  });
+
+  it('forgets removed items, and ignores unknown ids', () => {
+    const index = createSpatialIndex(100);
+    index.set('a', box(0, 0, 50, 50));
+    index.remove('a');
+    index.remove('missing');
+    expect(index.search(box(0, 0, 50, 50))).toEqual([]);
+  });
+
+  it('gives the same answer when the area spans more cells than there are items', () => {
+    const index = createSpatialIndex(10);
+    index.set('a', box(0, 0, 5, 5));
+    index.set('b', box(5000, 5000, 5005, 5005));
+    // Thousands of cells against two items, so every item is checked instead
+    expect(index.search(box(-100, -100, 4000, 4000))).toEqual(['a']);
+    expect(index.search(box(-100, -100, 6000, 6000)).sort()).toEqual(['a', 'b']);
+  });
+});
+
+describe('intersects', () => {
+  it('counts touching edges as overlapping', () => {
+    expect(intersects(box(0, 0, 10, 10), box(10, 10, 20, 20))).toBe(true);
+    expect(intersects(box(0, 0, 10, 10), box(10.5, 0, 20, 10))).toBe(false);
+  });
+});
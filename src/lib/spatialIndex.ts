@@ -0,0 +1,85 @@
+import type { Bounds } from './geometry';
+
+/**
+ * Uniform grid over world space for finding the items near a point or inside
+ * an area without looking at every item. Items are rectangles keyed by id and
+ * are moved by setting them again.
+ */
+export interface SpatialIndex {
+  set: (id: string, bounds: Bounds) => void;
+  remove: (id: string) => void;
+  // Ids of the items whose bounds overlap `area`, edges included
+  search: (area: Bounds) => string[];
+}
+
+export const intersects = (a: Bounds, b: Bounds) =>
+  a.minX <= b.maxX && a.maxX >= b.minX && a.minY <= b.maxY && a.maxY >= b.minY;
+
+export const createSpatialIndex = (cellSize = 256): SpatialIndex => {
+  const cells = new Map<string, Set<string>>();
+  const items = new Map<string, { bounds: Bounds; keys: string[] }>();
+
+  const cellRange = (area: Bounds) => ({
+    minX: Math.floor(area.minX / cellSize),
+    minY: Math.floor(area.minY / cellSize),
+    maxX: Math.floor(area.maxX / cellSize),
+    maxY: Math.floor(area.maxY / cellSize)
+  });
+
+  const remove = (id: string) => {
+    const item = items.get(id);
+    if (!item) return;
+    item.keys.forEach(key => {
+      const cell = cells.get(key);
+      cell?.delete(id);
+      if (cell?.size === 0) cells.delete(key);
+    });
+    items.delete(id);
+  };
+
+  const set = (id: string, bounds: Bounds) => {
+    remove(id);
+    const range = cellRange(bounds);
+    const keys: string[] = [];
+    for (let x = range.minX; x <= range.maxX; x++) {
+      for (let y = range.minY; y <= range.maxY; y++) {
+        const key = `${x},${y}`;
+        keys.push(key);
+        let cell = cells.get(key);
+        if (!cell) {
+          cell = new Set();
+          cells.set(key, cell);
+        }
+        cell.add(id);
+      }
+    }
+    items.set(id, { bounds, keys });
+  };
+
+  const search = (area: Bounds) => {
+    const range = cellRange(area);
+    const cellCount = (range.maxX - range.minX + 1) * (range.maxY - range.minY + 1);
+    // Zoomed far out the area spans more cells than there are items; checking
+    // every item is cheaper then
+    if (cellCount > items.size) {
+      const found: string[] = [];
+      items.forEach((item, id) => {
+        if (intersects(item.bounds, area)) found.push(id);
+      });
+      return found;
+    }
+
+    const found = new Set<string>();
+    for (let x = range.minX; x <= range.maxX; x++) {
+      for (let y = range.minY; y <= range.maxY; y++) {
+        cells.get(`${x},${y}`)?.forEach(id => {
+          const item = items.get(id);
+          if (item && !found.has(id) && intersects(item.bounds, area)) found.add(id);
+        });
+      }
+    }
+    return Array.from(found);
+  };
+
+  return { set, remove, search };
+};
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import type { Bounds, Point } from './geometry';
+import { routeOrthogonal, routeWire, routeWires } from './wires';
+
+// Whether a segment passes through the inside of a box
+const crosses = (a: Point, b: Point, box: Bounds) =>
+  Math.max(a.x, b.x) > box.minX && Math.min(a.x, b.x) < box.maxX &&
+  Math.max(a.y, b.y) > box.minY && Math.min(a.y, b.y) < box.maxY;
+
+const expectOrthogonal = (points: Point[]) => {
+  points.slice(1).forEach((point, index) => {
+    const prev = points[index];
+    expect(point.x === prev.x || point.y === prev.y).toBe(true);
+  });
+};
+
+// The stubs at either end start inside the ports' own nodes, so only the rest is checked
+const expectClear = (points: Point[], obstacles: Bounds[]) => {
+  for (let i = 1; i < points.length - 2; i++) {
+    obstacles.forEach(box => expect(crosses(points[i], points[i + 1], box)).toBe(false));
+  }
+};
+
+describe('routeOrthogonal', () => {
+  it('turns once halfway along a clear forward wire', () => {
+    expect(routeOrthogonal({ x: 0, y: 0 }, { x: 200, y: 100 }, [])).toEqual([
+      { x: 0, y: 0 },
+      { x: 100, y: 0 },
+      { x: 100, y: 100 },
+      { x: 200, y: 100 }
+    ]);
+  });
+
+  it('runs straight between ports at the same height', () => {
+    expect(routeOrthogonal({ x: 0, y: 50 }, { x: 200, y: 50 }, [])).toEqual([{ x: 0, y: 50 }, { x: 200, y: 50 }]);
+  });
+
+  it('moves the turn to a free channel when a node sits halfway', () => {
+    const obstacles = [{ minX: 130, minY: 30, maxX: 170, maxY: 70 }];
+    const points = routeOrthogonal({ x: 0, y: 0 }, { x: 300, y: 100 }, obstacles);
+    expectOrthogonal(points);
+    expectClear(points, obstacles);
+    // Still a single turn, beside the node instead of through it
+    expect(points).toHaveLength(4);
+    expect(points[1].x).not.toBe(150);
+  });
+
+  it('detours above or below the nodes in the way when no channel is free', () => {
+    const obstacles = [{ minX: 20, minY: -200, maxX: 280, maxY: 40 }];
+    const points = routeOrthogonal({ x: 0, y: 0 }, { x: 300, y: 0 }, obstacles);
+    expectOrthogonal(points);
+    expectClear(points, obstacles);
+  });
+
+  it('loops a backward wire out of its output and around into its input', () => {
+    // Output on the right edge of a node at x 400, input on the left edge of one at x 0
+    const from = { minX: 352, minY: -24, maxX: 400, maxY: 24 };
+    const to = { minX: 0, minY: -24, maxX: 48, maxY: 24 };
+    const points = routeOrthogonal({ x: 400, y: 0 }, { x: 0, y: 0 }, [from, to]);
+    expectOrthogonal(points);
+    expectClear(points, [from, to]);
+    expect(points[1].x).toBeGreaterThan(400);
+    expect(points[points.length - 2].x).toBeLessThan(0);
+  });
+});
+
+describe('routeWires', () => {
+  it('spreads wires sharing a channel into separate lanes', () => {
+    const routes = routeWires([
+      { id: 'upper', start: { x: 0, y: 0 }, end: { x: 200, y: 100 } },
+      { id: 'lower', start: { x: 0, y: 20 }, end: { x: 200, y: 120 } }
+    ], 'orthogonal', []);
+    // Both midpoints are on the vertical run through the channel
+    const channel = (id: string) => routes.get(id)?.midpoint.x ?? NaN;
+    expect(Math.abs(channel('upper') - channel('lower'))).toBe(6);
+  });
+
+  it('routes every wire the same way as on its own when nothing overlaps', () => {
+    const wire = { id: 'only', start: { x: 0, y: 0 }, end: { x: 200, y: 100 } };
+    expect(routeWires([wire], 'orthogonal', []).get('only')).toEqual(routeWire(wire.start, wire.end, 'orthogonal'));
+  });
+
+  it('draws straight and bezier wires without routing', () => {
+    const routes = routeWires([{ id: 'w', start: { x: 0, y: 0 }, end: { x: 100, y: 50 } }], 'straight', []);
+    expect(routes.get('w')).toEqual({
+      path: 'M 0 0 L 100 50',
+      midpoint: { x: 50, y: 25 },
+      bounds: { minX: 0, minY: 0, maxX: 100, maxY: 50 }
+    });
+    expect(routeWire({ x: 0, y: 0 }, { x: 100, y: 50 }, 'bezier').path.startsWith('M 0 0 C')).toBe(true);
+  });
+
+  it('puts the label midpoint halfway along the route', () => {
+    expect(routeWire({ x: 0, y: 0 }, { x: 200, y: 100 }, 'orthogonal').midpoint).toEqual({ x: 100, y: 50 });
+  });
+});
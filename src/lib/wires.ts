@@ -0,0 +1,309 @@
+import type { Bounds, Point } from './geometry';
+import type { WireStyle } from '@/lib/workflow/types';
+
+export interface WireRequest {
+  id: string;
+  start: Point;
+  end: Point;
+}
+
+export interface WireRoute {
+  // SVG path data
+  path: string;
+  // Halfway along the wire, where its label goes
+  midpoint: Point;
+  // Box around the whole wire, used to skip wires outside the view
+  bounds: Bounds;
+}
+
+// How far a wire runs straight out of an output and into an input before it turns
+const STUB_LENGTH = 16;
+// Clearance kept between a routed wire and the nodes it passes
+const OBSTACLE_MARGIN = 12;
+const CORNER_RADIUS = 8;
+// Space between parallel wires sharing a channel, and the most a bundle may
+// fan out before they are packed closer together
+const LANE_GAP = 6;
+const MAX_LANE_SPREAD = 48;
+
+const expand = (box: Bounds, margin: number): Bounds => ({
+  minX: box.minX - margin,
+  minY: box.minY - margin,
+  maxX: box.maxX + margin,
+  maxY: box.maxY + margin
+});
+
+// Whether an axis-aligned segment passes through the inside of a box. Touching
+// the edge is fine; routes are built along expanded box edges on purpose.
+const crossesBox = (a: Point, b: Point, box: Bounds) => {
+  if (a.y === b.y) {
+    return a.y > box.minY && a.y < box.maxY && Math.max(a.x, b.x) > box.minX && Math.min(a.x, b.x) < box.maxX;
+  }
+  return a.x > box.minX && a.x < box.maxX && Math.max(a.y, b.y) > box.minY && Math.min(a.y, b.y) < box.maxY;
+};
+
+const isClear = (points: Point[], obstacles: Bounds[]) => {
+  for (let i = 0; i < points.length - 1; i++) {
+    if (obstacles.some(box => crossesBox(points[i], points[i + 1], box))) return false;
+  }
+  return true;
+};
+
+// Drops zero-length segments and merges straight runs so corners can be rounded
+const simplify = (points: Point[]) => points.filter((point, index) => {
+  if (index === 0 || index === points.length - 1) return true;
+  const prev = points[index - 1];
+  const next = points[index + 1];
+  if (point.x === prev.x && point.y === prev.y) return false;
+  return !((prev.x === point.x && point.x === next.x) || (prev.y === point.y && point.y === next.y));
+});
+
+/**
+ * Orthogonal route from an output to an input that stays clear of `obstacles`
+ * (node boxes). Forward wires turn once in the first free vertical channel
+ * closest to halfway; wires that go backwards, or find every channel blocked,
+ * detour along a horizontal corridor above or below the nodes in the way.
+ * Returns the corner points, including both ends.
+ */
+export const routeOrthogonal = (start: Point, end: Point, obstacles: Bounds[]): Point[] =>
+  routeAround(start, end, indexObstacles(obstacles));
+
+// Expanded obstacles sorted by left edge, so the ones overlapping a range of x
+// can be found without scanning them all. Shared by every wire in a batch.
+interface ObstacleIndex {
+  boxes: Bounds[];
+  widest: number;
+}
+
+const indexObstacles = (obstacles: Bounds[]): ObstacleIndex => {
+  const boxes = obstacles.map(box => expand(box, OBSTACLE_MARGIN)).sort((a, b) => a.minX - b.minX);
+  return { boxes, widest: boxes.reduce((widest, box) => Math.max(widest, box.maxX - box.minX), 0) };
+};
+
+const obstaclesBetween = ({ boxes, widest }: ObstacleIndex, left: number, right: number) => {
+  // First box whose left edge could still reach `left`
+  let low = 0;
+  let high = boxes.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (boxes[mid].minX < left - widest) low = mid + 1;
+    else high = mid;
+  }
+
+  const found: Bounds[] = [];
+  for (let i = low; i < boxes.length && boxes[i].minX <= right; i++) {
+    if (boxes[i].maxX >= left) found.push(boxes[i]);
+  }
+  return found;
+};
+
+const routeAround = (start: Point, end: Point, obstacles: ObstacleIndex): Point[] => {
+  const exitX = start.x + STUB_LENGTH;
+  const entryX = end.x - STUB_LENGTH;
+  // Every inner segment lies between the two stubs, so nothing outside that
+  // band can get in the way
+  const boxes = obstaclesBetween(obstacles, Math.min(exitX, entryX), Math.max(exitX, entryX));
+  // The stubs themselves are never checked: they start inside the ports' own (expanded) nodes
+  const withStubs = (inner: Point[]) => simplify([start, ...inner, end]);
+
+  if (entryX >= exitX) {
+    // A single turn stays between the two ends vertically as well
+    const top = Math.min(start.y, end.y);
+    const bottom = Math.max(start.y, end.y);
+    const band = boxes.filter(box => box.maxY >= top && box.minY <= bottom);
+    const midX = (exitX + entryX) / 2;
+    const channels = [midX, ...band.flatMap(box => [box.minX, box.maxX])]
+      .filter(x => x >= exitX && x <= entryX)
+      .sort((a, b) => Math.abs(a - midX) - Math.abs(b - midX));
+
+    for (const x of channels) {
+      const inner = [{ x: exitX, y: start.y }, { x, y: start.y }, { x, y: end.y }, { x: entryX, y: end.y }];
+      if (isClear(inner, band)) return withStubs(inner);
+    }
+  }
+
+  const corridors = [start.y, end.y, ...boxes.flatMap(box => [box.minY, box.maxY])]
+    .sort((a, b) => (Math.abs(a - start.y) + Math.abs(a - end.y)) - (Math.abs(b - start.y) + Math.abs(b - end.y)));
+
+  for (const y of corridors) {
+    const inner = [{ x: exitX, y: start.y }, { x: exitX, y }, { x: entryX, y }, { x: entryX, y: end.y }];
+    if (isClear(inner, boxes)) return withStubs(inner);
+  }
+
+  // Boxed in on every side: go under everything between the stubs
+  const y = boxes.reduce((lowest, box) => Math.max(lowest, box.maxY), Math.max(start.y, end.y));
+  return withStubs([{ x: exitX, y: start.y }, { x: exitX, y }, { x: entryX, y }, { x: entryX, y: end.y }]);
+};
+
+interface Lane {
+  route: number;
+  // Index of the segment's first point within its route
+  point: number;
+  position: number;
+  from: number;
+  to: number;
+  // Wires covering more ground go on the outside of a bundle, so the shorter
+  // ones can peel off towards their inputs without crossing them
+  sortKey: number;
+}
+
+// Moves the inner segments of routes that run on top of each other apart, so
+// a bundle of wires through the same channel reads as separate lines. The
+// first and last segments stay put since they are attached to ports.
+const spreadLanes = (routes: Point[][]) => {
+  const vertical: Lane[] = [];
+  const horizontal: Lane[] = [];
+
+  routes.forEach((points, route) => {
+    const start = points[0];
+    const end = points[points.length - 1];
+    for (let point = 1; point < points.length - 2; point++) {
+      const a = points[point];
+      const b = points[point + 1];
+      if (a.x === b.x) {
+        vertical.push({ route, point, position: a.x, from: Math.min(a.y, b.y), to: Math.max(a.y, b.y), sortKey: -Math.abs(end.y - start.y) });
+      } else {
+        horizontal.push({ route, point, position: a.y, from: Math.min(a.x, b.x), to: Math.max(a.x, b.x), sortKey: -Math.abs(end.x - start.x) });
+      }
+    }
+  });
+
+  const offsetLanes = (lanes: Lane[], axis: 'x' | 'y') => {
+    lanes.sort((a, b) => a.position - b.position || a.from - b.from);
+
+    let bundle: Lane[] = [];
+    const flush = () => {
+      if (bundle.length > 1) {
+        const gap = Math.min(LANE_GAP, MAX_LANE_SPREAD / (bundle.length - 1));
+        bundle
+          .sort((a, b) => a.sortKey - b.sortKey)
+          .forEach((lane, index) => {
+            const offset = (index - (bundle.length - 1) / 2) * gap;
+            const points = routes[lane.route];
+            points[lane.point] = { ...points[lane.point], [axis]: lane.position + offset };
+            points[lane.point + 1] = { ...points[lane.point + 1], [axis]: lane.position + offset };
+          });
+      }
+      bundle = [];
+    };
+
+    lanes.forEach(lane => {
+      const overlaps = bundle.length > 0 &&
+        Math.abs(lane.position - bundle[0].position) < 1 &&
+        bundle.some(other => lane.from < other.to && lane.to > other.from);
+      if (!overlaps) flush();
+      bundle.push(lane);
+    });
+    flush();
+  };
+
+  offsetLanes(vertical, 'x');
+  offsetLanes(horizontal, 'y');
+};
+
+// Polyline with its corners rounded off, each radius limited to half of the shorter neighbouring segment
+const toRoundedPath = (points: Point[]) => {
+  let path = `M ${points[0].x} ${points[0].y}`;
+  for (let i = 1; i < points.length - 1; i++) {
+    const prev = points[i - 1];
+    const corner = points[i];
+    const next = points[i + 1];
+    const inLength = Math.hypot(corner.x - prev.x, corner.y - prev.y);
+    const outLength = Math.hypot(next.x - corner.x, next.y - corner.y);
+    const radius = Math.min(CORNER_RADIUS, inLength / 2, outLength / 2);
+    if (radius === 0) {
+      path += ` L ${corner.x} ${corner.y}`;
+      continue;
+    }
+
+    const before = {
+      x: corner.x - ((corner.x - prev.x) / inLength) * radius,
+      y: corner.y - ((corner.y - prev.y) / inLength) * radius
+    };
+    const after = {
+      x: corner.x + ((next.x - corner.x) / outLength) * radius,
+      y: corner.y + ((next.y - corner.y) / outLength) * radius
+    };
+    path += ` L ${before.x} ${before.y} Q ${corner.x} ${corner.y} ${after.x} ${after.y}`;
+  }
+  const last = points[points.length - 1];
+  return `${path} L ${last.x} ${last.y}`;
+};
+
+// Point halfway along a polyline, measured by length
+const polylineMidpoint = (points: Point[]): Point => {
+  const lengths = points.slice(1).map((point, index) => Math.hypot(point.x - points[index].x, point.y - points[index].y));
+  let remaining = lengths.reduce((sum, length) => sum + length, 0) / 2;
+  for (let i = 0; i < lengths.length; i++) {
+    if (remaining <= lengths[i] && lengths[i] > 0) {
+      const t = remaining / lengths[i];
+      return {
+        x: points[i].x + (points[i + 1].x - points[i].x) * t,
+        y: points[i].y + (points[i + 1].y - points[i].y) * t
+      };
+    }
+    remaining -= lengths[i];
+  }
+  return points[0];
+};
+
+const boundsOf = (points: Point[]): Bounds => ({
+  minX: Math.min(...points.map(point => point.x)),
+  minY: Math.min(...points.map(point => point.y)),
+  maxX: Math.max(...points.map(point => point.x)),
+  maxY: Math.max(...points.map(point => point.y))
+});
+
+const orthogonalRoute = (points: Point[]): WireRoute => ({
+  path: toRoundedPath(points),
+  midpoint: polylineMidpoint(points),
+  bounds: boundsOf(points)
+});
+
+const bezierRoute = (start: Point, end: Point): WireRoute => {
+  // Backward wires get wider handles so they loop out of the output and into the input
+  const handle = Math.max(Math.abs(end.x - start.x) / 2, 40);
+  const c1 = { x: start.x + handle, y: start.y };
+  const c2 = { x: end.x - handle, y: end.y };
+  return {
+    path: `M ${start.x} ${start.y} C ${c1.x} ${c1.y} ${c2.x} ${c2.y} ${end.x} ${end.y}`,
+    // The curve at t = 0.5
+    midpoint: {
+      x: (start.x + 3 * c1.x + 3 * c2.x + end.x) / 8,
+      y: (start.y + 3 * c1.y + 3 * c2.y + end.y) / 8
+    },
+    // A cubic curve never leaves the hull of its control points
+    bounds: boundsOf([start, c1, c2, end])
+  };
+};
+
+/**
+ * Route for a single wire. Used for the wire being dragged, which is routed
+ * around nodes but not spread against the others.
+ */
+export const routeWire = (start: Point, end: Point, style: WireStyle, obstacles: Bounds[] = []): WireRoute => {
+  if (style === 'straight') {
+    return {
+      path: `M ${start.x} ${start.y} L ${end.x} ${end.y}`,
+      midpoint: { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 },
+      bounds: boundsOf([start, end])
+    };
+  }
+  if (style === 'bezier') return bezierRoute(start, end);
+  return orthogonalRoute(routeOrthogonal(start, end, obstacles));
+};
+
+/**
+ * Routes for every wire, keyed by request id. Orthogonal wires are routed
+ * around `obstacles` and wires sharing a channel are spread apart.
+ */
+export const routeWires = (wires: WireRequest[], style: WireStyle, obstacles: Bounds[]): Map<string, WireRoute> => {
+  if (style !== 'orthogonal') {
+    return new Map(wires.map(wire => [wire.id, routeWire(wire.start, wire.end, style)]));
+  }
+
+  const index = indexObstacles(obstacles);
+  const routes = wires.map(wire => routeAround(wire.start, wire.end, index));
+  spreadLanes(routes);
+  return new Map(wires.map((wire, index) => [wire.id, orthogonalRoute(routes[index])]));
+};
@@ -0,0 +1,60 @@
+import type { WorkflowFieldError } from './schema';
+import type { StoredWorkflow, WorkflowDocument, WorkflowSummary } from './types';
+
+// Client-side wrappers around the /api/workflows route handlers.
+
+export class WorkflowApiError extends Error {
+  constructor(message: string, readonly status: number, readonly details: WorkflowFieldError[] = []) {
+    super(message);
+    this.name = 'WorkflowApiError';
+  }
+}
+
+// Thrown when a save is rejected because the stored revision moved on.
+export class WorkflowRevisionConflictError extends Error {
+  constructor(readonly current: StoredWorkflow) {
+    super(`Workflow was saved elsewhere (now at revision ${current.revision})`);
+    this.name = 'WorkflowRevisionConflictError';
+  }
+}
+
+const request = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers }
+  });
+
+  if (response.ok) {
+    return (response.status === 204 ? undefined : await response.json()) as T;
+  }
+
+  const body = await response.json().catch(() => ({}));
+  if (response.status === 409 && body.current) {
+    throw new WorkflowRevisionConflictError(body.current);
+  }
+  throw new WorkflowApiError(body.error ?? `Request failed with status ${response.status}`, response.status, body.details);
+};
+
+export const listRemoteWorkflows = async () =>
+  (await request<{ workflows: WorkflowSummary[] }>('/api/workflows')).workflows;
+
+export const fetchRemoteWorkflow = (id: string) =>
+  request<StoredWorkflow>(`/api/workflows/${encodeURIComponent(id)}`);
+
+export const createRemoteWorkflow = (document: WorkflowDocument) =>
+  request<StoredWorkflow>('/api/workflows', {
+    method: 'POST',
+    body: JSON.stringify({ document })
+  });
+
+export const saveRemoteWorkflow = (id: string, document: WorkflowDocument, revision: number) =>
+  request<StoredWorkflow>(`/api/workflows/${encodeURIComponent(id)}`, {
+    method: 'PUT',
+    body: JSON.stringify({ document, revision })
+  });
+
+export const deleteRemoteWorkflow = (id: string, revision?: number) =>
+  request<void>(
+    `/api/workflows/${encodeURIComponent(id)}${revision === undefined ? '' : `?revision=${revision}`}`,
+    { method: 'DELETE' }
+  );
@@ -0,0 +1,70 @@
+import { createWorkflowDocument, DEFAULT_OUTPUT_ID } from './document';
+import type { ConnectionData, NodeData, WorkflowDocument } from './types';
+
+const COLUMN_SPACING = 200;
+const ROW_SPACING = 120;
+// Sources are picked from rows this close to the target, so wires stay local
+// the way they do in real graphs instead of all crossing the whole canvas
+const ROW_REACH = 5;
+
+// Small seeded generator (mulberry32), so every run benchmarks the same graph
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+/**
+ * A large, valid workflow for checking canvas performance: `nodeCount` Code
+ * nodes in a grid of columns, and `wireCount` wires, each running from a node
+ * one or two columns to the left, so the graph stays acyclic. The defaults are
+ * the size the canvas is expected to stay smooth at; open `/benchmark` to try it.
+ */
+export const createBenchmarkWorkflow = (nodeCount = 1000, wireCount = 2000, seed = 1): WorkflowDocument => {
+  const random = createRandom(seed);
+  const rows = Math.max(1, Math.round(Math.sqrt(nodeCount * 1.6)));
+  const columns = Math.ceil(nodeCount / rows);
+
+  const nodes: NodeData[] = Array.from({ length: nodeCount }, (_, index) => {
+    const column = Math.floor(index / rows);
+    const row = index % rows;
+    return {
+      id: `node-${index + 1}`,
+      type: 'code',
+      x: column * COLUMN_SPACING,
+      y: row * ROW_SPACING,
+      title: 'Code',
+      config: { label: `Step ${column + 1}.${row + 1}` },
+      inputs: []
+    };
+  });
+
+  // Everything but the first column can take wires; spread them evenly
+  const targetCount = nodes.length - rows;
+  const connections: ConnectionData[] = [];
+  if (columns > 1) {
+    for (let index = 0; index < wireCount; index++) {
+      const targetIndex = rows + (index % targetCount);
+      const target = nodes[targetIndex];
+      const targetColumn = Math.floor(targetIndex / rows);
+      const targetRow = targetIndex % rows;
+
+      const columnBack = targetColumn >= 2 && random() < 0.25 ? 2 : 1;
+      const sourceRow = Math.min(rows - 1, Math.max(0, targetRow + Math.round((random() * 2 - 1) * ROW_REACH)));
+      const source = nodes[(targetColumn - columnBack) * rows + sourceRow];
+
+      const inputId = `input-${target.inputs.length + 1}`;
+      target.inputs.push({ id: inputId, connected: true });
+      connections.push({
+        id: `conn-${index + 1}`,
+        fromNodeId: source.id,
+        fromOutputId: DEFAULT_OUTPUT_ID,
+        toNodeId: target.id,
+        toInputId: inputId
+      });
+    }
+  }
+
+  return createWorkflowDocument({ nodes, connections }, { name: `Benchmark (${nodeCount} nodes, ${wireCount} wires)` });
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { extractSubgraph, instantiateSubgraph, parseClipboard, serializeClipboard } from './clipboard';
+import type { NodeData, WorkflowGraph } from './types';
+
+const node = (id: string, x: number, y: number, inputs: string[] = []): NodeData => ({
+  id,
+  type: 'code',
+  x,
+  y,
+  title: id,
+  config: { label: id },
+  inputs: inputs.map(inputId => ({ id: inputId, connected: true }))
+});
+
+// outside -> a -> b
+const graph: WorkflowGraph = {
+  nodes: [node('outside', 0, 0), node('a', 100, 50, ['in']), node('b', 300, 150, ['in'])],
+  connections: [
+    { id: 'oa', fromNodeId: 'outside', fromOutputId: 'output', toNodeId: 'a', toInputId: 'in' },
+    { id: 'ab', fromNodeId: 'a', fromOutputId: 'output', toNodeId: 'b', toInputId: 'in', label: 'rows' }
+  ]
+};
+
+describe('extractSubgraph', () => {
+  it('keeps only wires inside the selection, leaving inputs fed from outside unconnected', () => {
+    const subgraph = extractSubgraph(graph, ['a', 'b']);
+    expect(subgraph.nodes.map(candidate => candidate.id)).toEqual(['a', 'b']);
+    expect(subgraph.connections.map(conn => conn.id)).toEqual(['ab']);
+    expect(subgraph.nodes[0].inputs).toEqual([{ id: 'in', connected: false }]);
+    expect(subgraph.nodes[1].inputs).toEqual([{ id: 'in', connected: true }]);
+  });
+});
+
+describe('clipboard text', () => {
+  it('round-trips a subgraph', () => {
+    const subgraph = extractSubgraph(graph, ['a', 'b']);
+    expect(parseClipboard(serializeClipboard(subgraph))).toEqual(subgraph);
+  });
+
+  it.each([
+    'not json',
+    'null',
+    JSON.stringify({ nodes: [], connections: [] }),
+    JSON.stringify({ format: 'something-else', document: {} }),
+    serializeClipboard({ nodes: [], connections: [] })
+  ])('ignores %s', (text) => {
+    expect(parseClipboard(text)).toBeNull();
+  });
+});
+
+describe('instantiateSubgraph', () => {
+  const subgraph = extractSubgraph(graph, ['a', 'b']);
+  const pasted = instantiateSubgraph(subgraph, { x: 1000, y: 2000 });
+
+  it('gives nodes and wires fresh ids', () => {
+    const oldIds = new Set([...subgraph.nodes.map(item => item.id), ...subgraph.connections.map(item => item.id)]);
+    [...pasted.nodes, ...pasted.connections].forEach(item => expect(oldIds.has(item.id)).toBe(false));
+    expect(new Set(pasted.nodes.map(item => item.id)).size).toBe(2);
+  });
+
+  it('points the wires at the new node ids', () => {
+    const [a, b] = pasted.nodes;
+    expect(pasted.connections[0]).toMatchObject({ fromNodeId: a.id, toNodeId: b.id, toInputId: 'in', label: 'rows' });
+  });
+
+  it('moves the top-left corner to the paste point, keeping the layout', () => {
+    expect(pasted.nodes.map(({ x, y }) => ({ x, y }))).toEqual([{ x: 1000, y: 2000 }, { x: 1200, y: 2100 }]);
+  });
+
+  it('pastes again as a separate copy', () => {
+    const again = instantiateSubgraph(subgraph, { x: 0, y: 0 });
+    expect(again.nodes.map(item => item.id)).not.toEqual(pasted.nodes.map(item => item.id));
+  });
+});
@@ -0,0 +1,74 @@
+import { createId } from '@/lib/ids';
+import { createWorkflowDocument, loadWorkflowDocument } from './document';
+import type { WorkflowGraph } from './types';
+
+// Marks clipboard text as ours, so pasting arbitrary JSON is ignored
+const CLIPBOARD_FORMAT = 'canvas-workflow/subgraph';
+
+/**
+ * The selected nodes plus the connections running between them. Inputs that
+ * were fed from outside the selection are copied as unconnected.
+ */
+export const extractSubgraph = (graph: WorkflowGraph, nodeIds: Iterable<string>): WorkflowGraph => {
+  const ids = new Set(nodeIds);
+  const connections = graph.connections.filter(conn => ids.has(conn.fromNodeId) && ids.has(conn.toNodeId));
+  const connectedInputs = new Set(connections.map(conn => `${conn.toNodeId}/${conn.toInputId}`));
+
+  const nodes = graph.nodes
+    .filter(node => ids.has(node.id))
+    .map(node => ({
+      ...node,
+      inputs: node.inputs.map(input => ({ ...input, connected: connectedInputs.has(`${node.id}/${input.id}`) }))
+    }));
+
+  return { nodes, connections };
+};
+
+// Plain-text JSON so it survives the system clipboard and pastes into other tabs.
+// The payload is a full workflow document, so it gets the same migrations and
+// validation as an imported file.
+export const serializeClipboard = (subgraph: WorkflowGraph) =>
+  JSON.stringify({ format: CLIPBOARD_FORMAT, document: createWorkflowDocument(subgraph) });
+
+export const parseClipboard = (text: string): WorkflowGraph | null => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (typeof value !== 'object' || value === null) return null;
+
+  const payload = value as { format?: unknown; document?: unknown };
+  if (payload.format !== CLIPBOARD_FORMAT) return null;
+
+  const loaded = loadWorkflowDocument(payload.document);
+  if (!loaded.ok || loaded.document.nodes.length === 0) return null;
+  return { nodes: loaded.document.nodes, connections: loaded.document.connections };
+};
+
+/**
+ * Gives every node and connection a fresh id and moves the subgraph so its
+ * top-left node corner lands on `topLeft`. Input ids are scoped to their node
+ * and can stay as they are.
+ */
+export const instantiateSubgraph = (subgraph: WorkflowGraph, topLeft: { x: number; y: number }): WorkflowGraph => {
+  const minX = Math.min(...subgraph.nodes.map(node => node.x));
+  const minY = Math.min(...subgraph.nodes.map(node => node.y));
+  const nodeIds = new Map(subgraph.nodes.map(node => [node.id, createId('node')]));
+
+  return {
+    nodes: subgraph.nodes.map(node => ({
+      ...node,
+      id: nodeIds.get(node.id) as string,
+      x: node.x - minX + topLeft.x,
+      y: node.y - minY + topLeft.y
+    })),
+    connections: subgraph.connections.map(conn => ({
+      ...conn,
+      id: createId('conn'),
+      fromNodeId: nodeIds.get(conn.fromNodeId) as string,
+      toNodeId: nodeIds.get(conn.toNodeId) as string
+    }))
+  };
+};
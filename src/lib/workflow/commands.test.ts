@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addNodeCommand,
+  addSubgraphCommand,
+  composeCommands,
+  connectCommand,
+  connectToNewInputCommand,
+  disconnectCommand,
+  labelConnectionCommand,
+  moveNodeCommand,
+  moveNodesCommand,
+  removeInputCommand,
+  removeNodesCommand,
+  setFramesCommand,
+  setSubflowsCommand,
+  updateNodeCommand,
+  type GraphCommand
+} from './commands';
+import type { NodeData, WorkflowGraph } from './types';
+
+const node = (id: string, inputs: [string, boolean][] = []): NodeData => ({
+  id,
+  type: 'code',
+  x: 0,
+  y: 0,
+  title: id,
+  config: {},
+  inputs: inputs.map(([inputId, connected]) => ({ id: inputId, connected }))
+});
+
+// a -> b.in1, b.in2 open, c on its own
+const graph: WorkflowGraph = {
+  nodes: [node('a'), node('b', [['in1', true], ['in2', false]]), node('c', [['in', false]])],
+  connections: [{ id: 'ab', fromNodeId: 'a', fromOutputId: 'output', toNodeId: 'b', toInputId: 'in1', label: 'users' }],
+  frames: [{ id: 'f', title: 'Frame', color: 'blue', nodeIds: ['a', 'b'] }],
+  subflows: [{ id: 's', title: 'Sub', x: 0, y: 0, nodeIds: ['c'] }]
+};
+
+const expectRoundTrip = (command: GraphCommand, before: WorkflowGraph = graph) => {
+  const after = command.apply(before);
+  expect(after).not.toEqual(before);
+  expect(command.revert(after)).toEqual(before);
+  return after;
+};
+
+describe('graph commands', () => {
+  it('add a node and take it away again', () => {
+    const after = expectRoundTrip(addNodeCommand(node('d')));
+    expect(after.nodes.map(candidate => candidate.id)).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('move one or several nodes and back', () => {
+    expect(expectRoundTrip(moveNodeCommand('a', { x: 0, y: 0 }, { x: 40, y: 80 })).nodes[0]).toMatchObject({ x: 40, y: 80 });
+    const after = expectRoundTrip(moveNodesCommand(
+      'Arrange',
+      new Map([['b', { x: 0, y: 0 }], ['s', { x: 0, y: 0 }]]),
+      new Map([['b', { x: 10, y: 10 }], ['s', { x: 20, y: 20 }]])
+    ));
+    expect(after.subflows?.[0]).toMatchObject({ x: 20, y: 20 });
+  });
+
+  it('edit a node and undo the edit', () => {
+    const after = expectRoundTrip(updateNodeCommand('a', { title: 'a', config: {} }, { title: 'Fetch', config: { label: 'x' } }));
+    expect(after.nodes[0]).toMatchObject({ title: 'Fetch', config: { label: 'x' } });
+  });
+
+  it('connect to an open input, marking it connected', () => {
+    const after = expectRoundTrip(connectCommand({ id: 'ab2', fromNodeId: 'a', fromOutputId: 'output', toNodeId: 'b', toInputId: 'in2' }));
+    expect(after.nodes[1].inputs[1].connected).toBe(true);
+  });
+
+  it('connect to a new input', () => {
+    const after = expectRoundTrip(connectToNewInputCommand({ id: 'ac', fromNodeId: 'a', fromOutputId: 'output', toNodeId: 'c', toInputId: 'in-new' }));
+    expect(after.nodes[2].inputs).toEqual([{ id: 'in', connected: false }, { id: 'in-new', connected: true }]);
+  });
+
+  it('disconnect a wire, marking its input open', () => {
+    const after = expectRoundTrip(disconnectCommand(graph.connections[0]));
+    expect(after.connections).toEqual([]);
+    expect(after.nodes[1].inputs[0].connected).toBe(false);
+  });
+
+  it('label a wire, and clear the label without leaving a key behind', () => {
+    expect(expectRoundTrip(labelConnectionCommand('ab', 'users', 'people')).connections[0].label).toBe('people');
+    expect(expectRoundTrip(labelConnectionCommand('ab', 'users', undefined)).connections[0]).not.toHaveProperty('label');
+  });
+
+  it('remove an input together with its wire, putting it back in place', () => {
+    const after = expectRoundTrip(removeInputCommand('b', graph.nodes[1].inputs[0], 0, graph.connections[0]));
+    expect(after.nodes[1].inputs.map(input => input.id)).toEqual(['in2']);
+    expect(after.connections).toEqual([]);
+  });
+
+  it('remove nodes with their wires, frames and subflows, restoring all of it', () => {
+    const after = expectRoundTrip(removeNodesCommand(graph, ['a', 'c']));
+    expect(after.nodes.map(candidate => candidate.id)).toEqual(['b']);
+    expect(after.nodes[0].inputs[0].connected).toBe(false);
+    expect(after.frames).toEqual([{ ...graph.frames?.[0], nodeIds: ['b'] }]);
+    expect(after.subflows).toEqual([]);
+  });
+
+  it('add a pasted subgraph', () => {
+    const after = expectRoundTrip(addSubgraphCommand({
+      nodes: [node('x'), node('y', [['in', true]])],
+      connections: [{ id: 'xy', fromNodeId: 'x', fromOutputId: 'output', toNodeId: 'y', toInputId: 'in' }]
+    }));
+    expect(after.nodes).toHaveLength(5);
+    expect(after.connections).toHaveLength(2);
+  });
+
+  it('replace frames and subflows', () => {
+    expectRoundTrip(setFramesCommand('Frame', graph.frames ?? [], []));
+    expectRoundTrip(setSubflowsCommand('Expand', graph.subflows ?? [], []));
+  });
+
+  it('compose into one step that reverts in reverse order', () => {
+    const after = expectRoundTrip(composeCommands('Add and connect', [
+      addNodeCommand(node('d', [['in', false]])),
+      connectCommand({ id: 'ad', fromNodeId: 'a', fromOutputId: 'output', toNodeId: 'd', toInputId: 'in' })
+    ]));
+    expect(after.nodes[3].inputs[0].connected).toBe(true);
+  });
+});
@@ -0,0 +1,253 @@
+import type { Point } from '@/lib/geometry';
+import type { ConnectionData, FrameData, NodeData, NodeInput, SubflowData, WorkflowGraph } from './types';
+
+// The parts of a node the inspector edits
+export type NodeEdit = Pick<NodeData, 'title' | 'config'>;
+
+/**
+ * A reversible edit to the graph. `apply` and `revert` are pure and must be
+ * exact inverses when run against the state the command was created for.
+ */
+export interface GraphCommand {
+  label: string;
+  apply: (graph: WorkflowGraph) => WorkflowGraph;
+  revert: (graph: WorkflowGraph) => WorkflowGraph;
+}
+
+const mapNode = (graph: WorkflowGraph, nodeId: string, update: (node: NodeData) => NodeData): WorkflowGraph => ({
+  ...graph,
+  nodes: graph.nodes.map(node => (node.id === nodeId ? update(node) : node))
+});
+
+const setInputConnected = (graph: WorkflowGraph, nodeId: string, inputId: string, connected: boolean) =>
+  mapNode(graph, nodeId, node => ({
+    ...node,
+    inputs: node.inputs.map(input => (input.id === inputId ? { ...input, connected } : input))
+  }));
+
+const insertAt = <T>(items: T[], index: number, item: T) => [
+  ...items.slice(0, index),
+  item,
+  ...items.slice(index)
+];
+
+// Runs several commands as one history entry, reverting in reverse order.
+export const composeCommands = (label: string, commands: GraphCommand[]): GraphCommand => ({
+  label,
+  apply: graph => commands.reduce((current, command) => command.apply(current), graph),
+  revert: graph => commands.reduceRight((current, command) => command.revert(current), graph)
+});
+
+export const addNodeCommand = (node: NodeData): GraphCommand => ({
+  label: 'Add node',
+  apply: graph => ({ ...graph, nodes: [...graph.nodes, node] }),
+  revert: graph => ({ ...graph, nodes: graph.nodes.filter(candidate => candidate.id !== node.id) })
+});
+
+/**
+ * Moves nodes, and collapsed subflows, which sit on the canvas like nodes, to
+ * the positions given by id. Anything not listed stays where it is.
+ */
+export const placeNodes = (graph: WorkflowGraph, positions: ReadonlyMap<string, Point>): WorkflowGraph => {
+  const place = <T extends Point & { id: string }>(item: T) => {
+    const position = positions.get(item.id);
+    return position ? { ...item, x: position.x, y: position.y } : item;
+  };
+  return {
+    ...graph,
+    nodes: graph.nodes.map(place),
+    ...(graph.subflows && { subflows: graph.subflows.map(place) })
+  };
+};
+
+export const moveNodeCommand = (nodeId: string, from: Point, to: Point): GraphCommand => ({
+  label: 'Move node',
+  apply: graph => placeNodes(graph, new Map([[nodeId, to]])),
+  revert: graph => placeNodes(graph, new Map([[nodeId, from]]))
+});
+
+// Moves many nodes at once, e.g. when arranging; `from` and `to` are keyed by node id
+export const moveNodesCommand = (
+  label: string,
+  from: ReadonlyMap<string, Point>,
+  to: ReadonlyMap<string, Point>
+): GraphCommand => ({
+  label,
+  apply: graph => placeNodes(graph, to),
+  revert: graph => placeNodes(graph, from)
+});
+
+export const updateNodeCommand = (nodeId: string, from: NodeEdit, to: NodeEdit): GraphCommand => ({
+  label: 'Edit node',
+  apply: graph => mapNode(graph, nodeId, node => ({ ...node, title: to.title, config: to.config })),
+  revert: graph => mapNode(graph, nodeId, node => ({ ...node, title: from.title, config: from.config }))
+});
+
+// Connects to an existing, currently unconnected input.
+export const connectCommand = (connection: ConnectionData): GraphCommand => ({
+  label: 'Connect',
+  apply: graph => setInputConnected(
+    { ...graph, connections: [...graph.connections, connection] },
+    connection.toNodeId,
+    connection.toInputId,
+    true
+  ),
+  revert: graph => setInputConnected(
+    { ...graph, connections: graph.connections.filter(conn => conn.id !== connection.id) },
+    connection.toNodeId,
+    connection.toInputId,
+    false
+  )
+});
+
+// Appends a new input to the target node and connects to it in one step.
+export const connectToNewInputCommand = (connection: ConnectionData): GraphCommand => ({
+  label: 'Connect',
+  apply: graph => mapNode(
+    { ...graph, connections: [...graph.connections, connection] },
+    connection.toNodeId,
+    node => ({ ...node, inputs: [...node.inputs, { id: connection.toInputId, connected: true }] })
+  ),
+  revert: graph => mapNode(
+    { ...graph, connections: graph.connections.filter(conn => conn.id !== connection.id) },
+    connection.toNodeId,
+    node => ({ ...node, inputs: node.inputs.filter(input => input.id !== connection.toInputId) })
+  )
+});
+
+export const disconnectCommand = (connection: ConnectionData): GraphCommand => {
+  const connect = connectCommand(connection);
+  return { label: 'Disconnect', apply: connect.revert, revert: connect.apply };
+};
+
+// Sets or, with `to` undefined, clears the text shown on a wire.
+export const labelConnectionCommand = (connectionId: string, from: string | undefined, to: string | undefined): GraphCommand => {
+  const setLabel = (label: string | undefined) => (graph: WorkflowGraph): WorkflowGraph => ({
+    ...graph,
+    connections: graph.connections.map(conn => {
+      if (conn.id !== connectionId) return conn;
+      const next = { ...conn, label };
+      // Cleared labels leave no `label` key behind in the saved document
+      if (label === undefined) delete next.label;
+      return next;
+    })
+  });
+  return { label: 'Label wire', apply: setLabel(to), revert: setLabel(from) };
+};
+
+export const removeInputCommand = (
+  nodeId: string,
+  input: NodeInput,
+  index: number,
+  connection: ConnectionData | undefined
+): GraphCommand => ({
+  label: 'Remove input',
+  apply: graph => mapNode(
+    {
+      ...graph,
+      connections: graph.connections.filter(conn => !(conn.toNodeId === nodeId && conn.toInputId === input.id))
+    },
+    nodeId,
+    node => ({ ...node, inputs: node.inputs.filter(candidate => candidate.id !== input.id) })
+  ),
+  revert: graph => mapNode(
+    { ...graph, connections: connection ? [...graph.connections, connection] : graph.connections },
+    nodeId,
+    node => ({ ...node, inputs: insertAt(node.inputs, index, input) })
+  )
+});
+
+// Drops subflows with nothing in them; emptying one can empty its parent in turn
+const pruneSubflows = (subflows: SubflowData[]): SubflowData[] => {
+  const kept = subflows.filter(subflow =>
+    subflow.nodeIds.length > 0 || subflows.some(child => child.parentId === subflow.id));
+  return kept.length < subflows.length ? pruneSubflows(kept) : kept;
+};
+
+// Takes removed nodes out of frames and subflows, dropping frames left with no
+// nodes and subflows left with nothing in them at all
+const withoutNodes = (grouping: Pick<WorkflowGraph, 'frames' | 'subflows'>, ids: ReadonlySet<string>) => {
+  const frames = grouping.frames
+    ?.map(frame => ({ ...frame, nodeIds: frame.nodeIds.filter(id => !ids.has(id)) }))
+    .filter(frame => frame.nodeIds.length > 0);
+
+  const subflows = grouping.subflows && pruneSubflows(
+    grouping.subflows.map(subflow => ({ ...subflow, nodeIds: subflow.nodeIds.filter(id => !ids.has(id)) }))
+  );
+
+  return { ...(frames && { frames }), ...(subflows && { subflows }) };
+};
+
+// Removes nodes together with every connection touching them. Inputs on the
+// surviving side of a removed connection are marked as unconnected again, and
+// the nodes leave any frame or subflow they were in.
+export const removeNodesCommand = (graph: WorkflowGraph, nodeIds: Iterable<string>): GraphCommand => {
+  const ids = new Set(nodeIds);
+  const removedNodes = graph.nodes
+    .map((node, index) => ({ node, index }))
+    .filter(({ node }) => ids.has(node.id));
+  const removedConnections = graph.connections.filter(conn => ids.has(conn.fromNodeId) || ids.has(conn.toNodeId));
+  // Connections into a surviving node need that node's input flag updated too
+  const disconnects = removedConnections
+    .filter(conn => !ids.has(conn.toNodeId))
+    .map(disconnectCommand);
+  const internal = removedConnections.filter(conn => ids.has(conn.toNodeId));
+  // Frames and subflows as they were, put back whole on undo
+  const grouping = {
+    ...(graph.frames && { frames: graph.frames }),
+    ...(graph.subflows && { subflows: graph.subflows })
+  };
+
+  return {
+    label: removedNodes.length === 1 ? 'Delete node' : `Delete ${removedNodes.length} nodes`,
+    apply: current => {
+      const disconnected = disconnects.reduce((next, command) => command.apply(next), current);
+      return {
+        ...disconnected,
+        nodes: disconnected.nodes.filter(node => !ids.has(node.id)),
+        connections: disconnected.connections.filter(conn => !ids.has(conn.fromNodeId) && !ids.has(conn.toNodeId)),
+        ...withoutNodes(grouping, ids)
+      };
+    },
+    revert: current => {
+      // Indices are ascending, so each insert lands where the node used to be
+      const nodes = removedNodes.reduce((next, { node, index }) => insertAt(next, index, node), current.nodes);
+      const restored = { ...current, nodes, connections: [...current.connections, ...internal], ...grouping };
+      return disconnects.reduceRight((next, command) => command.revert(next), restored);
+    }
+  };
+};
+
+// Adds a self-contained set of nodes and the connections between them (paste, duplicate)
+export const addSubgraphCommand = (subgraph: WorkflowGraph): GraphCommand => {
+  const nodeIds = new Set(subgraph.nodes.map(node => node.id));
+  const connectionIds = new Set(subgraph.connections.map(conn => conn.id));
+
+  return {
+    label: subgraph.nodes.length === 1 ? 'Add node' : `Add ${subgraph.nodes.length} nodes`,
+    apply: graph => ({
+      ...graph,
+      nodes: [...graph.nodes, ...subgraph.nodes],
+      connections: [...graph.connections, ...subgraph.connections]
+    }),
+    revert: graph => ({
+      ...graph,
+      nodes: graph.nodes.filter(node => !nodeIds.has(node.id)),
+      connections: graph.connections.filter(conn => !connectionIds.has(conn.id))
+    })
+  };
+};
+
+// Replaces the frame list, e.g. to add, rename, recolour or remove a frame
+export const setFramesCommand = (label: string, from: FrameData[], to: FrameData[]): GraphCommand => ({
+  label,
+  apply: graph => ({ ...graph, frames: to }),
+  revert: graph => ({ ...graph, frames: from })
+});
+
+// Replaces the subflow list, e.g. to collapse nodes into a subflow or expand one
+export const setSubflowsCommand = (label: string, from: SubflowData[], to: SubflowData[]): GraphCommand => ({
+  label,
+  apply: graph => ({ ...graph, subflows: to }),
+  revert: graph => ({ ...graph, subflows: from })
+});
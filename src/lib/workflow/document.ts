@@ -0,0 +1,56 @@
+import { migrateWorkflowDocument } from './migrations';
+import { validateWorkflowDocument, type WorkflowFieldError } from './schema';
+import type { Viewport, WireStyle, WorkflowDocument, WorkflowGraph } from './types';
+
+export const CURRENT_WORKFLOW_VERSION = 7;
+
+export const DEFAULT_VIEWPORT: Viewport = { x: 0, y: 0, zoom: 1 };
+
+export const DEFAULT_WIRE_STYLE: WireStyle = 'orthogonal';
+
+// Output id of node types that don't declare named outputs
+export const DEFAULT_OUTPUT_ID = 'output';
+
+export type WorkflowParseResult =
+  | { ok: true; document: WorkflowDocument }
+  | { ok: false; errors: WorkflowFieldError[] };
+
+export const createWorkflowDocument = (
+  graph: WorkflowGraph,
+  options: { name?: string; viewport?: Viewport; wireStyle?: WireStyle } = {}
+): WorkflowDocument => ({
+  version: CURRENT_WORKFLOW_VERSION,
+  name: options.name ?? 'Untitled workflow',
+  viewport: options.viewport ?? DEFAULT_VIEWPORT,
+  wireStyle: options.wireStyle ?? DEFAULT_WIRE_STYLE,
+  nodes: graph.nodes,
+  connections: graph.connections,
+  frames: graph.frames ?? [],
+  subflows: graph.subflows ?? []
+});
+
+export const serializeWorkflowDocument = (document: WorkflowDocument) =>
+  JSON.stringify(document, null, 2);
+
+/**
+ * Migrates and validates an already-decoded JSON value. Older schema versions
+ * are upgraded to `CURRENT_WORKFLOW_VERSION` before validation.
+ */
+export const loadWorkflowDocument = (value: unknown): WorkflowParseResult => {
+  const migrated = migrateWorkflowDocument(value, CURRENT_WORKFLOW_VERSION);
+  if (!migrated.ok) return migrated;
+
+  return validateWorkflowDocument(migrated.document, CURRENT_WORKFLOW_VERSION);
+};
+
+export const parseWorkflowDocument = (text: string): WorkflowParseResult => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return { ok: false, errors: [{ path: '', message: `not valid JSON: ${reason}` }] };
+  }
+
+  return loadWorkflowDocument(value);
+};
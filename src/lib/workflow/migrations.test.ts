@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { CURRENT_WORKFLOW_VERSION, loadWorkflowDocument } from './document';
+import { migrateWorkflowDocument } from './migrations';
+
+// The canvas state before workflows had a file format
+const VERSION_0 = {
+  nodes: [
+    { id: 'a', x: 10, y: 20, title: 'Fetch', description: 'users', inputs: [] },
+    { id: 'b', x: 200, y: 20, title: 'Format', description: '', inputs: [{ id: 'in', connected: true }] }
+  ],
+  connections: [{ id: 'c', fromNodeId: 'a', toNodeId: 'b', toInputId: 'in' }]
+};
+
+describe('migrateWorkflowDocument', () => {
+  it('takes a version 0 document all the way to the current version', () => {
+    const result = migrateWorkflowDocument(VERSION_0, CURRENT_WORKFLOW_VERSION);
+    if (!result.ok) throw new Error('migration failed');
+
+    expect(result.document).toEqual({
+      version: CURRENT_WORKFLOW_VERSION,
+      name: 'Untitled workflow',
+      viewport: { x: 0, y: 0, zoom: 1 },
+      wireStyle: 'orthogonal',
+      nodes: [
+        { id: 'a', x: 10, y: 20, title: 'Fetch', type: 'code', config: { label: 'users' }, inputs: [] },
+        { id: 'b', x: 200, y: 20, title: 'Format', type: 'code', config: {}, inputs: [{ id: 'in', connected: true }] }
+      ],
+      connections: [{ id: 'c', fromNodeId: 'a', fromOutputId: 'output', toNodeId: 'b', toInputId: 'in' }],
+      frames: [],
+      subflows: []
+    });
+  });
+
+  it('produces a document that loads', () => {
+    expect(loadWorkflowDocument(VERSION_0).ok).toBe(true);
+  });
+
+  it('keeps what later versions already have', () => {
+    const result = migrateWorkflowDocument({
+      version: 4,
+      name: 'Mine',
+      viewport: { x: 5, y: 6, zoom: 2 },
+      wireStyle: 'straight',
+      nodes: [{ id: 'a', type: 'http', config: { url: 'https://example.com' } }],
+      connections: []
+    }, CURRENT_WORKFLOW_VERSION);
+    if (!result.ok) throw new Error('migration failed');
+
+    expect(result.document).toMatchObject({
+      version: CURRENT_WORKFLOW_VERSION,
+      name: 'Mine',
+      viewport: { x: 5, y: 6, zoom: 2 },
+      wireStyle: 'straight',
+      nodes: [{ id: 'a', type: 'http', config: { url: 'https://example.com' } }]
+    });
+  });
+
+  it('stops at the target version', () => {
+    const result = migrateWorkflowDocument(VERSION_0, 2);
+    expect(result.ok && result.document).toMatchObject({ version: 2 });
+    expect(result.ok && result.document.wireStyle).toBeUndefined();
+  });
+
+  it('leaves a current document as it is', () => {
+    const document = { version: CURRENT_WORKFLOW_VERSION, nodes: [], connections: [] };
+    expect(migrateWorkflowDocument(document, CURRENT_WORKFLOW_VERSION)).toEqual({ ok: true, document });
+  });
+
+  it('refuses documents from a newer version of the app', () => {
+    const result = migrateWorkflowDocument({ version: CURRENT_WORKFLOW_VERSION + 1 }, CURRENT_WORKFLOW_VERSION);
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.errors[0].path).toBe('version');
+  });
+
+  it.each([null, [], 'text', { version: -1 }, { version: 1.5 }, { version: '3' }])('refuses %j', (value) => {
+    expect(migrateWorkflowDocument(value, CURRENT_WORKFLOW_VERSION).ok).toBe(false);
+  });
+});
@@ -0,0 +1,105 @@
+import type { WorkflowFieldError } from './schema';
+
+type RawDocument = Record<string, unknown>;
+
+// Each migration upgrades a document from version N to N + 1. It receives the
+// raw (unvalidated) JSON object and must not assume more than that version's
+// shape; validation only happens after the last migration has run.
+type WorkflowMigration = (document: RawDocument) => RawDocument;
+
+const migrations: Record<number, WorkflowMigration> = {
+  // Version 0 is the bare `{ nodes, connections }` state the canvas kept before
+  // workflows had a file format.
+  0: (document) => ({
+    ...document,
+    version: 1,
+    name: typeof document.name === 'string' ? document.name : 'Untitled workflow',
+    viewport: document.viewport ?? { x: 0, y: 0, zoom: 1 }
+  }),
+  // Version 2 added node types. Everything before was a "Code" node.
+  1: (document) => ({
+    ...document,
+    version: 2,
+    nodes: Array.isArray(document.nodes)
+      ? document.nodes.map(node => (
+          typeof node === 'object' && node !== null && !('type' in node) ? { ...node, type: 'code' } : node
+        ))
+      : document.nodes
+  }),
+  // Version 3 added named outputs. Every node had exactly one, now called "output".
+  2: (document) => ({
+    ...document,
+    version: 3,
+    connections: Array.isArray(document.connections)
+      ? document.connections.map(conn => (
+          typeof conn === 'object' && conn !== null && !('fromOutputId' in conn) ? { ...conn, fromOutputId: 'output' } : conn
+        ))
+      : document.connections
+  }),
+  // Version 4 added per-node config. The free-text description shown under a
+  // node becomes its `label` setting.
+  3: (document) => ({
+    ...document,
+    version: 4,
+    nodes: Array.isArray(document.nodes)
+      ? document.nodes.map(node => {
+          if (typeof node !== 'object' || node === null || 'config' in node) return node;
+          const { description, ...rest } = node as Record<string, unknown>;
+          return { ...rest, config: typeof description === 'string' && description !== '' ? { label: description } : {} };
+        })
+      : document.nodes
+  }),
+  // Version 5 added a per-workflow wire style. Wires used to be drawn with right-angle elbows.
+  4: (document) => ({
+    ...document,
+    version: 5,
+    wireStyle: document.wireStyle ?? 'orthogonal'
+  }),
+  // Version 6 added optional wire labels; existing wires simply have none.
+  5: (document) => ({
+    ...document,
+    version: 6
+  }),
+  // Version 7 added frames and subflows; existing workflows have neither.
+  6: (document) => ({
+    ...document,
+    version: 7,
+    frames: document.frames ?? [],
+    subflows: document.subflows ?? []
+  })
+};
+
+export type WorkflowMigrationResult =
+  | { ok: true; document: RawDocument }
+  | { ok: false; errors: WorkflowFieldError[] };
+
+export const migrateWorkflowDocument = (value: unknown, targetVersion: number): WorkflowMigrationResult => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { ok: false, errors: [{ path: '', message: 'expected a workflow object' }] };
+  }
+
+  let document = value as RawDocument;
+  const rawVersion = document.version ?? 0;
+  if (typeof rawVersion !== 'number' || !Number.isInteger(rawVersion) || rawVersion < 0) {
+    return { ok: false, errors: [{ path: 'version', message: 'expected a non-negative integer' }] };
+  }
+  if (rawVersion > targetVersion) {
+    return {
+      ok: false,
+      errors: [{
+        path: 'version',
+        message: `file uses schema version ${rawVersion}, but this app only understands up to version ${targetVersion}`
+      }]
+    };
+  }
+
+  for (let version = rawVersion; version < targetVersion; version++) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      return { ok: false, errors: [{ path: 'version', message: `no migration from version ${version}` }] };
+    }
+    document = migrate(document);
+  }
+
+  return { ok: true, document };
+};
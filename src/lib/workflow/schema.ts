@@ -0,0 +1,403 @@
+import type {
+  ConnectionData,
+  FrameColor,
+  FrameData,
+  NodeConfig,
+  NodeData,
+  NodeInput,
+  SubflowData,
+  Viewport,
+  WireStyle,
+  WorkflowDocument
+} from './types';
+
+const WIRE_STYLES: readonly WireStyle[] = ['orthogonal', 'bezier', 'straight'];
+
+export const FRAME_COLORS: readonly FrameColor[] = ['gray', 'blue', 'green', 'yellow', 'red', 'purple'];
+
+export interface WorkflowFieldError {
+  path: string;   // e.g. "nodes[2].inputs[0].id"; empty for the document root
+  message: string;
+}
+
+export type WorkflowValidationResult =
+  | { ok: true; document: WorkflowDocument }
+  | { ok: false; errors: WorkflowFieldError[] };
+
+type UnknownRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const describe = (value: unknown) => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+const typeError = (path: string, expected: string, value: unknown): WorkflowFieldError => ({
+  path,
+  message: value === undefined ? `is required (${expected})` : `expected ${expected}, got ${describe(value)}`
+});
+
+const joinPath = (base: string, key: string | number) => {
+  if (typeof key === 'number') return `${base}[${key}]`;
+  return base ? `${base}.${key}` : key;
+};
+
+// Small field readers that record an error and return undefined on mismatch,
+// so a single pass reports every problem in the file instead of the first one.
+const readString = (record: UnknownRecord, key: string, path: string, errors: WorkflowFieldError[]) => {
+  const value = record[key];
+  if (typeof value !== 'string') {
+    errors.push(typeError(joinPath(path, key), 'a string', value));
+    return undefined;
+  }
+  return value;
+};
+
+const readId = (record: UnknownRecord, key: string, path: string, errors: WorkflowFieldError[]) => {
+  const value = readString(record, key, path, errors);
+  if (value !== undefined && value.trim() === '') {
+    errors.push({ path: joinPath(path, key), message: 'must not be empty' });
+    return undefined;
+  }
+  return value;
+};
+
+const readNumber = (record: UnknownRecord, key: string, path: string, errors: WorkflowFieldError[]) => {
+  const value = record[key];
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    errors.push(typeError(joinPath(path, key), 'a finite number', value));
+    return undefined;
+  }
+  return value;
+};
+
+const readBoolean = (record: UnknownRecord, key: string, path: string, errors: WorkflowFieldError[]) => {
+  const value = record[key];
+  if (typeof value !== 'boolean') {
+    errors.push(typeError(joinPath(path, key), 'a boolean', value));
+    return undefined;
+  }
+  return value;
+};
+
+const readArray = (record: UnknownRecord, key: string, path: string, errors: WorkflowFieldError[]) => {
+  const value = record[key];
+  if (!Array.isArray(value)) {
+    errors.push(typeError(joinPath(path, key), 'an array', value));
+    return undefined;
+  }
+  return value;
+};
+
+const readRecord = (value: unknown, path: string, errors: WorkflowFieldError[]) => {
+  if (!isRecord(value)) {
+    errors.push(typeError(path, 'an object', value));
+    return undefined;
+  }
+  return value;
+};
+
+const validateInput = (value: unknown, path: string, errors: WorkflowFieldError[]): NodeInput | undefined => {
+  const record = readRecord(value, path, errors);
+  if (!record) return undefined;
+
+  const id = readId(record, 'id', path, errors);
+  const connected = readBoolean(record, 'connected', path, errors);
+  if (id === undefined || connected === undefined) return undefined;
+
+  return { id, connected };
+};
+
+const validateNode = (value: unknown, path: string, errors: WorkflowFieldError[]): NodeData | undefined => {
+  const record = readRecord(value, path, errors);
+  if (!record) return undefined;
+
+  const id = readId(record, 'id', path, errors);
+  const type = readId(record, 'type', path, errors);
+  const x = readNumber(record, 'x', path, errors);
+  const y = readNumber(record, 'y', path, errors);
+  const title = readString(record, 'title', path, errors);
+  // Field values are checked against the node type's schema by the editor, not here:
+  // a document has to load even when a plugin that defines its type is missing
+  const config = readRecord(record.config, joinPath(path, 'config'), errors) as NodeConfig | undefined;
+  const rawInputs = readArray(record, 'inputs', path, errors);
+
+  const inputs: NodeInput[] = [];
+  const inputIds = new Set<string>();
+  rawInputs?.forEach((rawInput, index) => {
+    const inputPath = joinPath(joinPath(path, 'inputs'), index);
+    const input = validateInput(rawInput, inputPath, errors);
+    if (!input) return;
+    if (inputIds.has(input.id)) {
+      errors.push({ path: joinPath(inputPath, 'id'), message: `duplicate input id "${input.id}"` });
+      return;
+    }
+    inputIds.add(input.id);
+    inputs.push(input);
+  });
+
+  if (
+    id === undefined || type === undefined || x === undefined || y === undefined ||
+    title === undefined || config === undefined || rawInputs === undefined
+  ) {
+    return undefined;
+  }
+
+  return { id, type, x, y, title, config, inputs };
+};
+
+const validateConnection = (value: unknown, path: string, errors: WorkflowFieldError[]): ConnectionData | undefined => {
+  const record = readRecord(value, path, errors);
+  if (!record) return undefined;
+
+  const id = readId(record, 'id', path, errors);
+  const fromNodeId = readId(record, 'fromNodeId', path, errors);
+  const fromOutputId = readId(record, 'fromOutputId', path, errors);
+  const toNodeId = readId(record, 'toNodeId', path, errors);
+  const toInputId = readId(record, 'toInputId', path, errors);
+  const label = record.label === undefined ? undefined : readString(record, 'label', path, errors);
+  if (
+    id === undefined || fromNodeId === undefined || fromOutputId === undefined ||
+    toNodeId === undefined || toInputId === undefined
+  ) {
+    return undefined;
+  }
+
+  return { id, fromNodeId, fromOutputId, toNodeId, toInputId, ...(label !== undefined && { label }) };
+};
+
+const readIdList = (record: UnknownRecord, key: string, path: string, errors: WorkflowFieldError[]) => {
+  const values = readArray(record, key, path, errors);
+  if (!values) return undefined;
+
+  const invalid = values.findIndex(value => typeof value !== 'string' || value.trim() === '');
+  if (invalid !== -1) {
+    errors.push(typeError(joinPath(joinPath(path, key), invalid), 'a non-empty string', values[invalid]));
+    return undefined;
+  }
+  return values as string[];
+};
+
+const validateFrame = (value: unknown, path: string, errors: WorkflowFieldError[]): FrameData | undefined => {
+  const record = readRecord(value, path, errors);
+  if (!record) return undefined;
+
+  const id = readId(record, 'id', path, errors);
+  const title = readString(record, 'title', path, errors);
+  const color = readString(record, 'color', path, errors);
+  if (color !== undefined && !FRAME_COLORS.includes(color as FrameColor)) {
+    errors.push({ path: joinPath(path, 'color'), message: `expected one of ${FRAME_COLORS.join(', ')}, got "${color}"` });
+    return undefined;
+  }
+  const nodeIds = readIdList(record, 'nodeIds', path, errors);
+  if (id === undefined || title === undefined || color === undefined || nodeIds === undefined) return undefined;
+
+  return { id, title, color: color as FrameColor, nodeIds };
+};
+
+const validateSubflow = (value: unknown, path: string, errors: WorkflowFieldError[]): SubflowData | undefined => {
+  const record = readRecord(value, path, errors);
+  if (!record) return undefined;
+
+  const id = readId(record, 'id', path, errors);
+  const title = readString(record, 'title', path, errors);
+  const x = readNumber(record, 'x', path, errors);
+  const y = readNumber(record, 'y', path, errors);
+  const nodeIds = readIdList(record, 'nodeIds', path, errors);
+  const parentId = record.parentId === undefined ? undefined : readId(record, 'parentId', path, errors);
+  if (
+    id === undefined || title === undefined || x === undefined || y === undefined || nodeIds === undefined ||
+    (record.parentId !== undefined && parentId === undefined)
+  ) {
+    return undefined;
+  }
+
+  return { id, title, x, y, nodeIds, ...(parentId !== undefined && { parentId }) };
+};
+
+const validateViewport = (value: unknown, path: string, errors: WorkflowFieldError[]): Viewport | undefined => {
+  const record = readRecord(value, path, errors);
+  if (!record) return undefined;
+
+  const x = readNumber(record, 'x', path, errors);
+  const y = readNumber(record, 'y', path, errors);
+  const zoom = readNumber(record, 'zoom', path, errors);
+  if (zoom !== undefined && zoom <= 0) {
+    errors.push({ path: joinPath(path, 'zoom'), message: 'must be greater than 0' });
+    return undefined;
+  }
+  if (x === undefined || y === undefined || zoom === undefined) return undefined;
+
+  return { x, y, zoom };
+};
+
+// Cross-references between nodes, connections, frames and subflows. Only run once every record
+// has the right shape, otherwise the messages would just repeat the above.
+const validateReferences = (document: WorkflowDocument, errors: WorkflowFieldError[]) => {
+  const nodesById = new Map<string, NodeData>();
+  document.nodes.forEach((node, index) => {
+    if (nodesById.has(node.id)) {
+      errors.push({ path: `nodes[${index}].id`, message: `duplicate node id "${node.id}"` });
+      return;
+    }
+    nodesById.set(node.id, node);
+  });
+
+  const connectionIds = new Set<string>();
+  const targetedInputs = new Set<string>();
+  document.connections.forEach((conn, index) => {
+    const path = `connections[${index}]`;
+
+    if (connectionIds.has(conn.id)) {
+      errors.push({ path: `${path}.id`, message: `duplicate connection id "${conn.id}"` });
+    }
+    connectionIds.add(conn.id);
+
+    if (!nodesById.has(conn.fromNodeId)) {
+      errors.push({ path: `${path}.fromNodeId`, message: `unknown node "${conn.fromNodeId}"` });
+    }
+
+    const toNode = nodesById.get(conn.toNodeId);
+    if (!toNode) {
+      errors.push({ path: `${path}.toNodeId`, message: `unknown node "${conn.toNodeId}"` });
+      return;
+    }
+    if (conn.fromNodeId === conn.toNodeId) {
+      errors.push({ path: `${path}.toNodeId`, message: 'a node cannot be connected to itself' });
+    }
+
+    const input = toNode.inputs.find(candidate => candidate.id === conn.toInputId);
+    if (!input) {
+      errors.push({ path: `${path}.toInputId`, message: `node "${conn.toNodeId}" has no input "${conn.toInputId}"` });
+      return;
+    }
+
+    const inputKey = `${conn.toNodeId}/${conn.toInputId}`;
+    if (targetedInputs.has(inputKey)) {
+      errors.push({ path: `${path}.toInputId`, message: `input "${conn.toInputId}" of node "${conn.toNodeId}" already has a connection` });
+    }
+    targetedInputs.add(inputKey);
+  });
+
+  // The canvas trusts `connected` when deciding which connector to draw, so it
+  // has to agree with the connection list.
+  document.nodes.forEach((node, nodeIndex) => {
+    node.inputs.forEach((input, inputIndex) => {
+      const isTargeted = targetedInputs.has(`${node.id}/${input.id}`);
+      if (input.connected !== isTargeted) {
+        errors.push({
+          path: `nodes[${nodeIndex}].inputs[${inputIndex}].connected`,
+          message: isTargeted
+            ? 'input has an incoming connection but is marked as not connected'
+            : 'input is marked as connected but no connection targets it'
+        });
+      }
+    });
+  });
+
+  const frameIds = new Set<string>();
+  document.frames.forEach((frame, index) => {
+    if (frameIds.has(frame.id)) {
+      errors.push({ path: `frames[${index}].id`, message: `duplicate frame id "${frame.id}"` });
+    }
+    frameIds.add(frame.id);
+    frame.nodeIds.forEach((nodeId, nodeIndex) => {
+      if (!nodesById.has(nodeId)) {
+        errors.push({ path: `frames[${index}].nodeIds[${nodeIndex}]`, message: `unknown node "${nodeId}"` });
+      }
+    });
+  });
+
+  // Node and subflow ids share the canvas, so they must not collide either
+  const subflowsById = new Map<string, SubflowData>();
+  document.subflows.forEach((subflow, index) => {
+    if (subflowsById.has(subflow.id) || nodesById.has(subflow.id)) {
+      errors.push({ path: `subflows[${index}].id`, message: `duplicate subflow id "${subflow.id}"` });
+      return;
+    }
+    subflowsById.set(subflow.id, subflow);
+  });
+
+  const subflowOf = new Map<string, string>();
+  document.subflows.forEach((subflow, index) => {
+    const path = `subflows[${index}]`;
+    subflow.nodeIds.forEach((nodeId, nodeIndex) => {
+      if (!nodesById.has(nodeId)) {
+        errors.push({ path: `${path}.nodeIds[${nodeIndex}]`, message: `unknown node "${nodeId}"` });
+      } else if (subflowOf.has(nodeId)) {
+        errors.push({ path: `${path}.nodeIds[${nodeIndex}]`, message: `node "${nodeId}" is already in subflow "${subflowOf.get(nodeId)}"` });
+      } else {
+        subflowOf.set(nodeId, subflow.id);
+      }
+    });
+
+    if (subflow.parentId === undefined) return;
+    if (!subflowsById.has(subflow.parentId)) {
+      errors.push({ path: `${path}.parentId`, message: `unknown subflow "${subflow.parentId}"` });
+      return;
+    }
+    // Walking up from here has to reach the top level
+    const seen = new Set([subflow.id]);
+    let parent = subflowsById.get(subflow.parentId);
+    while (parent) {
+      if (seen.has(parent.id)) {
+        errors.push({ path: `${path}.parentId`, message: 'subflows cannot contain themselves' });
+        return;
+      }
+      seen.add(parent.id);
+      parent = parent.parentId ? subflowsById.get(parent.parentId) : undefined;
+    }
+  });
+};
+
+/**
+ * Checks that `value` is a well-formed workflow document of the current schema
+ * version. Migrations must already have been applied (see `migrateWorkflowDocument`).
+ */
+export const validateWorkflowDocument = (value: unknown, expectedVersion: number): WorkflowValidationResult => {
+  const errors: WorkflowFieldError[] = [];
+  const record = readRecord(value, '', errors);
+  if (!record) return { ok: false, errors };
+
+  const version = readNumber(record, 'version', '', errors);
+  if (version !== undefined && version !== expectedVersion) {
+    errors.push({ path: 'version', message: `expected version ${expectedVersion}, got ${version}` });
+  }
+
+  const name = readString(record, 'name', '', errors);
+  const viewport = validateViewport(record.viewport, 'viewport', errors);
+  const wireStyle = readString(record, 'wireStyle', '', errors);
+  if (wireStyle !== undefined && !WIRE_STYLES.includes(wireStyle as WireStyle)) {
+    errors.push({ path: 'wireStyle', message: `expected one of ${WIRE_STYLES.join(', ')}, got "${wireStyle}"` });
+  }
+
+  const nodes = (readArray(record, 'nodes', '', errors) ?? [])
+    .map((node, index) => validateNode(node, `nodes[${index}]`, errors));
+  const connections = (readArray(record, 'connections', '', errors) ?? [])
+    .map((conn, index) => validateConnection(conn, `connections[${index}]`, errors));
+  const frames = (readArray(record, 'frames', '', errors) ?? [])
+    .map((frame, index) => validateFrame(frame, `frames[${index}]`, errors));
+  const subflows = (readArray(record, 'subflows', '', errors) ?? [])
+    .map((subflow, index) => validateSubflow(subflow, `subflows[${index}]`, errors));
+
+  if (errors.length > 0) return { ok: false, errors };
+
+  const document: WorkflowDocument = {
+    version: expectedVersion,
+    name: name as string,
+    viewport: viewport as Viewport,
+    wireStyle: wireStyle as WireStyle,
+    nodes: nodes as NodeData[],
+    connections: connections as ConnectionData[],
+    frames: frames as FrameData[],
+    subflows: subflows as SubflowData[]
+  };
+
+  validateReferences(document, errors);
+  if (errors.length > 0) return { ok: false, errors };
+
+  return { ok: true, document };
+};
@@ -0,0 +1,43 @@
+import { createWorkflowDocument, DEFAULT_OUTPUT_ID } from './document';
+import type { WorkflowDocument } from './types';
+
+// Starter graph shown when there is no saved workflow to open.
+export const createSeedWorkflow = (): WorkflowDocument => createWorkflowDocument({
+  nodes: [
+    {
+      id: '1',
+      type: 'code',
+      x: 150,
+      y: 100,
+      title: 'Code',
+      config: { label: 'Change flight sheet' },
+      inputs: [{ id: 'input-1', connected: false }]
+    },
+    {
+      id: '2',
+      type: 'code',
+      x: 400,
+      y: 300,
+      title: 'Code',
+      config: { label: 'LTC' },
+      inputs: [{ id: 'input-1', connected: true }]
+    },
+    {
+      id: '3',
+      type: 'code',
+      x: 700,
+      y: 200,
+      title: 'Code',
+      config: { label: 'BTC' },
+      inputs: [
+        { id: 'input-1', connected: false },
+        { id: 'input-2', connected: false },
+        { id: 'input-3', connected: false },
+        { id: 'input-4', connected: false }
+      ]
+    },
+  ],
+  connections: [
+    { id: 'conn1', fromNodeId: '1', fromOutputId: DEFAULT_OUTPUT_ID, toNodeId: '2', toInputId: 'input-1' }
+  ]
+});
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import {
+  SUBFLOW_NODE_TYPE,
+  addToSubflow,
+  collapseIntoSubflow,
+  expandSubflow,
+  getSubflowPath,
+  getSubflowView,
+  resolveOutput
+} from './subflows';
+import type { ConnectionData, NodeData, WorkflowGraph } from './types';
+
+const node = (id: string, inputs: string[] = ['in']): NodeData => ({
+  id,
+  type: 'code',
+  x: 0,
+  y: 0,
+  title: id.toUpperCase(),
+  config: {},
+  inputs: inputs.map(inputId => ({ id: inputId, connected: true }))
+});
+
+const wire = (id: string, from: string, to: string, toInputId = 'in'): ConnectionData => ({
+  id,
+  fromNodeId: from,
+  fromOutputId: 'output',
+  toNodeId: to,
+  toInputId
+});
+
+// start -> a -> b -> end, with a and b in `outer` and b nested further in `inner`
+const graph: WorkflowGraph = {
+  nodes: [node('start', []), node('a'), node('b'), node('end', ['in', 'in2'])],
+  connections: [wire('sa', 'start', 'a'), wire('ab', 'a', 'b'), wire('be', 'b', 'end'), wire('ae', 'a', 'end', 'in2')],
+  subflows: [
+    { id: 'outer', title: 'Outer', x: 100, y: 50, nodeIds: ['a'] },
+    { id: 'inner', title: 'Inner', x: 300, y: 50, nodeIds: ['b'], parentId: 'outer' }
+  ]
+};
+
+describe('getSubflowView', () => {
+  it('stands a collapsed subflow in for everything inside it at the top level', () => {
+    const view = getSubflowView(graph, null);
+    expect(view.nodes.map(candidate => candidate.id)).toEqual(['start', 'end', 'outer']);
+
+    const outer = view.nodes[2] as NodeData & { outputs: { id: string; label: string }[] };
+    expect(outer).toMatchObject({ type: SUBFLOW_NODE_TYPE, x: 100, y: 50, title: 'Outer', config: { label: '2 nodes' } });
+    // One input per wire coming in, one output per output inside that leaves it
+    expect(outer.inputs).toEqual([{ id: 'sa', connected: true }]);
+    expect(outer.outputs.map(output => [output.id, output.label])).toEqual([['b/output', 'B'], ['a/output', 'A']]);
+  });
+
+  it('moves wire ends onto the subflow, keeping their ids', () => {
+    const view = getSubflowView(graph, null);
+    expect(view.connections).toEqual([
+      { ...graph.connections[0], toNodeId: 'outer', toInputId: 'sa' },
+      { ...graph.connections[2], fromNodeId: 'outer', fromOutputId: 'b/output' },
+      { ...graph.connections[3], fromNodeId: 'outer', fromOutputId: 'a/output' }
+    ]);
+    expect(resolveOutput(view, 'outer', 'b/output')).toEqual({ nodeId: 'b', outputId: 'output' });
+    expect(resolveOutput(view, 'start', 'output')).toEqual({ nodeId: 'start', outputId: 'output' });
+  });
+
+  it('shows only what sits inside when looking into a subflow', () => {
+    const view = getSubflowView(graph, 'outer');
+    expect(view.nodes.map(candidate => candidate.id)).toEqual(['a', 'inner']);
+    // Wires to nodes outside the subflow aren't drawn in it
+    expect(view.connections).toEqual([{ ...graph.connections[1], toNodeId: 'inner', toInputId: 'ab' }]);
+  });
+
+  it('keeps wires between nodes shown as themselves the same objects', () => {
+    const view = getSubflowView({ ...graph, subflows: [] }, null);
+    view.connections.forEach((conn, index) => expect(conn).toBe(graph.connections[index]));
+  });
+});
+
+describe('getSubflowPath', () => {
+  it('lists the subflows from the top down', () => {
+    expect(getSubflowPath(graph, 'inner').map(subflow => subflow.id)).toEqual(['outer', 'inner']);
+    expect(getSubflowPath(graph, null)).toEqual([]);
+  });
+});
+
+describe('collapseIntoSubflow', () => {
+  it('moves the nodes into a new subflow and nests the subflows among them', () => {
+    const subflows = collapseIntoSubflow(graph, null, new Set(['start', 'outer']), { id: 'new', title: 'New', x: 0, y: 0 });
+    expect(subflows).toEqual([
+      { ...graph.subflows?.[0], parentId: 'new' },
+      graph.subflows?.[1],
+      { id: 'new', title: 'New', x: 0, y: 0, nodeIds: ['start'] }
+    ]);
+    expect(getSubflowView({ ...graph, subflows }, null).nodes.map(candidate => candidate.id)).toEqual(['end', 'new']);
+  });
+
+  it('takes the nodes out of the subflow being looked into', () => {
+    const subflows = collapseIntoSubflow(graph, 'outer', new Set(['a']), { id: 'new', title: 'New', x: 0, y: 0 });
+    expect(subflows.find(subflow => subflow.id === 'outer')?.nodeIds).toEqual([]);
+    expect(subflows.find(subflow => subflow.id === 'new')).toMatchObject({ nodeIds: ['a'], parentId: 'outer' });
+  });
+});
+
+describe('expandSubflow', () => {
+  it('puts what the subflow held back into its parent', () => {
+    expect(expandSubflow(graph, 'inner')).toEqual([{ ...graph.subflows?.[0], nodeIds: ['a', 'b'] }]);
+  });
+
+  it('lifts nested subflows to the top level', () => {
+    const subflows = expandSubflow(graph, 'outer');
+    expect(subflows).toEqual([{ ...graph.subflows?.[1], parentId: undefined }]);
+    expect(getSubflowView({ ...graph, subflows }, null).nodes.map(candidate => candidate.id)).toEqual(['start', 'a', 'end', 'inner']);
+  });
+
+  it('undoes a collapse', () => {
+    const collapsed = collapseIntoSubflow(graph, 'outer', new Set(['a', 'inner']), { id: 'new', title: 'New', x: 0, y: 0 });
+    const expanded = expandSubflow({ ...graph, subflows: collapsed }, 'new');
+    expect(getSubflowView({ ...graph, subflows: expanded }, 'outer')).toEqual(getSubflowView(graph, 'outer'));
+  });
+
+  it('leaves the list alone for an unknown subflow', () => {
+    expect(expandSubflow(graph, 'missing')).toBe(graph.subflows);
+  });
+});
+
+describe('addToSubflow', () => {
+  it('adds new nodes to the subflow being looked into', () => {
+    expect(addToSubflow(graph, 'inner', ['c'])[1].nodeIds).toEqual(['b', 'c']);
+    expect(addToSubflow(graph, null, ['c'])).toEqual(graph.subflows);
+  });
+});
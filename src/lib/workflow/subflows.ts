@@ -0,0 +1,210 @@
+import { getNodeOutputs, getNodeOutputType, type NodeOutputDefinition } from '@/lib/nodeTypes';
+import type { ConnectionData, NodeData, SubflowData, WorkflowGraph } from './types';
+
+// Node type of the stand-in drawn for a collapsed subflow. It only ever exists
+// on the canvas, never in the graph.
+export const SUBFLOW_NODE_TYPE = 'subflow';
+
+// An output as the graph knows it
+export interface OutputRef {
+  nodeId: string;
+  outputId: string;
+}
+
+/**
+ * What the canvas shows while looking into one subflow (or the top level):
+ * `nodes` and `connections` are drawn like any graph, with each subflow
+ * directly inside stood in for by one node. A wire that crosses into a
+ * collapsed subflow becomes one of its inputs, and every output inside that
+ * feeds something outside becomes one of its outputs.
+ */
+export interface SubflowView extends WorkflowGraph {
+  // The output inside a collapsed subflow behind each of its outputs, keyed
+  // by `${subflowId}/${outputId}`
+  sources: Map<string, OutputRef>;
+}
+
+const subflowsOf = (graph: WorkflowGraph) => graph.subflows ?? [];
+
+// The subflow each node sits in directly
+const getMembership = (subflows: SubflowData[]) => {
+  const membership = new Map<string, string>();
+  subflows.forEach(subflow => subflow.nodeIds.forEach(nodeId => membership.set(nodeId, subflow.id)));
+  return membership;
+};
+
+// Subflows starting from the top level down to `subflowId`, for the breadcrumb
+export const getSubflowPath = (graph: WorkflowGraph, subflowId: string | null) => {
+  const byId = new Map(subflowsOf(graph).map(subflow => [subflow.id, subflow]));
+  const path: SubflowData[] = [];
+  let subflow = subflowId ? byId.get(subflowId) : undefined;
+  while (subflow) {
+    path.unshift(subflow);
+    subflow = subflow.parentId ? byId.get(subflow.parentId) : undefined;
+  }
+  return path;
+};
+
+// Every node inside the subflow, at any depth
+export const getSubflowNodeIds = (graph: WorkflowGraph, subflowId: string): string[] => {
+  const subflows = subflowsOf(graph);
+  const subflow = subflows.find(candidate => candidate.id === subflowId);
+  if (!subflow) return [];
+  return [
+    ...subflow.nodeIds,
+    ...subflows.filter(child => child.parentId === subflowId).flatMap(child => getSubflowNodeIds(graph, child.id))
+  ];
+};
+
+// Ids shown at some level made into the nodes they stand for: subflows are
+// replaced by everything inside them
+export const expandSubflowIds = (graph: WorkflowGraph, ids: Iterable<string>) => {
+  const subflowIds = new Set(subflowsOf(graph).map(subflow => subflow.id));
+  return Array.from(ids).flatMap(id => (subflowIds.has(id) ? getSubflowNodeIds(graph, id) : [id]));
+};
+
+/**
+ * For each node, what stands for it while looking into `level` (null for the
+ * top level): the node itself when it sits directly there, the subflow
+ * directly in `level` that holds it, or nothing when it is outside `level`.
+ */
+export const getRepresentatives = (graph: WorkflowGraph, level: string | null) => {
+  const subflows = subflowsOf(graph);
+  const parents = new Map(subflows.map(subflow => [subflow.id, subflow.parentId]));
+  const membership = getMembership(subflows);
+  const target = level ?? undefined;
+
+  const representatives = new Map<string, string>();
+  graph.nodes.forEach(node => {
+    let shown = node.id;
+    let container = membership.get(node.id);
+    // Climb out one subflow at a time until reaching `level`, or the top without passing it
+    while (container !== target) {
+      if (container === undefined) return;
+      shown = container;
+      container = parents.get(container);
+    }
+    representatives.set(node.id, shown);
+  });
+  return representatives;
+};
+
+/**
+ * The nodes and wires to draw while looking into `level`. Connection ids are
+ * kept, so a wire drawn on the canvas can be looked up in the graph; only its
+ * ends move onto the collapsed subflows it enters or leaves.
+ */
+export const getSubflowView = (graph: WorkflowGraph, level: string | null): SubflowView => {
+  const subflows = subflowsOf(graph);
+  const representatives = getRepresentatives(graph, level);
+  const nodesById = new Map(graph.nodes.map(node => [node.id, node]));
+  const collapsed = subflows.filter(subflow => (subflow.parentId ?? null) === level);
+
+  const inputs = new Map<string, ConnectionData[]>(collapsed.map(subflow => [subflow.id, []]));
+  const outputs = new Map<string, NodeOutputDefinition[]>(collapsed.map(subflow => [subflow.id, []]));
+  const sources = new Map<string, OutputRef>();
+  const connections: ConnectionData[] = [];
+
+  graph.connections.forEach(conn => {
+    const from = representatives.get(conn.fromNodeId);
+    const to = representatives.get(conn.toNodeId);
+    // Wires outside this level, or inside one subflow, aren't drawn here
+    if (from === undefined || to === undefined || from === to) return;
+
+    let fromOutputId = conn.fromOutputId;
+    if (from !== conn.fromNodeId) {
+      // One output per output inside, however many wires leave it
+      fromOutputId = `${conn.fromNodeId}/${conn.fromOutputId}`;
+      const key = `${from}/${fromOutputId}`;
+      if (!sources.has(key)) {
+        sources.set(key, { nodeId: conn.fromNodeId, outputId: conn.fromOutputId });
+        const source = nodesById.get(conn.fromNodeId);
+        const sourceOutputs = source ? getNodeOutputs(source) : [];
+        const label = sourceOutputs.find(output => output.id === conn.fromOutputId)?.label;
+        outputs.get(from)?.push({
+          id: fromOutputId,
+          label: source && sourceOutputs.length > 1 && label ? `${source.title} ${label}` : source?.title ?? conn.fromNodeId,
+          type: source ? getNodeOutputType(source, conn.fromOutputId) : undefined
+        });
+      }
+    }
+    // One input per wire coming in, named after the wire
+    if (to !== conn.toNodeId) inputs.get(to)?.push(conn);
+
+    // Wires between nodes shown as themselves stay the same object, so memoized
+    // wires only redraw when their own ends change
+    if (from === conn.fromNodeId && to === conn.toNodeId) {
+      connections.push(conn);
+      return;
+    }
+    connections.push({
+      ...conn,
+      fromNodeId: from,
+      fromOutputId,
+      toNodeId: to,
+      toInputId: to === conn.toNodeId ? conn.toInputId : conn.id
+    });
+  });
+
+  const count = (subflowId: string) => getSubflowNodeIds(graph, subflowId).length;
+  const nodes: NodeData[] = [
+    ...graph.nodes.filter(node => representatives.get(node.id) === node.id),
+    ...collapsed.map((subflow): NodeData & { outputs: NodeOutputDefinition[] } => ({
+      id: subflow.id,
+      type: SUBFLOW_NODE_TYPE,
+      x: subflow.x,
+      y: subflow.y,
+      title: subflow.title,
+      config: { label: count(subflow.id) === 1 ? '1 node' : `${count(subflow.id)} nodes` },
+      inputs: (inputs.get(subflow.id) ?? []).map(conn => ({ id: conn.id, connected: true })),
+      outputs: outputs.get(subflow.id) ?? []
+    }))
+  ];
+
+  return { nodes, connections, sources };
+};
+
+// The output a wire drawn from `nodeId`'s `outputId` really starts at
+export const resolveOutput = (view: SubflowView, nodeId: string, outputId: string): OutputRef =>
+  view.sources.get(`${nodeId}/${outputId}`) ?? { nodeId, outputId };
+
+/**
+ * The subflow list with a new subflow holding `ids`, all shown directly in
+ * `level`: nodes move into it and subflows among them are nested in it.
+ */
+export const collapseIntoSubflow = (
+  graph: WorkflowGraph,
+  level: string | null,
+  ids: ReadonlySet<string>,
+  subflow: Omit<SubflowData, 'nodeIds' | 'parentId'>
+): SubflowData[] => {
+  const subflows = subflowsOf(graph);
+  const nodeIds = graph.nodes.filter(node => ids.has(node.id)).map(node => node.id);
+  return [
+    ...subflows.map(existing => {
+      if (ids.has(existing.id)) return { ...existing, parentId: subflow.id };
+      if (existing.id !== level) return existing;
+      return { ...existing, nodeIds: existing.nodeIds.filter(nodeId => !ids.has(nodeId)) };
+    }),
+    { ...subflow, nodeIds, ...(level !== null && { parentId: level }) }
+  ];
+};
+
+// The subflow list with `subflowId` gone and what it held put back in its parent
+export const expandSubflow = (graph: WorkflowGraph, subflowId: string): SubflowData[] => {
+  const subflows = subflowsOf(graph);
+  const subflow = subflows.find(candidate => candidate.id === subflowId);
+  if (!subflow) return subflows;
+  return subflows.flatMap(existing => {
+    if (existing.id === subflowId) return [];
+    if (existing.parentId === subflowId) return [{ ...existing, parentId: subflow.parentId }];
+    if (existing.id === subflow.parentId) return [{ ...existing, nodeIds: [...existing.nodeIds, ...subflow.nodeIds] }];
+    return [existing];
+  });
+};
+
+// The subflow list with new nodes added to `level`, e.g. when dropping a node while looking into a subflow
+export const addToSubflow = (graph: WorkflowGraph, level: string | null, nodeIds: string[]): SubflowData[] =>
+  subflowsOf(graph).map(subflow => (
+    subflow.id === level ? { ...subflow, nodeIds: [...subflow.nodeIds, ...nodeIds] } : subflow
+  ));
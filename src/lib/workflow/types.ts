@@ -0,0 +1,98 @@
+export interface NodeInput {
+  id: string;
+  connected: boolean;
+}
+
+// Values for the fields of the node type's config schema, keyed by field key.
+// `label` is shown under the node.
+export type NodeConfig = Record<string, unknown>;
+
+export interface NodeData {
+  id: string;
+  // Id of a registered node type (see src/lib/nodeTypes)
+  type: string;
+  x: number;
+  y: number;
+  title: string;
+  config: NodeConfig;
+  inputs: NodeInput[];
+}
+
+export interface ConnectionData {
+  id: string;
+  fromNodeId: string;
+  // One of the source node type's outputs; single-output nodes use DEFAULT_OUTPUT_ID
+  fromOutputId: string;
+  toNodeId: string;
+  toInputId: string;
+  // Optional text drawn halfway along the wire
+  label?: string;
+}
+
+export interface Viewport {
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+// How wires are drawn on the canvas. Orthogonal wires are routed around nodes.
+export type WireStyle = 'orthogonal' | 'bezier' | 'straight';
+
+export type FrameColor = 'gray' | 'blue' | 'green' | 'yellow' | 'red' | 'purple';
+
+// A labelled, coloured area drawn behind a set of nodes. It has no position of
+// its own: it is drawn around its nodes, so it moves with them.
+export interface FrameData {
+  id: string;
+  title: string;
+  color: FrameColor;
+  nodeIds: string[];
+}
+
+// Nodes shown on the canvas as one collapsed node at (x, y) that opens to show
+// them. A subflow only changes what the canvas shows: its nodes and wires stay
+// in the graph as they are, so running or saving sees the flattened graph.
+export interface SubflowData {
+  id: string;
+  title: string;
+  x: number;
+  y: number;
+  // Nodes directly in this subflow; nested subflows name it as their parent
+  nodeIds: string[];
+  parentId?: string;
+}
+
+export interface WorkflowGraph {
+  nodes: NodeData[];
+  connections: ConnectionData[];
+  frames?: FrameData[];
+  subflows?: SubflowData[];
+}
+
+// The on-disk / over-the-wire shape of a workflow. `version` is the schema
+// version and is bumped (with a migration) whenever this shape changes.
+export interface WorkflowDocument extends WorkflowGraph {
+  version: number;
+  name: string;
+  viewport: Viewport;
+  wireStyle: WireStyle;
+  frames: FrameData[];
+  subflows: SubflowData[];
+}
+
+// A workflow as persisted by the server store. `revision` increases by one on
+// every successful write and is used for optimistic concurrency control.
+export interface StoredWorkflow {
+  id: string;
+  revision: number;
+  createdAt: string;
+  updatedAt: string;
+  document: WorkflowDocument;
+}
+
+export interface WorkflowSummary {
+  id: string;
+  name: string;
+  revision: number;
+  updatedAt: string;
+}
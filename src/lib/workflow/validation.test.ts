@@ -0,0 +1,118 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { Hash } from 'lucide-react';
+import { registerNodeType } from '@/lib/nodeTypes';
+import { canConnect, validateWorkflow } from './validation';
+import type { ConnectionData, NodeData, WorkflowGraph } from './types';
+
+const node = (id: string, type: string, inputs: string[] = ['in'], config: NodeData['config'] = {}): NodeData => ({
+  id,
+  type,
+  x: 0,
+  y: 0,
+  title: id,
+  config,
+  inputs: inputs.map(inputId => ({ id: inputId, connected: false }))
+});
+
+const wire = (id: string, from: string, to: string, toInputId = 'in', fromOutputId = 'output'): ConnectionData => ({
+  id,
+  fromNodeId: from,
+  fromOutputId,
+  toNodeId: to,
+  toInputId
+});
+
+// A type whose input only takes numbers, to have something JSON can't feed
+let unregister: () => void;
+beforeAll(() => {
+  unregister = registerNodeType({ id: 'sum', title: 'Sum', icon: Hash, defaultInputs: 1, inputType: 'number', configSchema: [] });
+});
+afterAll(() => unregister());
+
+// hook -> a -> b, with c and sum unwired
+const chain: WorkflowGraph = {
+  nodes: [node('hook', 'webhook', [], { path: '/in' }), node('a', 'code'), node('b', 'code'), node('c', 'code'), node('sum', 'sum')],
+  connections: [wire('ha', 'hook', 'a'), wire('ab', 'a', 'b')]
+};
+
+describe('canConnect', () => {
+  it('allows a wire between compatible nodes', () => {
+    expect(canConnect(chain, 'b', 'output', 'c')).toEqual({ ok: true });
+  });
+
+  it('refuses a wire to the node itself', () => {
+    expect(canConnect(chain, 'a', 'output', 'a')).toMatchObject({ ok: false });
+  });
+
+  it('refuses a wire that would close a loop, however long', () => {
+    expect(canConnect(chain, 'b', 'output', 'hook')).toMatchObject({ ok: false, reason: expect.stringContaining('cycle') });
+    expect(canConnect(chain, 'b', 'output', 'a')).toMatchObject({ ok: false, reason: expect.stringContaining('cycle') });
+  });
+
+  it('refuses incompatible port types', () => {
+    expect(canConnect(chain, 'hook', 'output', 'sum')).toMatchObject({ ok: false, reason: expect.stringContaining("can't connect") });
+  });
+
+  it('allows a repeated wire with a warning', () => {
+    expect(canConnect(chain, 'a', 'output', 'b')).toMatchObject({ ok: true, warning: expect.any(String) });
+  });
+
+  it('refuses nodes that are gone', () => {
+    expect(canConnect(chain, 'a', 'output', 'missing')).toEqual({ ok: false, reason: 'Node no longer exists' });
+  });
+});
+
+describe('validateWorkflow', () => {
+  const codes = (graph: WorkflowGraph) => validateWorkflow(graph).issues.map(issue => issue.code);
+
+  it('passes a well-formed chain, with warnings only for open inputs', () => {
+    const report = validateWorkflow({ ...chain, nodes: chain.nodes.slice(0, 3) });
+    expect(report).toEqual({ valid: true, issues: [] });
+    expect(validateWorkflow(chain).valid).toBe(true);
+    expect(codes(chain)).toEqual(['dangling-input', 'dangling-input']);
+  });
+
+  it('reports the nodes and wires on a cycle, but not the ones merely downstream of it', () => {
+    const graph = { ...chain, connections: [...chain.connections, wire('ba', 'b', 'a', 'in2'), wire('bc', 'b', 'c')] };
+    graph.nodes = graph.nodes.map(candidate => (candidate.id === 'a' ? node('a', 'code', ['in', 'in2']) : candidate));
+    const cycle = validateWorkflow(graph).issues.find(issue => issue.code === 'cycle');
+    expect(cycle).toMatchObject({ severity: 'error', nodeIds: ['a', 'b'] });
+    expect(cycle?.connectionIds.sort()).toEqual(['ab', 'ba']);
+  });
+
+  it('reports wires to missing nodes, inputs and outputs', () => {
+    expect(codes({
+      nodes: chain.nodes.slice(0, 3),
+      connections: [
+        ...chain.connections,
+        wire('x', 'a', 'ghost'),
+        wire('y', 'a', 'b', 'nope'),
+        wire('z', 'hook', 'b', 'in', 'nope')
+      ]
+    })).toEqual(['unknown-node', 'unknown-input', 'unknown-output']);
+  });
+
+  it('reports self-connections, type mismatches and repeated wires', () => {
+    const report = validateWorkflow({
+      nodes: chain.nodes,
+      connections: [...chain.connections, wire('aa', 'a', 'a'), wire('hs', 'hook', 'sum'), wire('ab2', 'a', 'b')]
+    });
+    expect(report.valid).toBe(false);
+    expect(report.issues.map(issue => issue.code)).toEqual(
+      expect.arrayContaining(['self-connection', 'type-mismatch', 'duplicate-edge'])
+    );
+  });
+
+  it('reports settings that break the node type schema', () => {
+    expect(codes({ nodes: [node('delay', 'delay', [], { milliseconds: 'soon' })], connections: [] })).toEqual(['invalid-config']);
+  });
+
+  it('follows long chains', () => {
+    const size = 2000;
+    const nodes = Array.from({ length: size }, (_, index) => node(`n${index}`, 'code'));
+    const connections = nodes.slice(1).map((target, index) => wire(`w${index}`, `n${index}`, target.id));
+    // Only the first node has nothing plugged in
+    expect(validateWorkflow({ nodes, connections }).issues.map(issue => issue.nodeIds)).toEqual([['n0']]);
+    expect(canConnect({ nodes, connections }, `n${size - 1}`, 'output', 'n0').ok).toBe(false);
+  });
+});
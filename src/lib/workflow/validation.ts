@@ -0,0 +1,293 @@
+import { WorkflowCycleError, topologicalSort } from '@/lib/execution/topology';
+import {
+  getNodeInputType,
+  getNodeOutputs,
+  getNodeOutputType,
+  getNodeType,
+  getPortType,
+  isPortTypeCompatible,
+  validateNodeConfig
+} from '@/lib/nodeTypes';
+import type { ConnectionData, NodeData, WorkflowGraph } from './types';
+
+export type WorkflowIssueSeverity = 'error' | 'warning';
+
+export type WorkflowIssueCode =
+  | 'cycle'
+  | 'self-connection'
+  | 'unknown-node'
+  | 'unknown-input'
+  | 'unknown-output'
+  | 'type-mismatch'
+  | 'duplicate-edge'
+  | 'dangling-input'
+  | 'invalid-config';
+
+export interface WorkflowIssue {
+  code: WorkflowIssueCode;
+  // Errors stop the workflow from running; warnings are worth a look
+  severity: WorkflowIssueSeverity;
+  message: string;
+  nodeIds: string[];
+  connectionIds: string[];
+}
+
+export interface WorkflowValidationReport {
+  valid: boolean;
+  issues: WorkflowIssue[];
+}
+
+export type ConnectionCheck =
+  | { ok: true; warning?: string }
+  | { ok: false; reason: string };
+
+const nodeLabel = (nodesById: Map<string, NodeData>, id: string) => nodesById.get(id)?.title ?? id;
+
+// Why `fromNode`'s output can't feed `toNode`'s inputs, or null if it can
+const typeMismatch = (fromNode: NodeData, fromOutputId: string, toNode: NodeData) => {
+  const output = getNodeOutputType(fromNode, fromOutputId);
+  const input = getNodeInputType(toNode);
+  if (isPortTypeCompatible(output, input)) return null;
+  return `${getPortType(output).label} output of ${fromNode.title} can't connect to ${getPortType(input).label} input of ${toNode.title}`;
+};
+
+// Wires going into and out of each node, so nothing has to scan every wire per node
+const indexWires = (connections: ConnectionData[]) => {
+  const incoming = new Map<string, ConnectionData[]>();
+  const outgoing = new Map<string, ConnectionData[]>();
+  const add = (wires: Map<string, ConnectionData[]>, nodeId: string, conn: ConnectionData) => {
+    const list = wires.get(nodeId);
+    if (list) list.push(conn);
+    else wires.set(nodeId, [conn]);
+  };
+  connections.forEach(conn => {
+    add(incoming, conn.toNodeId, conn);
+    add(outgoing, conn.fromNodeId, conn);
+  });
+  return { incoming, outgoing };
+};
+
+// True if `targetId` can be reached from `startId` by following wires downstream
+const canReach = (outgoing: Map<string, ConnectionData[]>, startId: string, targetId: string) => {
+  const visited = new Set([startId]);
+  const stack = [startId];
+
+  while (stack.length > 0) {
+    const id = stack.pop() as string;
+    if (id === targetId) return true;
+    outgoing.get(id)?.forEach(conn => {
+      if (!visited.has(conn.toNodeId)) {
+        visited.add(conn.toNodeId);
+        stack.push(conn.toNodeId);
+      }
+    });
+  }
+
+  return false;
+};
+
+/**
+ * Decides whether a new wire from output `fromOutputId` of `fromNodeId` to
+ * `toNodeId` may be added to the graph. Wires between incompatible port types
+ * or that would close a loop are rejected, the latter because the executor can
+ * only run acyclic graphs; a second wire from the same output to the same node
+ * is allowed but comes with a warning.
+ */
+export const canConnect = (
+  graph: WorkflowGraph,
+  fromNodeId: string,
+  fromOutputId: string,
+  toNodeId: string
+): ConnectionCheck => {
+  const nodesById = new Map(graph.nodes.map(node => [node.id, node]));
+  const fromNode = nodesById.get(fromNodeId);
+  const toNode = nodesById.get(toNodeId);
+
+  if (!fromNode || !toNode) {
+    return { ok: false, reason: 'Node no longer exists' };
+  }
+  if (fromNodeId === toNodeId) {
+    return { ok: false, reason: 'A node cannot be connected to itself' };
+  }
+  const mismatch = typeMismatch(fromNode, fromOutputId, toNode);
+  if (mismatch) {
+    return { ok: false, reason: mismatch };
+  }
+  if (canReach(indexWires(graph.connections).outgoing, toNodeId, fromNodeId)) {
+    return {
+      ok: false,
+      reason: `Would create a cycle: ${nodeLabel(nodesById, toNodeId)} already feeds into ${nodeLabel(nodesById, fromNodeId)}`
+    };
+  }
+  const isDuplicate = graph.connections.some(conn => (
+    conn.fromNodeId === fromNodeId && conn.fromOutputId === fromOutputId && conn.toNodeId === toNodeId
+  ));
+  if (isDuplicate) {
+    return {
+      ok: true,
+      warning: `${nodeLabel(nodesById, fromNodeId)} is already connected to ${nodeLabel(nodesById, toNodeId)}`
+    };
+  }
+
+  return { ok: true };
+};
+
+// Nodes that sit on a cycle. topologicalSort reports everything it could not
+// order, which includes nodes that are merely downstream of a loop; peel those
+// off until only nodes with an edge back into the set remain.
+const findCycleNodes = (graph: WorkflowGraph, outgoing: Map<string, ConnectionData[]>) => {
+  try {
+    topologicalSort(graph);
+    return [];
+  } catch (error) {
+    if (!(error instanceof WorkflowCycleError)) throw error;
+
+    const remaining = new Set(error.nodeIds);
+    let changed = true;
+    while (changed) {
+      changed = false;
+      remaining.forEach(id => {
+        const feedsRemaining = outgoing.get(id)?.some(conn => remaining.has(conn.toNodeId)) ?? false;
+        if (!feedsRemaining) {
+          remaining.delete(id);
+          changed = true;
+        }
+      });
+    }
+    return graph.nodes.filter(node => remaining.has(node.id)).map(node => node.id);
+  }
+};
+
+/**
+ * Checks a whole graph and lists everything wrong with it: cycles, wires that
+ * point at missing nodes, inputs or outputs, wires from a node to itself,
+ * wires between incompatible port types, repeated wires from one output to the
+ * same node, inputs nothing is plugged into and settings that don't fit the
+ * node type's config schema.
+ * `valid` is false when any issue is an error.
+ */
+export const validateWorkflow = (graph: WorkflowGraph): WorkflowValidationReport => {
+  const issues: WorkflowIssue[] = [];
+  const nodesById = new Map(graph.nodes.map(node => [node.id, node]));
+  const label = (id: string) => nodeLabel(nodesById, id);
+
+  const wellFormed: ConnectionData[] = [];
+  graph.connections.forEach(conn => {
+    const fromNode = nodesById.get(conn.fromNodeId);
+    const toNode = nodesById.get(conn.toNodeId);
+
+    if (!fromNode || !toNode) {
+      const missing = [conn.fromNodeId, conn.toNodeId].filter(id => !nodesById.has(id));
+      issues.push({
+        code: 'unknown-node',
+        severity: 'error',
+        message: `Connection ${conn.id} refers to missing node ${missing.join(', ')}`,
+        nodeIds: [conn.fromNodeId, conn.toNodeId].filter(id => nodesById.has(id)),
+        connectionIds: [conn.id]
+      });
+    } else if (!toNode.inputs.some(input => input.id === conn.toInputId)) {
+      issues.push({
+        code: 'unknown-input',
+        severity: 'error',
+        message: `Connection ${conn.id} ends at input ${conn.toInputId}, which ${label(toNode.id)} does not have`,
+        nodeIds: [toNode.id],
+        connectionIds: [conn.id]
+      });
+    } else if (getNodeType(fromNode.type) && !getNodeOutputs(fromNode).some(output => output.id === conn.fromOutputId)) {
+      // Unregistered types can't be checked; their outputs are whatever the wires say
+      issues.push({
+        code: 'unknown-output',
+        severity: 'error',
+        message: `Connection ${conn.id} starts at output ${conn.fromOutputId}, which ${label(fromNode.id)} does not have`,
+        nodeIds: [fromNode.id],
+        connectionIds: [conn.id]
+      });
+    } else if (conn.fromNodeId === conn.toNodeId) {
+      issues.push({
+        code: 'self-connection',
+        severity: 'error',
+        message: `${label(conn.fromNodeId)} is connected to itself`,
+        nodeIds: [conn.fromNodeId],
+        connectionIds: [conn.id]
+      });
+    } else {
+      const mismatch = typeMismatch(fromNode, conn.fromOutputId, toNode);
+      if (mismatch) {
+        issues.push({
+          code: 'type-mismatch',
+          severity: 'error',
+          message: mismatch,
+          nodeIds: [fromNode.id, toNode.id],
+          connectionIds: [conn.id]
+        });
+      }
+      // Still part of the graph's shape, so cycles and duplicates count it
+      wellFormed.push(conn);
+    }
+  });
+
+  const { incoming, outgoing } = indexWires(wellFormed);
+  const cycleNodeIds = findCycleNodes({ nodes: graph.nodes, connections: wellFormed }, outgoing);
+  if (cycleNodeIds.length > 0) {
+    const onCycle = new Set(cycleNodeIds);
+    issues.push({
+      code: 'cycle',
+      severity: 'error',
+      message: `Workflow contains a cycle through ${cycleNodeIds.map(label).join(', ')}`,
+      nodeIds: cycleNodeIds,
+      connectionIds: wellFormed
+        .filter(conn => onCycle.has(conn.fromNodeId) && onCycle.has(conn.toNodeId))
+        .map(conn => conn.id)
+    });
+  }
+
+  const byPair = new Map<string, ConnectionData[]>();
+  wellFormed.forEach(conn => {
+    const key = `${conn.fromNodeId}/${conn.fromOutputId}->${conn.toNodeId}`;
+    byPair.set(key, [...(byPair.get(key) ?? []), conn]);
+  });
+  byPair.forEach(group => {
+    if (group.length < 2) return;
+    const { fromNodeId, toNodeId } = group[0];
+    issues.push({
+      code: 'duplicate-edge',
+      severity: 'warning',
+      message: `${label(fromNodeId)} is connected to ${label(toNodeId)} ${group.length} times`,
+      nodeIds: [fromNodeId, toNodeId],
+      connectionIds: group.map(conn => conn.id)
+    });
+  });
+
+  graph.nodes.forEach(node => {
+    const wiredInputs = new Set(incoming.get(node.id)?.map(conn => conn.toInputId));
+    const dangling = node.inputs.filter(input => !wiredInputs.has(input.id));
+    if (dangling.length === 0) return;
+    issues.push({
+      code: 'dangling-input',
+      severity: 'warning',
+      message: dangling.length === 1
+        ? `${label(node.id)} has an input with nothing connected`
+        : `${label(node.id)} has ${dangling.length} inputs with nothing connected`,
+      nodeIds: [node.id],
+      connectionIds: []
+    });
+  });
+
+  graph.nodes.forEach(node => {
+    const definition = getNodeType(node.type);
+    if (!definition) return;
+    const fieldErrors = validateNodeConfig(definition.configSchema, node.config);
+    Object.entries(fieldErrors).forEach(([key, message]) => {
+      const field = definition.configSchema.find(candidate => candidate.key === key);
+      issues.push({
+        code: 'invalid-config',
+        severity: 'error',
+        message: `${label(node.id)}: ${field?.label ?? key} - ${message}`,
+        nodeIds: [node.id],
+        connectionIds: []
+      });
+    });
+  });
+
+  return { valid: issues.every(issue => issue.severity !== 'error'), issues };
+};